@@ -1,18 +1,30 @@
 
-import React, { useState, useEffect, useCallback, useContext, createContext, useMemo, useRef } from 'react';
-import { User, MediaFile, ToastMessage, ViewMode } from './types';
-import { generateTagsForImage } from './services/geminiService';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useContext, createContext, useMemo, useRef } from 'react';
+import { Album, User, MediaAnalysis, MediaChange, MediaEvent, MediaEventType, MediaFile, MediaMetadata, MediaRevision, MediaSnapshot, MediaTag, ShareLink, ToastMessage, ViewMode } from './types';
+import { DEFAULT_AI_SETTINGS, createAiProvider } from './services/ai';
+import { AiProvider, AiSettings, AiUnavailableError, analyzeVideoFrames } from './services/aiProvider';
+import { DEFAULT_GEMINI_EMBEDDING_MODEL, DEFAULT_GEMINI_MODEL } from './services/geminiProvider';
+import { DEFAULT_OPENAI_EMBEDDING_MODEL, DEFAULT_OPENAI_ENDPOINT } from './services/openAiProvider';
+import { migrateLegacyLibrary, storage, storageBackend } from './services/storage';
+import { addTag, collectTagStats, hasTag, normalizeMediaTags, removeTag, renameTag, replaceAiTags } from './services/tags';
+import { createTaggingQueue } from './services/taggingQueue';
+import { SortField, SortOrder, embeddingText, mediaMatchesText, parseQuery, rankBySimilarity, sortMedia } from './services/search';
+import { createZip, uniqueEntryNames } from './services/zip';
+import { ConflictPolicy, ParsedBackup, backupToJson, backupToZip, createBackup, findConflicts, planMerge, readBackup } from './services/backup';
+import { MIN_PASSWORD_LENGTH, MediaEntry, MediaVariant, StorageQuotaError, blobToDataUrl, createPublicId, getPasswordProblem } from './services/storageAdapter';
+import { extractImageMetadata, extractVideoMetadata } from './services/mediaMetadata';
+import { createThumbnail } from './services/thumbnails';
+import { MAX_UPLOAD_SIZE, QuotaLevel, archivedSize, largestItems, libraryUsage, quotaLevel } from './services/quota';
+import { EVENT_TYPES, EventCounts, countByType, countsPerDay, eventsSince, storageByCategory, topCategories, topItems, topReferrers, totalOf, uploadsPerMonth } from './services/analytics';
+import { ImportedFile, fetchMediaFile, filesFromDrop, filesFromFolderInput, filesFromPaste, parseUrlList } from './services/imports';
+import { AI_AUTHOR, changedFields, contentChanged, recordRevision, snapshotOf } from './services/revisions';
+import { DuplicateMatches, findDuplicates, groupDuplicates, perceptualHash, sha256Hex } from './services/duplicates';
+import { KeyframeExtractionError, extractKeyframes } from './services/videoFrames';
+import { DEFAULT_IMAGE_PROCESSING, ImageOutputFormat, ImageProcessingOptions, canProcessImage, processImage, renameForType } from './services/imageProcessing';
+import { IDENTITY_EDIT, ImageAdjustments, ImageEdit, adjustmentFilter, drawOriented, editedSize, orientedSize, renderEdit } from './services/imageEditor';
 import { CloseIcon, CopyIcon, DownloadIcon, EyeIcon, FolderIcon, GridIcon, GuardMidiaLogo, ListIcon, LogoutIcon, MoonIcon, SearchIcon, SunIcon, TagIcon, UploadIcon } from './components/Icons';
 
 // UTILITY FUNCTIONS
-const fileToBase64 = (file: File): Promise<string> =>
-  new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = (error) => reject(error);
-  });
-
 const formatBytes = (bytes: number, decimals = 2) => {
   if (bytes === 0) return '0 Bytes';
   const k = 1024;
@@ -22,15 +34,40 @@ const formatBytes = (bytes: number, decimals = 2) => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 };
 
-const getImageDimensions = (dataUrl: string): Promise<{ width: number, height: number }> =>
+// Empty for images the browser cannot decode (HEIC on most desktops), which are stored without dimensions.
+const getImageDimensions = (blob: Blob): Promise<{ width?: number, height?: number }> =>
   new Promise((resolve) => {
+    const url = URL.createObjectURL(blob);
     const img = new Image();
     img.onload = () => {
-      resolve({ width: img.width, height: img.height });
+      URL.revokeObjectURL(url);
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
     };
-    img.src = dataUrl;
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve({});
+    };
+    img.src = url;
   });
 
+// Samples keyframes for AI tagging; the first one doubles as the poster shown in the grid.
+const analyzeVideo = async (provider: AiProvider, blob: Blob) => {
+  const { frames, width, height } = await extractKeyframes(blob);
+  const encoded = await Promise.all(frames.map(async frame => ({ data: (await blobToDataUrl(frame)).split(',')[1], mimeType: frame.type })));
+  return { ...(await analyzeVideoFrames(provider, encoded)), poster: frames[0], width, height };
+};
+
+const altTextFor = (item: MediaFile) => item.analysis?.altText || item.name;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const linkElement = document.createElement('a');
+  linkElement.setAttribute('href', url);
+  linkElement.setAttribute('download', fileName);
+  linkElement.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 // HOOKS
 const useLocalStorage = <T,>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] => {
   const [storedValue, setStoredValue] = useState<T>(() => {
@@ -56,6 +93,37 @@ const useLocalStorage = <T,>(key: string, initialValue: T): [T, React.Dispatch<R
   return [storedValue, setValue];
 };
 
+// Resolves a media item's content (or a derived image) to a URL for as long as the caller is mounted.
+// A null variant resolves nothing. A new revision (the content hash) resolves the URL again after
+// the content was replaced under the same id.
+const useMediaUrl = (id: string, variant: MediaVariant | null = 'content', revision?: string) => {
+  const { user } = useAuth();
+  const owner = user?.username ?? '';
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let resolvedUrl: string | null = null;
+    setUrl(null);
+    if (!variant) return;
+    storage.getMediaUrl(owner, id, variant).then(result => {
+      resolvedUrl = result;
+      if (cancelled) {
+        if (result?.startsWith('blob:')) URL.revokeObjectURL(result);
+        return;
+      }
+      // Remote URLs stay the same across edits, so the revision keeps the browser from reusing its copy.
+      setUrl(result && revision && !result.startsWith('blob:') ? `${result}${result.includes('?') ? '&' : '?'}rev=${encodeURIComponent(revision)}` : result);
+    }).catch(error => console.error(error));
+    return () => {
+      cancelled = true;
+      if (resolvedUrl?.startsWith('blob:')) URL.revokeObjectURL(resolvedUrl);
+    };
+  }, [owner, id, variant, revision]);
+
+  return url;
+};
+
 // CONTEXTS
 // Theme Context
 type Theme = 'light' | 'dark';
@@ -88,19 +156,20 @@ const useTheme = () => {
 };
 
 // Toast Context
-type ToastContextType = { addToast: (message: string, type: ToastMessage['type']) => void };
+type ToastContextType = { addToast: (message: string, type: ToastMessage['type'], action?: ToastMessage['action']) => void };
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
 
 const ToastProvider = ({ children }: { children: React.ReactNode }) => {
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
 
-  const addToast = (message: string, type: ToastMessage['type']) => {
+  // Stable, so effects can list it as a dependency without re-running.
+  const addToast = useCallback((message: string, type: ToastMessage['type'], action?: ToastMessage['action']) => {
     const id = Date.now().toString();
-    setToasts((prev) => [...prev, { id, message, type }]);
+    setToasts((prev) => [...prev, { id, message, type, action }]);
     setTimeout(() => {
       setToasts((currentToasts) => currentToasts.filter((toast) => toast.id !== id));
     }, 5000);
-  };
+  }, []);
 
   const removeToast = (id: string) => {
     setToasts((prev) => prev.filter((toast) => toast.id !== id));
@@ -126,44 +195,72 @@ const useToast = () => {
 // Auth Context
 type AuthContextType = {
   user: User | null;
-  login: (user: User) => boolean;
+  isRestoring: boolean;
+  login: (user: User) => Promise<boolean>;
   logout: () => void;
-  register: (user: User) => boolean;
+  register: (user: User) => Promise<boolean>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
+  deleteAccount: (password: string) => Promise<boolean>;
 };
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const SESSION_STORAGE_KEY = 'session';
+
 const AuthProvider = ({ children }: { children: React.ReactNode }) => {
-  const [user, setUser] = useState<User | null>(() => {
-    const storedUser = localStorage.getItem('currentUser');
-    return storedUser ? JSON.parse(storedUser) : null;
-  });
-  const [users, setUsers] = useLocalStorage<Record<string, string>>('users', {});
+  const [user, setUser] = useState<User | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
 
-  const login = (credentials: User) => {
-    if (users[credentials.username] && users[credentials.username] === credentials.password) {
-      const loggedInUser = { username: credentials.username };
-      setUser(loggedInUser);
-      localStorage.setItem('currentUser', JSON.stringify(loggedInUser));
-      return true;
+  useEffect(() => {
+    // Sessions from before signed tokens were a bare username and are no longer trusted.
+    localStorage.removeItem('currentUser');
+    const token = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!token) {
+      setIsRestoring(false);
+      return;
     }
-    return false;
+    storage.resumeSession(token)
+      .then(username => {
+        if (username) setUser({ username });
+        else localStorage.removeItem(SESSION_STORAGE_KEY);
+      })
+      .catch(error => console.error(error))
+      .finally(() => setIsRestoring(false));
+  }, []);
+
+  const login = async (credentials: User) => {
+    const token = await storage.login(credentials.username, credentials.password!);
+    if (!token) return false;
+    localStorage.setItem(SESSION_STORAGE_KEY, token);
+    setUser({ username: credentials.username });
+    return true;
   };
 
   const logout = () => {
+    storage.endSession();
     setUser(null);
-    localStorage.removeItem('currentUser');
+    localStorage.removeItem(SESSION_STORAGE_KEY);
   };
 
-  const register = (credentials: User) => {
-    if (users[credentials.username]) {
-      return false; // User already exists
-    }
-    setUsers(prev => ({ ...prev, [credentials.username]: credentials.password! }));
+  const register = (credentials: User) => storage.createUser(credentials.username, credentials.password!);
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    if (!user) return false;
+    const token = await storage.changePassword(user.username, currentPassword, newPassword);
+    if (!token) return false;
+    localStorage.setItem(SESSION_STORAGE_KEY, token);
+    return true;
+  };
+
+  const deleteAccount = async (password: string) => {
+    if (!user || !(await storage.deleteAccount(user.username, password))) return false;
+    // Libraries from before IndexedDB may still sit in localStorage if they were never migrated.
+    localStorage.removeItem(`media_${user.username}`);
+    logout();
     return true;
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, register }}>
+    <AuthContext.Provider value={{ user, isRestoring, login, logout, register, changePassword, deleteAccount }}>
       {children}
     </AuthContext.Provider>
   );
@@ -176,95 +273,432 @@ const useAuth = () => {
 
 
 // Media Context
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days an item stays in the trash before it is deleted for good.
+const TRASH_RETENTION_DAYS = 30;
+
+type NewMedia = Omit<MediaFile, 'id' | 'uploadDate' | 'views'> & { blob: Blob; poster?: Blob; thumbnail?: Blob };
+type EditedContent = { blob: Blob; thumbnail?: Blob; updates: Partial<MediaFile> };
 type MediaContextType = {
-  media: MediaFile[];
-  addMedia: (files: Omit<MediaFile, 'id' | 'uploadDate' | 'views'>[]) => void;
-  deleteMedia: (id: string) => void;
-  updateMedia: (id: string, updates: Partial<MediaFile>) => void;
+  media: MediaFile[]; // everything outside the trash
+  trash: MediaFile[]; // most recently deleted first
+  isLoading: boolean;
+  addMedia: (files: NewMedia[]) => Promise<boolean>;
+  // Takes an updater when the changes depend on the item's latest state. Changes to versioned
+  // fields are recorded in the item's history under `author` (the signed-in user by default).
+  updateMedia: (id: string, updates: Partial<MediaFile> | ((item: MediaFile) => Partial<MediaFile>), author?: string) => void;
+  updateMediaBatch: (ids: string[], updater: (item: MediaFile) => Partial<MediaFile> | null, label: string) => void;
+  // Stores new content under an existing item, keeping its views, tags, albums and links.
+  replaceMediaContent: (id: string, content: EditedContent) => Promise<boolean>;
+  // Brings an item back to the state of an earlier revision, recorded as a new revision.
+  revertMedia: (id: string, revisionId: string) => Promise<boolean>;
+  // Moves items to the trash, from where they can be restored until they are purged.
+  trashMedia: (ids: string[]) => void;
+  restoreMedia: (ids: string[]) => void;
+  // Deletes items and their content for good.
+  purgeMedia: (ids: string[]) => Promise<void>;
+  undoLastBatch: () => Promise<void>;
   categories: string[];
+  // Counts an opening by the owner and logs it for the statistics page.
   incrementView: (id: string) => void;
-  backupData: () => void;
-  restoreData: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  recordDownloads: (ids: string[]) => void;
+  backupData: (format: 'zip' | 'json') => void;
+  // Writes entries prepared from a backup; 'replace' drops everything else in the library.
+  restoreBackup: (entries: MediaEntry[], mode: 'merge' | 'replace') => Promise<boolean>;
+  // Bytes counted against the quota (see libraryUsage); quota is null when there is none.
+  usage: { used: number; quota: number | null };
 };
 const MediaContext = createContext<MediaContextType | undefined>(undefined);
 
 const MediaProvider = ({ children }: { children: React.ReactNode }) => {
   const { user } = useAuth();
-  const [media, setMedia] = useLocalStorage<MediaFile[]>(`media_${user?.username}`, []);
+  const [media, setMedia] = useState<MediaFile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [quota, setQuota] = useState<number | null>(null);
   const { addToast } = useToast();
+  const username = user?.username;
 
-  const addMedia = (files: Omit<MediaFile, 'id' | 'uploadDate' | 'views'>[]) => {
-    const newMediaItems: MediaFile[] = files.map(file => ({
-      ...file,
-      id: `${Date.now()}-${Math.random()}`,
-      uploadDate: new Date().toISOString(),
-      views: 0,
+  const reportStorageError = useCallback((error: unknown, fallbackMessage: string) => {
+    console.error(error);
+    addToast(error instanceof StorageQuotaError ? `${error.message} Exclua alguns arquivos e tente novamente.` : fallbackMessage, 'error');
+  }, [addToast]);
+
+  useEffect(() => {
+    if (!username) return;
+    let cancelled = false;
+    setIsLoading(true);
+    (async () => {
+      try {
+        const migrated = await migrateLegacyLibrary(storage, username);
+        if (migrated > 0) addToast(`${migrated} arquivo(s) migrado(s) para o novo armazenamento.`, 'info');
+      } catch (error) {
+        reportStorageError(error, 'Falha ao migrar a biblioteca antiga.');
+      }
+      try {
+        const items = (await storage.listMedia(username)).map(normalizeMediaTags);
+        if (!cancelled) setMedia(items);
+      } catch (error) {
+        reportStorageError(error, 'Falha ao carregar a biblioteca.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [username, addToast, reportStorageError]);
+
+  useEffect(() => {
+    if (!username) return;
+    let cancelled = false;
+    storage.getQuota(username)
+      .then(loaded => { if (!cancelled) setQuota(loaded); })
+      // Without a known quota nothing is blocked here; the server still enforces its own.
+      .catch(error => console.warn('Não foi possível obter a cota de armazenamento:', error));
+    return () => { cancelled = true; };
+  }, [username]);
+
+  const used = useMemo(() => libraryUsage(media), [media]);
+
+  // Rejects a change that would leave the library over its quota. Changes that free space are
+  // always allowed, even when the quota was lowered below what is already stored.
+  const fitsQuota = (next: MediaFile[]) => {
+    if (quota === null) return true;
+    const after = libraryUsage(next);
+    if (after <= quota || after <= used) return true;
+    addToast(`Sem espaço na sua cota: isto precisa de ${formatBytes(after - used, 1)}, mas restam ${formatBytes(Math.max(0, quota - used), 1)} de ${formatBytes(quota, 0)}. Esvazie a lixeira ou exclua arquivos grandes (veja "Uso do armazenamento" no menu da conta).`, 'error');
+    return false;
+  };
+
+  // Warns once each time usage climbs into a higher band, including when the library loads.
+  const warnedLevelRef = useRef<QuotaLevel>('ok');
+  useEffect(() => {
+    if (isLoading) return;
+    const level = quotaLevel(used, quota);
+    const rank = { ok: 0, warning: 1, critical: 2 };
+    if (rank[level] > rank[warnedLevelRef.current]) {
+      const percent = Math.round((used / quota!) * 100);
+      addToast(level === 'critical'
+        ? `Sua cota de armazenamento está quase esgotada (${percent}%). Novos envios podem ser recusados.`
+        : `Você já usou ${percent}% da sua cota de armazenamento.`, level === 'critical' ? 'error' : 'info');
+    }
+    warnedLevelRef.current = level;
+  }, [used, quota, isLoading, addToast]);
+
+  const addMedia = async (files: NewMedia[]) => {
+    if (!user) return false;
+    const entries = files.map(({ blob, poster, thumbnail, ...file }) => ({
+      item: {
+        ...file,
+        id: `${Date.now()}-${Math.random()}`,
+        uploadDate: new Date().toISOString(),
+        views: 0,
+        hasPoster: Boolean(poster),
+        hasThumbnail: Boolean(thumbnail),
+      },
+      blob,
+      poster,
+      thumbnail,
     }));
-    setMedia(prev => [...newMediaItems, ...prev]);
+    if (!fitsQuota([...media, ...entries.map(entry => entry.item)])) return false;
+    try {
+      await storage.putMedia(user.username, entries);
+    } catch (error) {
+      reportStorageError(error, 'Falha ao salvar os arquivos.');
+      return false;
+    }
+    setMedia(prev => [...entries.map(entry => entry.item), ...prev]);
+    return true;
   };
   
-  const deleteMedia = (id: string) => {
-    setMedia(prev => prev.filter(item => item.id !== id));
+  const withRevision = (item: MediaFile, changed: MediaFile, author = user?.username ?? '') =>
+    recordRevision(item, changed, { owner: user?.username ?? '', author, changes: changedFields(snapshotOf(item), snapshotOf(changed)) });
+
+  // The library as of the last update, so an update is computed before it is handed to React
+  // and saved once, rather than from inside a state updater that React may call twice.
+  const mediaRef = useRef(media);
+  useLayoutEffect(() => {
+    mediaRef.current = media;
+  }, [media]);
+
+  const updateMedia = (id: string, updates: Partial<MediaFile> | ((item: MediaFile) => Partial<MediaFile>), author?: string) => {
+    const item = mediaRef.current.find(candidate => candidate.id === id);
+    if (!item) return;
+    const updated = withRevision(item, { ...item, ...(typeof updates === 'function' ? updates(item) : updates) }, author);
+    mediaRef.current = mediaRef.current.map(candidate => candidate.id === id ? updated : candidate);
+    setMedia(prev => prev.map(candidate => candidate.id === id ? updated : candidate));
+    if (user) storage.updateMedia(user.username, updated).catch(error => reportStorageError(error, 'Falha ao salvar as alterações.'));
   };
-  
-  const updateMedia = (id: string, updates: Partial<MediaFile>) => {
-    setMedia(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
+
+  // Only the most recent batch can be undone. For each item it keeps the earlier values of the
+  // fields the batch set, so undoing leaves edits made since then to other fields in place.
+  const lastBatchRef = useRef<{ label: string; previous: { id: string; fields: Partial<MediaFile> }[] } | null>(null);
+
+  const offerUndo = (message: string) => {
+    addToast(message, 'info', { label: 'Desfazer', onClick: () => { undoLastBatch(); } });
   };
 
-  const incrementView = (id: string) => {
-     updateMedia(id, { views: (media.find(m => m.id === id)?.views || 0) + 1 });
-  }
+  const applyBatch = (ids: string[], updater: (item: MediaFile) => Partial<MediaFile> | null, label: string, message: (count: number) => string) => {
+    const previous: { id: string; fields: Partial<MediaFile> }[] = [];
+    const updated: MediaFile[] = [];
+    // From the latest library, like updateMedia, so updates made since the last render are kept.
+    mediaRef.current.forEach(item => {
+      if (!ids.includes(item.id)) return;
+      const updates = updater(item);
+      if (!updates) return;
+      const fields = Object.fromEntries(Object.keys(updates).map(key => [key, item[key as keyof MediaFile]])) as Partial<MediaFile>;
+      previous.push({ id: item.id, fields });
+      updated.push(withRevision(item, { ...item, ...updates }));
+    });
+    if (updated.length === 0) return;
+    const byId = new Map(updated.map(item => [item.id, item]));
+    mediaRef.current = mediaRef.current.map(item => byId.get(item.id) ?? item);
+    setMedia(prev => prev.map(item => byId.get(item.id) ?? item));
+    if (user) {
+      Promise.all(updated.map(item => storage.updateMedia(user.username, item)))
+        .catch(error => reportStorageError(error, 'Falha ao salvar as alterações.'));
+    }
+    lastBatchRef.current = { label, previous };
+    offerUndo(message(updated.length));
+  };
 
-  const categories = useMemo(() => {
-    const allCategories = media.map(m => m.category);
-    return ['Todos', ...Array.from(new Set(allCategories)).filter(Boolean)];
-  }, [media]);
+  const updateMediaBatch = (ids: string[], updater: (item: MediaFile) => Partial<MediaFile> | null, label: string) =>
+    applyBatch(ids, updater, label, count => `${label}: ${count} item(ns).`);
 
-  const backupData = () => {
-    if(!user) return;
+  const trashMedia = (ids: string[]) => {
+    const deletedAt = new Date().toISOString();
+    applyBatch(ids, item => item.deletedAt ? null : { deletedAt }, 'Exclusão', count => `${count} item(ns) movido(s) para a lixeira.`);
+  };
+
+  const restoreMedia = (ids: string[]) =>
+    applyBatch(ids, item => item.deletedAt ? { deletedAt: undefined } : null, 'Restauração', count => `${count} item(ns) restaurado(s).`);
+
+  const saveContent = async (item: MediaFile, { blob, thumbnail, updates }: EditedContent, revertOf?: string) => {
+    if (!user) return false;
+    const owner = user.username;
     try {
-      const dataStr = JSON.stringify(media, null, 2);
-      const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
-      const exportFileDefaultName = `guardmidia_backup_${user.username}_${new Date().toISOString().split('T')[0]}.json`;
-      const linkElement = document.createElement('a');
-      linkElement.setAttribute('href', dataUri);
-      linkElement.setAttribute('download', exportFileDefaultName);
-      linkElement.click();
-      addToast('Backup criado com sucesso!', 'success');
-    } catch(e) {
-      addToast('Falha ao criar o backup.', 'error');
+      // The outgoing content is archived first, so every version in the history stays retrievable.
+      const current = await storage.getMediaContent(owner, item.id);
+      const previous = { ...item, contentHash: item.contentHash ?? (current ? await sha256Hex(current) : undefined) };
+      if (current && previous.contentHash) await storage.putRevisionContent(owner, item.id, previous.contentHash, current);
+      // Without a new thumbnail the old one is stale; the background backfill regenerates it.
+      const changed: MediaFile = { ...previous, ...updates, size: blob.size, mimeType: blob.type, hasThumbnail: Boolean(thumbnail) };
+      const changes = [...changedFields(snapshotOf(previous), snapshotOf(changed)), 'content' as const];
+      const updated = recordRevision(previous, changed, { owner, author: owner, changes, revertOf });
+      if (!fitsQuota(media.map(candidate => candidate.id === item.id ? updated : candidate))) return false;
+      await storage.putMedia(owner, [{ item: updated, blob, thumbnail }]);
+      setMedia(prev => prev.map(candidate => candidate.id === item.id ? updated : candidate));
+      return true;
+    } catch (error) {
+      reportStorageError(error, 'Falha ao salvar o novo conteúdo.');
+      return false;
     }
   };
 
-  const restoreData = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const replaceMediaContent = async (id: string, content: EditedContent) => {
+    const item = media.find(candidate => candidate.id === id);
+    return item ? saveContent(item, content) : false;
+  };
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
+  const revertMedia = async (id: string, revisionId: string) => {
+    const item = media.find(candidate => candidate.id === id);
+    const revision = item?.revisions?.find(candidate => candidate.id === revisionId);
+    if (!item || !revision || !user) return false;
+    const { size, mimeType, width, height, contentHash, ...fields } = revision.snapshot;
+    if (!contentChanged(snapshotOf(item), revision.snapshot)) {
+      const changed = { ...item, ...fields };
+      const updated = recordRevision(item, changed, { owner: user.username, author: user.username, changes: changedFields(snapshotOf(item), snapshotOf(changed)), revertOf: revision.id });
+      if (updated === changed) return true;
+      setMedia(prev => prev.map(candidate => candidate.id === id ? updated : candidate));
       try {
-        const text = e.target?.result;
-        if (typeof text === 'string') {
-          const restoredMedia = JSON.parse(text);
-          // basic validation
-          if (Array.isArray(restoredMedia) && restoredMedia.every(item => item.id && item.name && item.dataUrl)) {
-            setMedia(restoredMedia);
-            addToast('Dados restaurados com sucesso!', 'success');
-          } else {
-            throw new Error("Invalid backup file format.");
+        await storage.updateMedia(user.username, updated);
+        return true;
+      } catch (error) {
+        reportStorageError(error, 'Falha ao salvar as alterações.');
+        return false;
+      }
+    }
+    let blob: Blob | null;
+    try {
+      blob = await storage.getRevisionContent(user.username, id, contentHash!);
+    } catch (error) {
+      reportStorageError(error, 'Falha ao carregar a versão.');
+      return false;
+    }
+    if (!blob) {
+      addToast('O conteúdo desta versão não está mais disponível.', 'error');
+      return false;
+    }
+    const restored = blob.type === mimeType ? blob : new Blob([blob], { type: mimeType });
+    const thumbnail = item.type === 'image' ? await createThumbnail(restored) : null;
+    // The perceptual hash is recomputed in the background, like for items from before it existed.
+    return saveContent(item, {
+      blob: restored,
+      thumbnail: thumbnail ?? undefined,
+      updates: { ...fields, width, height, contentHash, perceptualHash: undefined },
+    }, revision.id);
+  };
+
+  const purgeMedia = async (ids: string[]) => {
+    if (!user || ids.length === 0) return;
+    try {
+      await storage.deleteMedia(user.username, ids);
+    } catch (error) {
+      reportStorageError(error, 'Falha ao excluir os arquivos.');
+      return;
+    }
+    setMedia(prev => prev.filter(item => !ids.includes(item.id)));
+    // Undoing would bring back records whose content is gone.
+    if (lastBatchRef.current?.previous.some(item => ids.includes(item.id))) lastBatchRef.current = null;
+  };
+
+  const undoLastBatch = async () => {
+    const batch = lastBatchRef.current;
+    if (!batch || !user) return;
+    lastBatchRef.current = null;
+    const restored = new Map<string, MediaFile>();
+    batch.previous.forEach(({ id, fields }) => {
+      const item = mediaRef.current.find(candidate => candidate.id === id);
+      if (item) restored.set(id, withRevision(item, { ...item, ...fields }));
+    });
+    mediaRef.current = mediaRef.current.map(item => restored.get(item.id) ?? item);
+    setMedia(prev => prev.map(item => restored.get(item.id) ?? item));
+    try {
+      await Promise.all([...restored.values()].map(item => storage.updateMedia(user.username, item)));
+      addToast(`${batch.label} desfeita.`, 'success');
+    } catch (error) {
+      reportStorageError(error, 'Falha ao desfazer a operação.');
+    }
+  };
+
+  // Thumbnails and duplicate-detection hashes are computed in the background for items from
+  // before they existed, or restored from a backup.
+  const backfillAttempts = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    backfillAttempts.current = new Set();
+  }, [username]);
+
+  // Read by the effects below, which outlive the render they started in.
+  const latest = useRef({ media, updateMedia, purgeMedia });
+  latest.current = { media, updateMedia, purgeMedia };
+
+  useEffect(() => {
+    if (!username || isLoading) return;
+    const owner = username;
+    const attempts = backfillAttempts.current;
+    const hasPicture = (item: MediaFile) => item.type === 'image' || item.hasPoster;
+    const pending = media.filter(item => !attempts.has(`${item.id}:${item.hasPoster}`)
+      && (!item.contentHash || (hasPicture(item) && (!item.hasThumbnail || !item.perceptualHash))));
+    if (pending.length === 0) return;
+    // Videos are tried again once the tagging queue has given them a poster.
+    pending.forEach(item => attempts.add(`${item.id}:${item.hasPoster}`));
+    (async () => {
+      // One at a time, so a large library does not decode hundreds of originals at once.
+      for (const item of pending) {
+        if (attempts !== backfillAttempts.current) return;
+        try {
+          const updates: Partial<MediaFile> = {};
+          if (!item.contentHash) {
+            const content = await storage.getMediaContent(owner, item.id);
+            if (content) updates.contentHash = await sha256Hex(content);
+          }
+          const picture = hasPicture(item) && (!item.hasThumbnail || !item.perceptualHash)
+            ? await storage.getMediaContent(owner, item.id, item.type === 'image' ? 'content' : 'poster')
+            : null;
+          if (picture && !item.hasThumbnail) {
+            const thumbnail = await createThumbnail(picture);
+            if (thumbnail) {
+              await storage.putVariant(owner, item.id, 'thumbnail', thumbnail);
+              updates.hasThumbnail = true;
+            }
           }
+          if (picture && !item.perceptualHash) {
+            const hash = await perceptualHash(picture);
+            if (hash) updates.perceptualHash = hash;
+          }
+          if (Object.keys(updates).length > 0) latest.current.updateMedia(item.id, updates);
+        } catch (error) {
+          console.warn(`Falha ao processar ${item.name} em segundo plano:`, error);
         }
-      } catch (error) {
-        console.error("Restore error: ", error);
-        addToast('Falha ao restaurar dados. Arquivo inválido.', 'error');
       }
-    };
-    reader.readAsText(file);
-    event.target.value = ''; // Reset input
+    })();
+  }, [media, isLoading, username]);
+
+  // Expired items are purged when the library loads rather than on a timer, so nothing
+  // disappears while the user is looking at the trash.
+  useEffect(() => {
+    if (!username || isLoading) return;
+    const cutoff = Date.now() - TRASH_RETENTION_DAYS * DAY_MS;
+    const expired = latest.current.media.filter(item => item.deletedAt && new Date(item.deletedAt).getTime() < cutoff);
+    if (expired.length > 0) latest.current.purgeMedia(expired.map(item => item.id));
+  }, [isLoading, username]);
+
+  // The log is a nice-to-have: a failed write is not worth interrupting the user for.
+  const logEvents = (ids: string[], type: MediaEventType) => {
+    if (!user || ids.length === 0) return;
+    const date = new Date().toISOString();
+    storage.logEvents(user.username, ids.map(mediaId => ({ mediaId, type, date })))
+      .catch(error => console.warn('Não foi possível registrar o evento:', error));
   };
-  
+
+  const incrementView = (id: string) => {
+    updateMedia(id, item => ({ views: (item.views || 0) + 1 }));
+    logEvents([id], 'view');
+  };
+
+  const recordDownloads = (ids: string[]) => logEvents(ids, 'download');
+
+  const liveMedia = useMemo(() => media.filter(item => !item.deletedAt), [media]);
+  const trash = useMemo(() => media.filter(item => item.deletedAt).sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!)), [media]);
+
+  const categories = useMemo(() => {
+    const allCategories = liveMedia.map(m => m.category);
+    return ['Todos', ...Array.from(new Set(allCategories)).filter(Boolean)];
+  }, [liveMedia]);
+
+  const backupData = async (format: 'zip' | 'json') => {
+    if (!user) return;
+    try {
+      // Everything goes in, trash included; thumbnails are left out since they are cheap to regenerate.
+      const entries: MediaEntry[] = [];
+      for (const item of media) {
+        const blob = await storage.getMediaContent(user.username, item.id);
+        const poster = item.hasPoster ? await storage.getMediaContent(user.username, item.id, 'poster') : null;
+        entries.push({ item, blob: blob ?? new Blob([], { type: item.mimeType }), poster: poster ?? undefined });
+      }
+      const backup = await createBackup(user.username, entries);
+      const date = new Date().toISOString().split('T')[0];
+      downloadBlob(
+        format === 'zip' ? await backupToZip(backup) : await backupToJson(backup),
+        `guardmidia_backup_${user.username}_${date}.${format}`,
+      );
+      addToast('Backup criado com sucesso!', 'success');
+    } catch (error) {
+      console.error(error);
+      addToast('Falha ao criar o backup.', 'error');
+    }
+  };
+
+  const restoreBackup = async (entries: MediaEntry[], mode: 'merge' | 'replace') => {
+    if (!user) return false;
+    const normalized = entries.map(entry => ({ ...entry, item: normalizeMediaTags(entry.item) }));
+    const restoredIds = new Set(normalized.map(entry => entry.item.id));
+    const kept = mode === 'replace' ? [] : media.filter(item => !restoredIds.has(item.id));
+    if (!fitsQuota([...kept, ...normalized.map(entry => entry.item)])) return false;
+    try {
+      if (mode === 'replace') await storage.replaceLibrary(user.username, normalized);
+      else await storage.putMedia(user.username, normalized);
+      setMedia((await storage.listMedia(user.username)).map(normalizeMediaTags));
+      lastBatchRef.current = null;
+      return true;
+    } catch (error) {
+      reportStorageError(error, 'Falha ao restaurar o backup.');
+      // Entries written before the failure are in the library now.
+      storage.listMedia(user.username).then(items => setMedia(items.map(normalizeMediaTags))).catch(console.error);
+      return false;
+    }
+  };
+
   return (
-    <MediaContext.Provider value={{ media, addMedia, deleteMedia, updateMedia, categories, incrementView, backupData, restoreData }}>
+    <MediaContext.Provider value={{ media: liveMedia, trash, isLoading, addMedia, updateMedia, updateMediaBatch, replaceMediaContent, revertMedia, trashMedia, restoreMedia, purgeMedia, undoLastBatch, categories, incrementView, recordDownloads, backupData, restoreBackup, usage: { used, quota } }}>
       {children}
     </MediaContext.Provider>
   );
@@ -275,6 +709,375 @@ const useMedia = () => {
   return context;
 };
 
+// Album Context
+type AlbumContextType = {
+  albums: Album[];
+  createAlbum: (name: string, description?: string, mediaIds?: string[]) => Album;
+  updateAlbum: (id: string, updates: Partial<Omit<Album, 'id' | 'createdAt'>>) => void;
+  deleteAlbum: (id: string) => void;
+  mergeAlbums: (sourceId: string, targetId: string) => void;
+  moveAlbum: (id: string, offset: -1 | 1) => void;
+  addToAlbum: (albumId: string, mediaIds: string[]) => void;
+  removeFromAlbum: (albumId: string, mediaIds: string[]) => void;
+};
+const AlbumContext = createContext<AlbumContextType | undefined>(undefined);
+
+const AlbumProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const { media, trash, isLoading: isMediaLoading } = useMedia();
+  const { addToast } = useToast();
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const username = user?.username;
+
+  const persist = (changed: Album[]) => {
+    if (!user || changed.length === 0) return;
+    storage.putAlbums(user.username, changed).catch(error => {
+      console.error(error);
+      addToast('Falha ao salvar os álbuns.', 'error');
+    });
+  };
+
+  useEffect(() => {
+    if (!username) return;
+    let cancelled = false;
+    setIsLoading(true);
+    storage.listAlbums(username)
+      .then(result => { if (!cancelled) setAlbums(result); })
+      .catch(error => {
+        console.error(error);
+        addToast('Falha ao carregar os álbuns.', 'error');
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [username, addToast]);
+
+  // Read by the effects below without making them run again when these change.
+  const latest = useRef({ albums, media, persist });
+  latest.current = { albums, media, persist };
+
+  // One-time migration: every category in use becomes an album holding its media. It is only
+  // marked done once the albums are saved, so a failed save is tried again on the next load.
+  useEffect(() => {
+    if (!username || isLoading || isMediaLoading) return;
+    const migratedKey = `albumsMigrated_${username}`;
+    if (localStorage.getItem(migratedKey)) return;
+    const { albums, media } = latest.current;
+    if (albums.length > 0) {
+      localStorage.setItem(migratedKey, 'true');
+      return;
+    }
+
+    const byCategory = new Map<string, string[]>();
+    // Oldest first, so album members keep their upload order.
+    [...media].reverse().forEach(item => {
+      if (!item.category || item.category === 'Sem Categoria') return;
+      byCategory.set(item.category, [...(byCategory.get(item.category) ?? []), item.id]);
+    });
+    const migrated = Array.from(byCategory.entries()).map(([name, mediaIds], order): Album => ({
+      id: `${Date.now()}-${Math.random()}`,
+      name,
+      description: '',
+      coverMediaId: mediaIds[mediaIds.length - 1],
+      order,
+      createdAt: new Date().toISOString(),
+      mediaIds,
+    }));
+    if (migrated.length === 0) {
+      localStorage.setItem(migratedKey, 'true');
+      return;
+    }
+    storage.putAlbums(username, migrated)
+      .then(() => {
+        localStorage.setItem(migratedKey, 'true');
+        setAlbums(migrated);
+      })
+      .catch(error => {
+        console.error(error);
+        addToast('Falha ao criar álbuns a partir das categorias.', 'error');
+      });
+  }, [username, isLoading, isMediaLoading, addToast]);
+
+  // Ids that were in the library, trash included, on the previous pass and are gone now: the
+  // items were purged, so they leave the albums that held them. Kept until the albums load.
+  const knownIds = useRef<Set<string> | null>(null);
+  const purgedIds = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    knownIds.current = null;
+    purgedIds.current = new Set();
+  }, [username]);
+
+  useEffect(() => {
+    if (isMediaLoading) return;
+    const current = new Set([...media, ...trash].map(item => item.id));
+    knownIds.current?.forEach(id => { if (!current.has(id)) purgedIds.current.add(id); });
+    knownIds.current = current;
+    if (isLoading || purgedIds.current.size === 0) return;
+    const purged = purgedIds.current;
+    purgedIds.current = new Set();
+    const changed = albums.flatMap(album => {
+      const mediaIds = album.mediaIds.filter(id => !purged.has(id));
+      if (mediaIds.length === album.mediaIds.length && !(album.coverMediaId && purged.has(album.coverMediaId))) return [];
+      const coverMediaId = album.coverMediaId && mediaIds.includes(album.coverMediaId) ? album.coverMediaId : mediaIds[0];
+      return [{ ...album, mediaIds, coverMediaId }];
+    });
+    if (changed.length === 0) return;
+    const byId = new Map(changed.map(album => [album.id, album]));
+    setAlbums(prev => prev.map(album => byId.get(album.id) ?? album));
+    latest.current.persist(changed);
+  }, [albums, media, trash, isLoading, isMediaLoading]);
+
+  const createAlbum = (name: string, description = '', mediaIds: string[] = []) => {
+    const album: Album = {
+      id: `${Date.now()}-${Math.random()}`,
+      name,
+      description,
+      coverMediaId: mediaIds[0],
+      order: albums.length === 0 ? 0 : Math.max(...albums.map(a => a.order)) + 1,
+      createdAt: new Date().toISOString(),
+      mediaIds,
+    };
+    setAlbums(prev => [...prev, album]);
+    persist([album]);
+    return album;
+  };
+
+  const applyChanges = (changed: Album[]) => {
+    const byId = new Map(changed.map(album => [album.id, album]));
+    setAlbums(prev => prev.map(album => byId.get(album.id) ?? album));
+    persist(changed);
+  };
+
+  const updateAlbum = (id: string, updates: Partial<Omit<Album, 'id' | 'createdAt'>>) => {
+    const album = albums.find(a => a.id === id);
+    if (album) applyChanges([{ ...album, ...updates }]);
+  };
+
+  const deleteAlbum = (id: string) => {
+    setAlbums(prev => prev.filter(album => album.id !== id));
+    if (user) {
+      storage.deleteAlbum(user.username, id).catch(error => {
+        console.error(error);
+        addToast('Falha ao deletar o álbum.', 'error');
+      });
+    }
+  };
+
+  const mergeAlbums = (sourceId: string, targetId: string) => {
+    const source = albums.find(a => a.id === sourceId);
+    const target = albums.find(a => a.id === targetId);
+    if (!source || !target || source.id === target.id) return;
+    applyChanges([{
+      ...target,
+      mediaIds: [...target.mediaIds, ...source.mediaIds.filter(id => !target.mediaIds.includes(id))],
+      coverMediaId: target.coverMediaId ?? source.coverMediaId,
+    }]);
+    deleteAlbum(source.id);
+  };
+
+  const moveAlbum = (id: string, offset: -1 | 1) => {
+    const sorted = [...albums].sort((a, b) => a.order - b.order);
+    const index = sorted.findIndex(a => a.id === id);
+    const swapWith = sorted[index + offset];
+    if (index < 0 || !swapWith) return;
+    applyChanges([
+      { ...sorted[index], order: swapWith.order },
+      { ...swapWith, order: sorted[index].order },
+    ]);
+  };
+
+  const addToAlbum = (albumId: string, mediaIds: string[]) => {
+    const album = albums.find(a => a.id === albumId);
+    if (!album) return;
+    const added = mediaIds.filter(id => !album.mediaIds.includes(id));
+    if (added.length === 0) return;
+    applyChanges([{ ...album, mediaIds: [...album.mediaIds, ...added], coverMediaId: album.coverMediaId ?? added[0] }]);
+  };
+
+  const removeFromAlbum = (albumId: string, mediaIds: string[]) => {
+    const album = albums.find(a => a.id === albumId);
+    if (!album) return;
+    const remaining = album.mediaIds.filter(id => !mediaIds.includes(id));
+    const coverMediaId = album.coverMediaId && remaining.includes(album.coverMediaId) ? album.coverMediaId : remaining[0];
+    applyChanges([{ ...album, mediaIds: remaining, coverMediaId }]);
+  };
+
+  const sortedAlbums = useMemo(() => [...albums].sort((a, b) => a.order - b.order), [albums]);
+
+  return (
+    <AlbumContext.Provider value={{ albums: sortedAlbums, createAlbum, updateAlbum, deleteAlbum, mergeAlbums, moveAlbum, addToAlbum, removeFromAlbum }}>
+      {children}
+    </AlbumContext.Provider>
+  );
+};
+const useAlbums = () => {
+  const context = useContext(AlbumContext);
+  if (!context) throw new Error('useAlbums must be used within an AlbumProvider');
+  return context;
+};
+
+// Tagging Context
+type TaggingContextType = {
+  activeIds: Set<string>; // items being analyzed right now
+  requeue: (ids: string[]) => void;
+  aiProvider: AiProvider;
+  aiSettings: AiSettings;
+  setAiSettings: (settings: AiSettings) => void;
+};
+const TaggingContext = createContext<TaggingContextType | undefined>(undefined);
+
+const TAGGING_CONCURRENCY = 2;
+const TAGGING_MAX_ATTEMPTS = 4;
+const TAGGING_RETRY_DELAY_MS = 2000;
+
+// Analyzes items whose aiStatus is 'queued'. The status lives on the media records, so the
+// queue picks up where it left off after a reload.
+const TaggingProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const { media, isLoading, updateMedia } = useMedia();
+  const [activeIds, setActiveIds] = useState<Set<string>>(new Set());
+  const [storedSettings, setAiSettings] = useLocalStorage<Partial<AiSettings>>('aiSettings', DEFAULT_AI_SETTINGS);
+  // Settings saved by older versions may lack newer fields.
+  const aiSettings = useMemo(() => ({ ...DEFAULT_AI_SETTINGS, ...storedSettings }), [storedSettings]);
+  const provider = useMemo(() => createAiProvider(aiSettings), [aiSettings]);
+  const latest = useRef({ media, updateMedia, provider });
+  latest.current = { media, updateMedia, provider };
+  const queueRef = useRef<ReturnType<typeof createTaggingQueue> | null>(null);
+  const username = user?.username;
+
+  useEffect(() => {
+    if (!username) return;
+    const owner = username;
+    const queue = createTaggingQueue({
+      concurrency: TAGGING_CONCURRENCY,
+      maxAttempts: TAGGING_MAX_ATTEMPTS,
+      retryDelayMs: TAGGING_RETRY_DELAY_MS,
+      shouldRetry: error => !(error instanceof AiUnavailableError || error instanceof KeyframeExtractionError),
+      run: async (id) => {
+        const item = latest.current.media.find(candidate => candidate.id === id);
+        const blob = item && await storage.getMediaContent(owner, id);
+        // Deleted while waiting: nothing left to tag.
+        if (!item || !blob) return;
+        const { provider } = latest.current;
+        let updates: Partial<MediaFile>;
+        let aiTags: string[];
+        if (item.type === 'image') {
+          const { tags, analysis } = await provider.analyzeImage((await blobToDataUrl(blob)).split(',')[1], item.mimeType);
+          aiTags = tags;
+          updates = { analysis };
+        } else {
+          const { tags, analysis, poster, width, height } = await analyzeVideo(provider, blob);
+          // Videos uploaded before keyframe extraction get their poster on the way.
+          if (!item.hasPoster) await storage.putVariant(owner, id, 'poster', poster);
+          aiTags = tags;
+          updates = { analysis, hasPoster: true, width, height };
+        }
+
+        // Search falls back to plain text matching without an embedding, so failing here is not worth a retry.
+        const tagged = { ...item, ...updates, tags: replaceAiTags(item.tags, aiTags) };
+        try {
+          const [vector] = await provider.embed([embeddingText(tagged)], 'document');
+          updates.embedding = { model: provider.embeddingModel, vector };
+        } catch (error) {
+          console.warn(`Falha ao gerar o embedding de ${item.name}:`, error);
+        }
+        latest.current.updateMedia(id, current => ({ ...updates, tags: replaceAiTags(current.tags, aiTags), aiStatus: 'done' }), AI_AUTHOR);
+      },
+      onFailure: (id, error) => {
+        console.error(`Falha na marcação por IA de ${id}:`, error);
+        latest.current.updateMedia(id, { aiStatus: 'failed' });
+      },
+      onActiveChange: ids => setActiveIds(new Set(ids)),
+    });
+    queueRef.current = queue;
+    return () => {
+      queue.dispose();
+      queueRef.current = null;
+      setActiveIds(new Set());
+    };
+  }, [username]);
+
+  // New uploads and items left queued by a previous session; the queue ignores known ids.
+  useEffect(() => {
+    if (isLoading) return;
+    queueRef.current?.enqueue(media.filter(item => item.aiStatus === 'queued').map(item => item.id));
+  }, [media, isLoading]);
+
+  const requeue = (ids: string[]) => {
+    ids.forEach(id => updateMedia(id, { aiStatus: 'queued' }));
+  };
+
+  return (
+    <TaggingContext.Provider value={{ activeIds, requeue, aiProvider: provider, aiSettings, setAiSettings }}>
+      {children}
+    </TaggingContext.Provider>
+  );
+};
+
+const useTagging = () => {
+  const context = useContext(TaggingContext);
+  if (!context) throw new Error('useTagging must be used within a TaggingProvider');
+  return context;
+};
+
+const QUERY_EMBEDDING_DELAY_MS = 400;
+const EMBEDDING_BATCH_SIZE = 50;
+
+/**
+ * Embeds the search query once typing pauses, and on first use embeds the items that have no
+ * embedding from the current model. Yields null while that is pending or when the provider
+ * cannot embed, so callers fall back to substring matching.
+ */
+const useQueryEmbedding = (searchTerm: string) => {
+  const { aiProvider } = useTagging();
+  const { media, updateMedia } = useMedia();
+  const [query, setQuery] = useState<{ vector: number[], model: string } | null>(null);
+  const requested = useRef<Set<string>>(new Set());
+  const updateMediaRef = useRef(updateMedia);
+  updateMediaRef.current = updateMedia;
+
+  useEffect(() => {
+    setQuery(null);
+    const text = searchTerm.trim();
+    if (!text) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const [vector] = await aiProvider.embed([text], 'query');
+        if (!cancelled) setQuery({ vector, model: aiProvider.embeddingModel });
+      } catch (error) {
+        if (!(error instanceof AiUnavailableError)) console.error(error);
+      }
+    }, QUERY_EMBEDDING_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm, aiProvider]);
+
+  // Items tagged before semantic search existed, or under another model.
+  useEffect(() => {
+    if (!query) return;
+    const missing = media.filter(item => item.embedding?.model !== query.model && !requested.current.has(`${query.model}|${item.id}`));
+    if (missing.length === 0) return;
+    missing.forEach(item => requested.current.add(`${query.model}|${item.id}`));
+    (async () => {
+      for (let start = 0; start < missing.length; start += EMBEDDING_BATCH_SIZE) {
+        const batch = missing.slice(start, start + EMBEDDING_BATCH_SIZE);
+        try {
+          const vectors = await aiProvider.embed(batch.map(embeddingText), 'document');
+          batch.forEach((item, index) => updateMediaRef.current(item.id, { embedding: { model: query.model, vector: vectors[index] } }));
+        } catch (error) {
+          console.error('Falha ao gerar embeddings para a busca:', error);
+          return;
+        }
+      }
+    })();
+  }, [query, media, aiProvider]);
+
+  return query;
+};
+
 // UI COMPONENTS
 const Button = ({ children, onClick, className = '', variant = 'primary', type = 'button', disabled = false }: { children: React.ReactNode, onClick?: () => void, className?: string, variant?: 'primary' | 'secondary' | 'danger', type?: 'button' | 'submit', disabled?: boolean }) => {
   const baseClasses = 'px-4 py-2 rounded-lg font-semibold transition-all duration-200 flex items-center justify-center gap-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 dark:focus:ring-offset-dark-surface disabled:opacity-50 disabled:cursor-not-allowed';
@@ -354,129 +1157,460 @@ const Toast = ({ message, onDismiss }: { message: ToastMessage, onDismiss: () =>
   return (
     <div className={`${baseClasses} ${typeClasses[message.type]} ${exiting ? 'animate-toast-out' : 'animate-toast-in'}`} role="alert">
       <span className="flex-grow">{message.message}</span>
+      {message.action && (
+        <button onClick={() => { message.action!.onClick(); handleDismiss(); }} className="font-semibold underline whitespace-nowrap">{message.action.label}</button>
+      )}
       <button onClick={handleDismiss} className="text-lg leading-none">&times;</button>
     </div>
   );
 };
 
 // MEDIA COMPONENTS
-const UploadModal = ({ isOpen, onClose }: { isOpen: boolean, onClose: () => void }) => {
-  const [files, setFiles] = useState<File[]>([]);
-  const [previews, setPreviews] = useState<string[]>([]);
-  const [category, setCategory] = useState('');
-  const [isUploading, setIsUploading] = useState(false);
-  const [isDragging, setIsDragging] = useState(false);
-  const { addMedia } = useMedia();
-  const { addToast } = useToast();
+// What is finally stored; larger images are accepted when processing can bring them under it.
+const MAX_SOURCE_IMAGE_SIZE = 50 * 1024 * 1024;
 
-  const resetState = useCallback(() => {
-    setFiles([]);
-    setPreviews([]);
-    setCategory('');
-    setIsUploading(false);
-  }, []);
+type PreparedUpload = {
+  source: File;
+  file: File | null; // null while the file is still being processed and hashed
+  previewUrl: string | null;
+  dimensions?: { width: number, height: number };
+  contentHash?: string;
+  perceptualHash?: string; // of the image itself, or of the poster for videos
+  poster?: Blob; // absent for videos the browser cannot decode
+  duration?: number;
+  error?: string;
+};
 
-  useEffect(() => {
-    if (isOpen) {
-      resetState();
-    }
-  }, [isOpen, resetState]);
+type UploadDuplicates = DuplicateMatches & { inBatch: boolean };
 
-  const handleFileChange = (selectedFiles: FileList | null) => {
-    if (!selectedFiles) return;
-    const newFiles = Array.from(selectedFiles).filter(file => {
-      if (file.size > 5 * 1024 * 1024) {
-        addToast(`Arquivo ${file.name} é muito grande (máx 5MB).`, 'error');
-        return false;
-      }
-      return true;
-    });
-    setFiles(prev => [...prev, ...newFiles]);
+const DuplicateWarning = ({ uploads, duplicates, isSkipped, onToggle }: { uploads: PreparedUpload[], duplicates: (UploadDuplicates | null)[], isSkipped: (index: number) => boolean, onToggle: (index: number) => void }) => {
+  const rows = uploads.map((upload, index) => ({ upload, index, matches: duplicates[index] })).filter(row => row.matches);
+  if (rows.length === 0) return null;
+  const names = (items: MediaFile[]) => items.slice(0, 3).map(item => `"${item.name}"`).join(', ') + (items.length > 3 ? ` e mais ${items.length - 3}` : '');
+  return (
+    <div className="p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700 text-sm space-y-2">
+      <p className="font-semibold text-yellow-800 dark:text-yellow-200">Possíveis duplicatas</p>
+      <ul className="space-y-1 max-h-32 overflow-y-auto">
+        {rows.map(({ upload, index, matches }) => (
+          <li key={index} className="flex items-center gap-2">
+            <span className="flex-grow min-w-0 truncate text-gray-700 dark:text-dark-text-secondary" title={upload.source.name}>
+              <strong>{upload.source.name}</strong>{' '}
+              {matches!.exact.length > 0 ? `é idêntico a ${names(matches!.exact)}`
+                : matches!.inBatch ? 'está repetido neste envio'
+                : `parece com ${names(matches!.similar)}`}
+            </span>
+            <button onClick={() => onToggle(index)} className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold ${isSkipped(index) ? 'bg-gray-200 text-gray-700 dark:bg-dark-border dark:text-dark-text-secondary' : 'bg-brand-primary text-white'}`}>
+              {isSkipped(index) ? 'Ignorar' : 'Manter'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const ImageProcessingControls = ({ options, onChange }: { options: ImageProcessingOptions, onChange: (options: ImageProcessingOptions) => void }) => {
+  const update = (changes: Partial<ImageProcessingOptions>) => onChange({ ...options, ...changes });
+  const selectClass = 'p-1 rounded-md bg-gray-100 dark:bg-dark-surface border border-gray-300 dark:border-dark-border';
+  return (
+    <div className="text-sm space-y-2 p-3 rounded-md border border-gray-200 dark:border-dark-border">
+      <label className="flex items-center gap-2 font-medium">
+        <input type="checkbox" checked={options.enabled} onChange={e => update({ enabled: e.target.checked })} />
+        Otimizar imagens antes de enviar
+      </label>
+      {options.enabled && (
+        <div className="flex flex-wrap gap-x-4 gap-y-2 items-center text-gray-700 dark:text-dark-text-secondary">
+          <label className="flex items-center gap-1">
+            Dimensão máx.
+            <select value={options.maxDimension} onChange={e => update({ maxDimension: Number(e.target.value) })} className={selectClass}>
+              {[1280, 1920, 2560, 3840].map(size => <option key={size} value={size}>{size}px</option>)}
+              <option value={0}>Original</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            Formato
+            <select value={options.format} onChange={e => update({ format: e.target.value as ImageOutputFormat })} className={selectClass}>
+              <option value="image/webp">WebP</option>
+              <option value="image/avif">AVIF</option>
+              <option value="image/jpeg">JPEG</option>
+              <option value="original">Manter</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            Qualidade
+            <select value={options.quality} onChange={e => update({ quality: Number(e.target.value) })} className={selectClass}>
+              {[0.6, 0.75, 0.85, 0.95].map(quality => <option key={quality} value={quality}>{Math.round(quality * 100)}%</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1" title="Só é possível manter os metadados em imagens salvas como JPEG.">
+            <input type="checkbox" checked={options.keepExif} onChange={e => update({ keepExif: e.target.checked })} />
+            Manter EXIF
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+type UploadStatus = { state: 'uploading' | 'done' | 'failed'; error?: string };
+
+type UrlDownload = { url: string; error?: string }; // no error while it is downloading
+
+const UrlImportPanel = ({ onFetched }: { onFetched: (files: File[]) => void }) => {
+  const [text, setText] = useState('');
+  const [downloads, setDownloads] = useState<UrlDownload[]>([]);
+  const isFetching = downloads.some(download => !download.error);
+
+  const download = async (urls: string[]) => {
+    setDownloads(prev => [...prev.filter(item => !urls.includes(item.url)), ...urls.map(url => ({ url }))]);
+    for (const url of urls) {
+      try {
+        const file = await fetchMediaFile(url);
+        setDownloads(prev => prev.filter(item => item.url !== url));
+        onFetched([file]);
+      } catch (error) {
+        setDownloads(prev => prev.map(item => item.url === url ? { url, error: error instanceof Error ? error.message : String(error) } : item));
+      }
+    }
   };
-  
+
+  const handleFetch = () => {
+    const urls = parseUrlList(text);
+    if (urls.length === 0) return;
+    setText('');
+    download(urls);
+  };
+
+  return (
+    <div className="text-sm space-y-2 p-3 rounded-md border border-gray-200 dark:border-dark-border">
+      <label htmlFor="upload-urls" className="block font-medium">Endereços de imagens ou vídeos, um por linha</label>
+      <textarea id="upload-urls" rows={3} value={text} onChange={e => setText(e.target.value)} placeholder="https://exemplo.com/foto.jpg"
+        className="w-full p-2 rounded-md bg-gray-100 dark:bg-dark-surface border border-gray-300 dark:border-dark-border focus:ring-2 focus:ring-brand-primary outline-none font-mono text-xs" />
+      <div className="flex justify-end">
+        <Button variant="secondary" onClick={handleFetch} disabled={parseUrlList(text).length === 0}>Baixar</Button>
+      </div>
+      {downloads.length > 0 && (
+        <ul className="space-y-1 max-h-32 overflow-y-auto">
+          {downloads.map(({ url, error }) => (
+            <li key={url} className="flex items-center gap-2">
+              {error ? <span className="flex-shrink-0 text-red-500">✕</span> : <Spinner size="sm" />}
+              <span className="flex-grow min-w-0">
+                <span className="block truncate text-gray-700 dark:text-dark-text-secondary" title={url}>{url}</span>
+                {error && <span className="block text-xs text-red-500">{error}</span>}
+              </span>
+              {error && (
+                <>
+                  <button onClick={() => download([url])} disabled={isFetching} className="flex-shrink-0 text-xs font-semibold text-brand-primary hover:underline disabled:opacity-50">Tentar novamente</button>
+                  <button onClick={() => setDownloads(prev => prev.filter(item => item.url !== url))} className="flex-shrink-0 text-gray-400 hover:text-gray-700" aria-label="Remover">
+                    <CloseIcon className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const UploadModal = ({ isOpen, onClose }: { isOpen: boolean, onClose: () => void }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [uploads, setUploads] = useState<PreparedUpload[]>([]);
+  // Folder path of each file that came from a dropped or picked folder.
+  const [folders, setFolders] = useState<Map<File, string>>(new Map());
+  const [useFolderCategories, setUseFolderCategories] = useState(true);
+  const [showUrlImport, setShowUrlImport] = useState(false);
+  const [category, setCategory] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [processing, setProcessing] = useLocalStorage<ImageProcessingOptions>('imageProcessing', DEFAULT_IMAGE_PROCESSING);
+  // Files whose duplicate warning was answered; unanswered exact copies are skipped, look-alikes kept.
+  const [decisions, setDecisions] = useState<Map<File, 'skip' | 'keep'>>(new Map());
+  // Keyed by the file as added, so it survives the list being prepared again.
+  const [statuses, setStatuses] = useState<Map<File, UploadStatus>>(new Map());
+  // Bumped to stop a running upload after the file in progress.
+  const uploadRunRef = useRef(0);
+  const { media, addMedia, usage } = useMedia();
+  const { addToast } = useToast();
+  const remaining = usage.quota === null ? null : Math.max(0, usage.quota - usage.used);
+
+  const resetState = useCallback(() => {
+    uploadRunRef.current++;
+    setFiles([]);
+    setUploads([]);
+    setFolders(new Map());
+    setShowUrlImport(false);
+    setDecisions(new Map());
+    setStatuses(new Map());
+    setCategory('');
+    setIsUploading(false);
+  }, []);
+
   useEffect(() => {
-    let newPreviews: string[] = [];
-    let loadedCount = 0;
-    if(files.length === 0) {
-      setPreviews([]);
-      return;
+    if (isOpen) {
+      resetState();
     }
-    files.forEach(file => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        newPreviews.push(reader.result as string);
-        loadedCount++;
-        if (loadedCount === files.length) {
-          setPreviews(newPreviews);
-        }
-      };
-      reader.readAsDataURL(file);
+  }, [isOpen, resetState]);
+
+  const sizeLimit = (file: File) => processing.enabled && canProcessImage(file) ? MAX_SOURCE_IMAGE_SIZE : MAX_UPLOAD_SIZE;
+
+  const addFiles = (imported: ImportedFile[]) => {
+    const accepted = imported.filter(({ file }) => file.size <= sizeLimit(file));
+    const tooLarge = imported.filter(({ file }) => file.size > sizeLimit(file)).map(({ file }) => file);
+    if (tooLarge.length === 1) {
+      addToast(`Arquivo ${tooLarge[0].name} é muito grande (máx ${formatBytes(sizeLimit(tooLarge[0]), 0)}).`, 'error');
+    } else if (tooLarge.length > 1) {
+      addToast(`${tooLarge.length} arquivos excedem o tamanho máximo e foram ignorados.`, 'error');
+    }
+    if (accepted.length === 0) return;
+    setFolders(prev => {
+      const next = new Map(prev);
+      accepted.forEach(({ file, folder }) => folder && next.set(file, folder));
+      return next;
     });
-  }, [files]);
-  
-  const handleUpload = async () => {
-    if (files.length === 0) {
-      addToast('Por favor, selecione os arquivos para enviar.', 'info');
-      return;
+    setFiles(prev => [...prev, ...accepted.map(({ file }) => file)]);
+  };
+
+  const reportIgnored = (ignored: number) => {
+    if (ignored > 0) addToast(`${ignored} arquivo(s) das pastas não são imagens nem vídeos e foram ignorados.`, 'info');
+  };
+
+  const handleFileChange = (selectedFiles: FileList | null) => {
+    if (!selectedFiles) return;
+    addFiles(Array.from(selectedFiles).map(file => ({ file })));
+  };
+
+  const handleFolderChange = (selectedFiles: FileList | null) => {
+    if (!selectedFiles) return;
+    const { files: imported, ignored } = filesFromFolderInput(selectedFiles);
+    reportIgnored(ignored);
+    addFiles(imported);
+  };
+
+  // Images pasted anywhere in the modal; text still pastes into the fields as usual.
+  const addFilesRef = useRef(addFiles);
+  addFilesRef.current = addFiles;
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const pasted = filesFromPaste(event.clipboardData);
+      if (pasted.length === 0) return;
+      event.preventDefault();
+      addFilesRef.current(pasted.map(file => ({ file })));
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [isOpen]);
+
+  // Re-runs whenever the options change, so the preview always shows what will be stored.
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+    const previewUrl = (file: File) => {
+      if (!file.type.startsWith('image/')) return null;
+      const url = URL.createObjectURL(file);
+      urls.push(url);
+      return url;
+    };
+    const prepare = async (file: File): Promise<PreparedUpload> => {
+      let prepared: PreparedUpload = { source: file, file, previewUrl: null };
+      if (processing.enabled && canProcessImage(file)) {
+        try {
+          const result = await processImage(file, processing);
+          prepared = { ...prepared, file: result.file, dimensions: { width: result.width, height: result.height } };
+        } catch (error) {
+          // Formats the browser cannot decode (HEIC on most desktops) are stored as they are.
+          console.warn(`Não foi possível processar ${file.name}:`, error);
+          prepared.error = 'Não processada';
+        }
+      }
+      // Hashes of what will be stored, matching those of the items already in the library.
+      const stored = prepared.file!;
+      const contentHash = await sha256Hex(stored);
+      let hash: string | null = null;
+      if (stored.type.startsWith('image/')) {
+        hash = await perceptualHash(stored);
+      } else {
+        // The library hashes the poster of a video, so it is taken now to find similar videos.
+        try {
+          const keyframes = await extractKeyframes(stored, [0.1]);
+          prepared = { ...prepared, dimensions: { width: keyframes.width, height: keyframes.height }, poster: keyframes.frames[0], duration: keyframes.duration };
+          hash = await perceptualHash(keyframes.frames[0]);
+        } catch (error) {
+          console.warn(`Não foi possível extrair quadros de ${file.name}:`, error);
+        }
+      }
+      return { ...prepared, previewUrl: prepared.error ? null : previewUrl(stored), contentHash, perceptualHash: hash ?? undefined };
+    };
+    setUploads(files.map(file => ({ source: file, file: null, previewUrl: null })));
+    (async () => {
+      // One at a time: decoding several large photos at once can exhaust memory on phones.
+      for (const [index, file] of files.entries()) {
+        const prepared = await prepare(file);
+        if (cancelled) return;
+        setUploads(prev => prev.map((upload, i) => i === index ? prepared : upload));
+      }
+    })();
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [files, processing]);
+
+  const isProcessing = uploads.some(upload => !upload.file);
+
+  const duplicates = useMemo(() => uploads.map((upload, index): UploadDuplicates | null => {
+    // Files already sent would otherwise match their own new item.
+    if (!upload.contentHash || statuses.get(upload.source)?.state === 'done') return null;
+    const matches = findDuplicates(upload, media);
+    const inBatch = uploads.slice(0, index).some(other => other.contentHash === upload.contentHash);
+    return matches.exact.length > 0 || matches.similar.length > 0 || inBatch ? { ...matches, inBatch } : null;
+  }), [uploads, media, statuses]);
+
+  const isSkipped = (index: number) => {
+    const matches = duplicates[index];
+    const decision = decisions.get(uploads[index].source);
+    return decision ? decision === 'skip' : Boolean(matches && (matches.exact.length > 0 || matches.inBatch));
+  };
+
+  const toggleSkipped = (index: number) => {
+    const skip = !isSkipped(index);
+    setDecisions(prev => new Map(prev).set(uploads[index].source, skip ? 'skip' : 'keep'));
+  };
+
+  const toUpload = uploads.filter((_, index) => !isSkipped(index));
+  const pending = toUpload.filter(upload => statuses.get(upload.source)?.state !== 'done');
+  const doneCount = toUpload.length - pending.length;
+  const failedCount = pending.filter(upload => statuses.get(upload.source)?.state === 'failed').length;
+
+  const categoryFor = (upload: PreparedUpload) =>
+    (useFolderCategories && folders.get(upload.source)) || category || 'Sem Categoria';
+
+  const toNewMedia = async ({ source, file: prepared, dimensions: preparedDimensions, contentHash, perceptualHash: pictureHash, poster, duration }: PreparedUpload, itemCategory: string): Promise<NewMedia> => {
+    const file = prepared!;
+    const mediaType: 'image' | 'video' = file.type.startsWith('image') ? 'image' : 'video';
+
+    // AI tagging happens afterwards in the background (see TaggingProvider).
+    let aiStatus: MediaFile['aiStatus'] = 'queued';
+    let dimensions: { width?: number, height?: number } = preparedDimensions ?? {};
+    if(mediaType === 'image') {
+        if (!preparedDimensions) dimensions = await getImageDimensions(file);
+    } else if (!poster) {
+        // Formats the browser cannot decode are still uploaded, just without tags or poster.
+        aiStatus = 'failed';
     }
-    setIsUploading(true);
-    
-    try {
-      const mediaToUpload = await Promise.all(
-        files.map(async (file) => {
-          const dataUrl = await fileToBase64(file);
-          const base64Data = dataUrl.split(',')[1];
-          const mediaType: 'image' | 'video' = file.type.startsWith('image') ? 'image' : 'video';
-          
-          let tags: string[] = [];
-          if(mediaType === 'image') {
-              tags = await generateTagsForImage(base64Data, file.type);
-          }
+    // Read from the original: processing may have dropped the EXIF data.
+    const metadata = await (mediaType === 'image' ? extractImageMetadata(source) : extractVideoMetadata(file, duration))
+      .catch(error => {
+        console.warn(`Não foi possível ler os metadados de ${file.name}:`, error);
+        return undefined;
+      });
+    const thumbnailSource = mediaType === 'image' ? file : poster;
+    const thumbnail = thumbnailSource && await createThumbnail(thumbnailSource);
 
-          let dimensions = { width: undefined, height: undefined };
-          if(mediaType === 'image') {
-             dimensions = await getImageDimensions(dataUrl);
-          }
+    return {
+      name: file.name,
+      type: mediaType,
+      mimeType: file.type,
+      size: file.size,
+      blob: file,
+      category: itemCategory,
+      tags: [],
+      aiStatus,
+      ...dimensions,
+      metadata,
+      contentHash,
+      perceptualHash: pictureHash,
+      poster,
+      thumbnail: thumbnail ?? undefined,
+    };
+  };
 
-          return {
-            name: file.name,
-            type: mediaType,
-            mimeType: file.type,
-            size: file.size,
-            dataUrl: dataUrl,
-            category: category || 'Sem Categoria',
-            tags,
-            ...dimensions,
-          };
-        })
-      );
+  const setStatus = (file: File, status: UploadStatus) => setStatuses(prev => new Map(prev).set(file, status));
 
-      addMedia(mediaToUpload);
-      addToast(`${files.length} arquivo(s) enviado(s) com sucesso!`, 'success');
+  // Files go one at a time so each can fail on its own and the list shows how far along it is.
+  const handleUpload = async (targets: PreparedUpload[] = pending) => {
+    if (targets.length === 0) {
+      addToast('Por favor, selecione os arquivos para enviar.', 'info');
+      return;
+    }
+    const tooLarge = targets.filter(upload => upload.file!.size > MAX_UPLOAD_SIZE);
+    if (tooLarge.length > 0) {
+      addToast(`${tooLarge.map(upload => upload.source.name).join(', ')} continua(m) acima de ${formatBytes(MAX_UPLOAD_SIZE, 0)}. Reduza a dimensão ou a qualidade.`, 'error');
+      return;
+    }
+    // Checked up front so a large import does not stop halfway once the quota runs out.
+    const totalSize = targets.reduce((sum, upload) => sum + upload.file!.size, 0);
+    if (remaining !== null && totalSize > remaining) {
+      addToast(`Este envio tem ${formatBytes(totalSize, 1)}, mas restam ${formatBytes(remaining, 1)} na sua cota de ${formatBytes(usage.quota!, 0)}. Ignore alguns arquivos ou libere espaço antes de enviar.`, 'error');
+      return;
+    }
+    const run = ++uploadRunRef.current;
+    setIsUploading(true);
+    let uploaded = 0;
+    let failed = 0;
+    for (const [index, upload] of targets.entries()) {
+      if (uploadRunRef.current !== run) {
+        addToast(`Envio interrompido: ${uploaded} de ${targets.length} arquivo(s) enviado(s).`, 'info');
+        return;
+      }
+      setStatus(upload.source, { state: 'uploading' });
+      let newMedia: NewMedia;
+      try {
+        newMedia = await toNewMedia(upload, categoryFor(upload));
+      } catch (error) {
+        console.error(error);
+        setStatus(upload.source, { state: 'failed', error: 'Não foi possível preparar o arquivo.' });
+        failed++;
+        continue;
+      }
+      if (!(await addMedia([newMedia]))) {
+        // addMedia already reported why; storage problems rarely affect a single file, so the
+        // rest waits for a retry instead of failing one by one.
+        setStatus(upload.source, { state: 'failed', error: 'Falha ao salvar.' });
+        failed += targets.length - index;
+        break;
+      }
+      setStatus(upload.source, { state: 'done' });
+      uploaded++;
+    }
+    setIsUploading(false);
+    if (failed === 0 && uploaded === pending.length) {
+      addToast(`${doneCount + uploaded} arquivo(s) enviado(s) com sucesso!`, 'success');
       onClose();
-    } catch(e) {
-      addToast('Ocorreu um erro durante o envio.', 'error');
-      console.error(e);
-      setIsUploading(false);
+    } else if (failed > 0) {
+      addToast(`${uploaded} arquivo(s) enviado(s), ${failed} pendente(s). Tente novamente quando quiser.`, 'error');
     }
   };
 
+  const handleClose = () => {
+    uploadRunRef.current++;
+    onClose();
+  };
+
   const handleDragEvents = (e: React.DragEvent<HTMLDivElement>, isEntering: boolean) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(isEntering);
   };
   
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     handleDragEvents(e, false);
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      handleFileChange(e.dataTransfer.files);
-      e.dataTransfer.clearData();
+    try {
+      const { files: dropped, ignored } = await filesFromDrop(e.dataTransfer);
+      reportIgnored(ignored);
+      addFiles(dropped);
+    } catch (error) {
+      console.error(error);
+      addToast('Não foi possível ler os arquivos soltos.', 'error');
     }
   };
 
+  const hasFolders = files.some(file => folders.has(file));
+
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Enviar Mídia">
+    <Modal isOpen={isOpen} onClose={handleClose} title="Enviar Mídia">
         <div className="space-y-4">
             <div 
               onDragEnter={(e) => handleDragEvents(e, true)}
@@ -488,27 +1622,96 @@ const UploadModal = ({ isOpen, onClose }: { isOpen: boolean, onClose: () => void
               <input type="file" multiple onChange={(e) => handleFileChange(e.target.files)} className="hidden" id="file-upload" />
               <label htmlFor="file-upload" className="cursor-pointer flex flex-col items-center">
                   <UploadIcon className="w-12 h-12 text-gray-400 dark:text-gray-500" />
-                  <p className="mt-2 text-gray-600 dark:text-dark-text-secondary">Arraste e solte os arquivos aqui, ou clique para procurar</p>
-                  <p className="text-sm text-gray-500 dark:text-gray-400">Tamanho máximo do arquivo: 5MB</p>
+                  <p className="mt-2 text-gray-600 dark:text-dark-text-secondary">Arraste e solte arquivos ou pastas aqui, ou clique para procurar</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Tamanho máximo do arquivo: {formatBytes(MAX_UPLOAD_SIZE, 0)}{processing.enabled && ` (imagens de até ${formatBytes(MAX_SOURCE_IMAGE_SIZE, 0)} são aceitas se a otimização as reduzir)`}
+                  </p>
+                  {remaining !== null && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Espaço disponível na sua cota: {formatBytes(remaining, 1)}</p>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Também é possível colar imagens com Ctrl+V.</p>
               </label>
             </div>
 
-            {previews.length > 0 && (
-                <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2 max-h-48 overflow-y-auto p-2 bg-gray-100 dark:bg-dark-bg rounded-md">
-                    {previews.map((src, index) => (
-                        <img key={index} src={src} alt={`preview ${index}`} className="w-full h-20 object-cover rounded" />
-                    ))}
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                {/* webkitdirectory is not in React's input types */}
+                <input type="file" multiple {...{ webkitdirectory: '' }} onChange={(e) => { handleFolderChange(e.target.files); e.target.value = ''; }} className="hidden" id="folder-upload" />
+                <label htmlFor="folder-upload" className="flex items-center gap-1 cursor-pointer text-brand-primary hover:underline">
+                    <FolderIcon className="w-4 h-4" /> Escolher uma pasta
+                </label>
+                <button onClick={() => setShowUrlImport(show => !show)} className="text-brand-primary hover:underline">
+                    {showUrlImport ? 'Ocultar importação por endereço' : 'Importar de endereços (URLs)'}
+                </button>
+            </div>
+
+            {showUrlImport && <UrlImportPanel onFetched={fetched => addFiles(fetched.map(file => ({ file })))} />}
+
+            <ImageProcessingControls options={processing} onChange={setProcessing} />
+
+            {uploads.length > 0 && (
+                <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2 max-h-60 overflow-y-auto p-2 bg-gray-100 dark:bg-dark-bg rounded-md">
+                    {uploads.map((upload, index) => {
+                        const status = statuses.get(upload.source);
+                        const folder = useFolderCategories ? folders.get(upload.source) : undefined;
+                        return (
+                        <div key={index} className={`text-xs text-center ${isSkipped(index) ? 'opacity-40' : ''}`} title={isSkipped(index) ? 'Será ignorado' : folder ? `Categoria: ${folder}` : undefined}>
+                            <div className="relative w-full h-20 rounded overflow-hidden bg-gray-200 dark:bg-dark-border flex items-center justify-center">
+                                {upload.previewUrl
+                                    ? <img src={upload.previewUrl} alt={`preview ${index}`} className="w-full h-full object-cover" />
+                                    : upload.file ? <span className="px-1 truncate">{upload.source.name}</span> : <Spinner size="sm" />}
+                                {status && (
+                                    <div className={`absolute inset-0 flex items-center justify-center ${status.state === 'failed' ? 'bg-red-600/60' : 'bg-black/40'}`}>
+                                        {status.state === 'uploading' ? <Spinner size="sm" />
+                                            : status.state === 'done' ? <span className="text-2xl text-white">✓</span>
+                                            : <button onClick={() => handleUpload([upload])} disabled={isUploading} className="px-2 py-0.5 rounded-full bg-white text-red-700 font-semibold disabled:opacity-50" title={status.error}>Tentar novamente</button>}
+                                    </div>
+                                )}
+                            </div>
+                            <p className={`mt-1 truncate ${status?.state === 'failed' || (upload.file && upload.file.size > MAX_UPLOAD_SIZE) ? 'text-red-500' : 'text-gray-500 dark:text-dark-text-secondary'}`}>
+                                {status?.state === 'failed' ? status.error
+                                    : !upload.file ? 'Processando…'
+                                    : upload.file === upload.source ? `${formatBytes(upload.source.size, 1)}${upload.error ? ` · ${upload.error}` : ''}`
+                                    : `${formatBytes(upload.source.size, 1)} → ${formatBytes(upload.file.size, 1)}`}
+                            </p>
+                            {folder && <p className="truncate text-gray-400">{folder}</p>}
+                        </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {statuses.size > 0 && (
+                <div className="text-sm space-y-1">
+                    <div className="h-2 rounded-full bg-gray-200 dark:bg-dark-border overflow-hidden">
+                        <div className="h-full bg-brand-primary transition-all" style={{ width: `${toUpload.length ? (doneCount / toUpload.length) * 100 : 0}%` }} />
+                    </div>
+                    <p className="text-gray-600 dark:text-dark-text-secondary">
+                        {doneCount} de {toUpload.length} enviado(s){failedCount > 0 && <span className="text-red-500"> · {failedCount} com falha</span>}
+                    </p>
                 </div>
             )}
 
+            <DuplicateWarning uploads={uploads} duplicates={duplicates} isSkipped={isSkipped} onToggle={toggleSkipped} />
+
+            {hasFolders && (
+                <label className="flex items-center gap-2 text-sm font-medium">
+                    <input type="checkbox" checked={useFolderCategories} onChange={e => setUseFolderCategories(e.target.checked)} />
+                    Usar as pastas como categorias
+                </label>
+            )}
+
             <div>
-                <label htmlFor="category" className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-1">Categoria (opcional)</label>
+                <label htmlFor="category" className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-1">
+                    Categoria (opcional){hasFolders && useFolderCategories && ' — para os arquivos fora de pastas'}
+                </label>
                 <Input type="text" placeholder="ex: Natureza, Projetos..." value={category} onChange={(e) => setCategory(e.target.value)} />
             </div>
 
             <div className="flex justify-end pt-4">
-                <Button onClick={handleUpload} disabled={isUploading || files.length === 0} className="w-40">
-                  {isUploading ? <Spinner size="sm" /> : `Enviar ${files.length} Arquivo(s)`}
+                <Button onClick={() => handleUpload()} disabled={isUploading || isProcessing || pending.length === 0} className="min-w-[10rem]">
+                  {isUploading ? <><Spinner size="sm" /> Enviando…</>
+                    : statuses.size > 0 ? `Tentar novamente (${pending.length})`
+                    : `Enviar ${toUpload.length} Arquivo(s)`}
                 </Button>
             </div>
         </div>
@@ -517,20 +1720,82 @@ const UploadModal = ({ isOpen, onClose }: { isOpen: boolean, onClose: () => void
 };
 
 
-const MediaItem = ({ item, viewMode, onSelect }: { item: MediaFile; viewMode: ViewMode; onSelect: (item: MediaFile) => void; }) => {
-  const content = item.type === 'image' 
-    ? <img src={item.dataUrl} alt={item.name} className="w-full h-full object-cover" loading="lazy" />
-    : <video src={item.dataUrl} className="w-full h-full object-cover" />;
+// The grid never loads originals of videos; images without a thumbnail yet fall back to theirs.
+const thumbnailVariant = (item: MediaFile): MediaVariant | null => {
+  if (item.hasThumbnail) return 'thumbnail';
+  if (item.type === 'video') return item.hasPoster ? 'poster' : null;
+  return 'content';
+};
+
+const MediaThumbnail = ({ item }: { item: MediaFile }) => {
+  const variant = thumbnailVariant(item);
+  const url = useMediaUrl(item.id, variant, item.contentHash);
+  if (!variant) {
+    return <div className="w-full h-full flex items-center justify-center text-3xl text-gray-400 dark:text-gray-500" title={item.name}>&#9654;</div>;
+  }
+  if (!url) return null;
+  return <img src={url} alt={altTextFor(item)} className="w-full h-full object-cover" loading="lazy" decoding="async" />;
+};
+
+const TaggingStatusBadge = ({ item, className = '' }: { item: MediaFile, className?: string }) => {
+  const { activeIds, requeue } = useTagging();
+  const base = `px-2 py-0.5 text-xs font-semibold rounded-full ${className}`;
+  if (activeIds.has(item.id)) {
+    return <span className={`${base} bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 animate-pulse`}>Marcando…</span>;
+  }
+  if (item.aiStatus === 'queued') {
+    return <span className={`${base} bg-gray-200 text-gray-700 dark:bg-dark-border dark:text-dark-text-secondary`}>Na fila da IA</span>;
+  }
+  if (item.aiStatus === 'failed') {
+    return (
+      <button
+        onClick={(e) => { e.stopPropagation(); requeue([item.id]); }}
+        className={`${base} bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 hover:underline`}
+        title="Colocar de novo na fila de marcação por IA"
+      >
+        Falha na IA &middot; tentar de novo
+      </button>
+    );
+  }
+  return null;
+};
+
+type MediaItemSelection = {
+  isSelected: boolean;
+  isSelecting: boolean; // once anything is selected, plain clicks toggle selection instead of opening
+  onToggle: (item: MediaFile, shiftKey: boolean) => void;
+};
+
+const SelectionCheckbox = ({ item, selection, className = '' }: { item: MediaFile, selection: MediaItemSelection, className?: string }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); selection.onToggle(item, e.shiftKey); }}
+    aria-pressed={selection.isSelected}
+    title="Selecionar"
+    className={`w-6 h-6 rounded border-2 flex items-center justify-center transition-opacity ${selection.isSelected ? 'bg-brand-primary border-brand-primary text-white' : 'bg-white/80 border-gray-400'} ${className}`}
+  >
+    {selection.isSelected && <span className="text-xs leading-none">&#10003;</span>}
+  </button>
+);
+
+const MediaItem = ({ item, viewMode, onSelect, selection }: { item: MediaFile; viewMode: ViewMode; onSelect: (item: MediaFile) => void; selection?: MediaItemSelection }) => {
+  const content = <MediaThumbnail item={item} />;
+  const handleClick = (e: React.MouseEvent) => {
+    if (selection && (selection.isSelecting || e.shiftKey)) selection.onToggle(item, e.shiftKey);
+    else onSelect(item);
+  };
+  const selectedRing = selection?.isSelected ? 'ring-4 ring-brand-primary' : '';
     
   if (viewMode === ViewMode.LIST) {
     return (
-      <div onClick={() => onSelect(item)} className="flex items-center p-2 space-x-4 bg-white dark:bg-dark-surface rounded-lg shadow-sm hover:shadow-md cursor-pointer transition-all duration-200">
+      <div onClick={handleClick} className={`flex items-center p-2 space-x-4 bg-white dark:bg-dark-surface rounded-lg shadow-sm hover:shadow-md cursor-pointer transition-all duration-200 ${selectedRing}`}>
+        {selection && <SelectionCheckbox item={item} selection={selection} className="flex-shrink-0" />}
         <div className="w-16 h-16 flex-shrink-0 rounded-md overflow-hidden bg-gray-200 dark:bg-dark-bg">
           {content}
         </div>
         <div className="flex-grow overflow-hidden">
           <p className="text-sm font-semibold text-gray-800 dark:text-dark-text-primary truncate">{item.name}</p>
           <p className="text-xs text-gray-500 dark:text-dark-text-secondary">{item.category}</p>
+          <TaggingStatusBadge item={item} className="inline-block mt-1" />
         </div>
         <div className="text-xs text-gray-500 dark:text-dark-text-secondary text-right flex-shrink-0">
           <p>{formatBytes(item.size)}</p>
@@ -543,8 +1808,12 @@ const MediaItem = ({ item, viewMode, onSelect }: { item: MediaFile; viewMode: Vi
   }
   
   return (
-    <div onClick={() => onSelect(item)} className="group relative aspect-w-1 aspect-h-1 bg-white dark:bg-dark-surface rounded-lg overflow-hidden shadow-sm hover:shadow-xl cursor-pointer transition-all duration-300 transform hover:-translate-y-1">
+    <div onClick={handleClick} className={`group relative aspect-square bg-white dark:bg-dark-surface rounded-lg overflow-hidden shadow-sm hover:shadow-xl cursor-pointer transition-all duration-300 transform hover:-translate-y-1 ${selectedRing}`}>
       {content}
+      {selection && (
+        <SelectionCheckbox item={item} selection={selection} className={`absolute top-2 left-2 z-10 ${selection.isSelecting ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`} />
+      )}
+      <TaggingStatusBadge item={item} className="absolute top-2 right-2 z-10" />
       <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 transition-all duration-300 flex flex-col justify-end p-3 text-white">
         <p className="text-sm font-bold truncate opacity-0 group-hover:opacity-100 transition-opacity duration-300 transform translate-y-4 group-hover:translate-y-0">{item.name}</p>
       </div>
@@ -552,25 +1821,233 @@ const MediaItem = ({ item, viewMode, onSelect }: { item: MediaFile; viewMode: Vi
   );
 };
 
+// Same breakpoints as Tailwind's sm, md, lg and xl.
+const gridColumnsFor = (viewportWidth: number) =>
+  viewportWidth >= 1280 ? 6 : viewportWidth >= 1024 ? 5 : viewportWidth >= 768 ? 4 : viewportWidth >= 640 ? 3 : 2;
+const GRID_GAP = 16;
+const LIST_ROW_HEIGHT = 80;
+const LIST_GAP = 8;
+const OVERSCAN_ROWS = 3;
+
+/**
+ * Renders only the rows of a grid or list that are near the viewport, inside a container as
+ * tall as all of them would be, so the page scrolls as if every item were there.
+ */
+const VirtualizedMediaView = ({ items, viewMode, renderItem }: { items: MediaFile[], viewMode: ViewMode, renderItem: (item: MediaFile) => React.ReactNode }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isGrid = viewMode === ViewMode.GRID;
+  const [metrics, setMetrics] = useState({ width: 0, columns: 1, firstRow: 0, lastRow: 0 });
+
+  useLayoutEffect(() => {
+    const measure = () => {
+      const container = containerRef.current;
+      if (!container) return;
+      const { top, width } = container.getBoundingClientRect();
+      const columns = isGrid ? gridColumnsFor(window.innerWidth) : 1;
+      const rowHeight = isGrid ? (width - GRID_GAP * (columns - 1)) / columns + GRID_GAP : LIST_ROW_HEIGHT + LIST_GAP;
+      const firstRow = Math.max(0, Math.floor(-top / rowHeight) - OVERSCAN_ROWS);
+      const lastRow = Math.max(firstRow, Math.ceil((window.innerHeight - top) / rowHeight) + OVERSCAN_ROWS);
+      setMetrics(prev => prev.width === width && prev.columns === columns && prev.firstRow === firstRow && prev.lastRow === lastRow
+        ? prev
+        : { width, columns, firstRow, lastRow });
+    };
+    measure();
+    // The container also resizes when items are filtered, which can move it relative to the viewport.
+    const observer = new ResizeObserver(measure);
+    if (containerRef.current) observer.observe(containerRef.current);
+    window.addEventListener('scroll', measure, { passive: true });
+    window.addEventListener('resize', measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('scroll', measure);
+      window.removeEventListener('resize', measure);
+    };
+  }, [isGrid]);
+
+  const { width, columns, firstRow, lastRow } = metrics;
+  const gap = isGrid ? GRID_GAP : LIST_GAP;
+  const itemHeight = isGrid ? Math.max(0, (width - gap * (columns - 1)) / columns) : LIST_ROW_HEIGHT;
+  const rowCount = Math.ceil(items.length / columns);
+
+  return (
+    <div ref={containerRef} style={{ height: Math.max(0, rowCount * (itemHeight + gap) - gap) }}>
+      <div
+        style={{
+          transform: `translateY(${firstRow * (itemHeight + gap)}px)`,
+          display: 'grid',
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          gridAutoRows: `${itemHeight}px`,
+          gap,
+        }}
+      >
+        {items.slice(firstRow * columns, (lastRow + 1) * columns).map(item => (
+          <React.Fragment key={item.id}>{renderItem(item)}</React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const BatchActionBar = ({ selectedItems, totalFiltered, onSelectAll, onClear }: { selectedItems: MediaFile[], totalFiltered: number, onSelectAll: () => void, onClear: () => void }) => {
+    const { user } = useAuth();
+    const { updateMediaBatch, trashMedia, recordDownloads } = useMedia();
+    const { requeue } = useTagging();
+    const { addToast } = useToast();
+    const [category, setCategory] = useState('');
+    const [tag, setTag] = useState('');
+    const [busyAction, setBusyAction] = useState<'zip' | null>(null);
+    const ids = selectedItems.map(item => item.id);
+    const owner = user?.username ?? '';
+
+    const handleMoveToCategory = () => {
+        const target = category.trim() || 'Sem Categoria';
+        updateMediaBatch(ids, item => item.category === target ? null : { category: target }, 'Mudança de categoria');
+        setCategory('');
+    };
+
+    const handleAddTag = () => {
+        const newTag = tag.trim();
+        if (!newTag) return;
+        updateMediaBatch(ids, item => hasTag(item.tags, newTag) ? null : { tags: addTag(item.tags, newTag) }, 'Adição de tag');
+        setTag('');
+    };
+
+    const handleRemoveTag = () => {
+        const oldTag = tag.trim();
+        if (!oldTag) return;
+        updateMediaBatch(ids, item => hasTag(item.tags, oldTag) ? { tags: removeTag(item.tags, oldTag) } : null, 'Remoção de tag');
+        setTag('');
+    };
+
+    const handleDownloadZip = async () => {
+        setBusyAction('zip');
+        try {
+            const blobs = await Promise.all(selectedItems.map(item => storage.getMediaContent(owner, item.id)));
+            const names = uniqueEntryNames(selectedItems.map(item => item.name));
+            const entries = selectedItems.flatMap((item, index) => {
+                const blob = blobs[index];
+                return blob ? [{ name: names[index], data: blob, lastModified: new Date(item.uploadDate) }] : [];
+            });
+            downloadBlob(await createZip(entries), `guardmidia_${new Date().toISOString().split('T')[0]}.zip`);
+            recordDownloads(selectedItems.filter((_, index) => blobs[index]).map(item => item.id));
+        } catch (error) {
+            console.error(error);
+            addToast('Falha ao gerar o arquivo ZIP.', 'error');
+        } finally {
+            setBusyAction(null);
+        }
+    };
+
+    const handleRetag = () => {
+        requeue(ids);
+        addToast(`${ids.length} item(ns) na fila de marcação por IA.`, 'info');
+    };
+
+    const handleDelete = () => {
+        trashMedia(ids);
+        onClear();
+    };
+
+    const smallInput = 'p-1.5 text-sm rounded-md bg-gray-100 dark:bg-dark-bg border border-gray-300 dark:border-dark-border outline-none focus:ring-2 focus:ring-brand-primary w-36';
+
+    return (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-30 w-[95%] max-w-5xl bg-white dark:bg-dark-surface rounded-xl shadow-2xl border border-gray-200 dark:border-dark-border p-3 flex flex-wrap items-center gap-3 animate-fade-in">
+            <span className="font-semibold text-sm">{selectedItems.length} selecionado(s)</span>
+            {selectedItems.length < totalFiltered && (
+                <button onClick={onSelectAll} className="text-sm text-brand-primary hover:underline">Selecionar todos ({totalFiltered})</button>
+            )}
+            <button onClick={onClear} className="text-sm text-gray-500 dark:text-dark-text-secondary hover:underline">Limpar</button>
+            <div className="flex items-center gap-1">
+                <input value={category} onChange={(e) => setCategory(e.target.value)} placeholder="Categoria" className={smallInput} />
+                <Button onClick={handleMoveToCategory} variant="secondary" className="!px-2 !py-1 text-sm"><FolderIcon className="w-4 h-4" /> Mover</Button>
+            </div>
+            <div className="flex items-center gap-1">
+                <input value={tag} onChange={(e) => setTag(e.target.value)} placeholder="Tag" className={smallInput} />
+                <Button onClick={handleAddTag} variant="secondary" disabled={!tag.trim()} className="!px-2 !py-1 text-sm">+ Tag</Button>
+                <Button onClick={handleRemoveTag} variant="secondary" disabled={!tag.trim()} className="!px-2 !py-1 text-sm">&minus; Tag</Button>
+            </div>
+            <div className="flex items-center gap-1 ml-auto">
+                <Button onClick={handleDownloadZip} variant="secondary" disabled={busyAction !== null} className="!px-2 !py-1 text-sm">
+                    {busyAction === 'zip' ? <Spinner size="sm" /> : <><DownloadIcon className="w-4 h-4" /> ZIP</>}
+                </Button>
+                <Button onClick={handleRetag} variant="secondary" disabled={busyAction !== null} className="!px-2 !py-1 text-sm">
+                    <TagIcon className="w-4 h-4" /> IA
+                </Button>
+                <Button onClick={handleDelete} variant="danger" disabled={busyAction !== null} className="!px-2 !py-1 text-sm">
+                    Mover para a lixeira
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+type SavedSearch = { id: string; name: string; query: string };
+
 const MediaGrid = () => {
-  const { media } = useMedia();
+  const { user } = useAuth();
+  const { media, isLoading } = useMedia();
   const [filteredMedia, setFilteredMedia] = useState<MediaFile[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [activeCategory, setActiveCategory] = useState('Todos');
   const [viewMode, setViewMode] = useLocalStorage<ViewMode>(`viewMode`, ViewMode.GRID);
-  const [selectedItem, setSelectedItem] = useState<MediaFile | null>(null);
+  const owner = user?.username ?? '';
+  const [sortOrder, setSortOrder] = useLocalStorage<SortOrder>(`sortOrder_${owner}`, { field: 'relevance', direction: 'desc' });
+  const [savedSearches, setSavedSearches] = useLocalStorage<SavedSearch[]>(`savedSearches_${owner}`, []);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Looked up by id so the detail modal reflects edits made while it is open.
+  const selectedItem = media.find(item => item.id === selectedId) ?? null;
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const lastToggledId = useRef<string | null>(null);
+
+  const query = useMemo(() => parseQuery(searchTerm), [searchTerm]);
+  // Only the free text is embedded; `tag:`, `size:` and friends are exact filters.
+  const queryEmbedding = useQueryEmbedding(query.text);
+
+  useEffect(() => {
+    const lowerCaseSearch = query.text.toLowerCase();
+    const matching = media.filter(item =>
+      (activeCategory === 'Todos' || item.category === activeCategory) && query.filters.every(filter => filter(item)));
+    const found = queryEmbedding
+      ? rankBySimilarity(matching, query.text, queryEmbedding.vector, queryEmbedding.model)
+      : matching.filter(item => mediaMatchesText(item, lowerCaseSearch));
+    setFilteredMedia(sortMedia(found, sortOrder));
+  }, [media, query, activeCategory, queryEmbedding, sortOrder]);
+
+  const saveSearch = () => {
+    const name = window.prompt('Nome da busca salva:', searchTerm.trim())?.trim();
+    if (!name) return;
+    setSavedSearches(prev => [...prev.filter(saved => saved.name !== name), { id: `${Date.now()}-${Math.random()}`, name, query: searchTerm.trim() }]);
+  };
 
+  // Drop selections that no longer exist (deleted, or hidden by a new filter).
   useEffect(() => {
-    const lowerCaseSearch = searchTerm.toLowerCase();
-    const result = media.filter(item => {
-      const inCategory = activeCategory === 'Todos' || item.category === activeCategory;
-      const matchesSearch = item.name.toLowerCase().includes(lowerCaseSearch) ||
-                            item.category.toLowerCase().includes(lowerCaseSearch) ||
-                            item.tags.some(tag => tag.toLowerCase().includes(lowerCaseSearch));
-      return inCategory && matchesSearch;
+    setSelectedIds(prev => {
+      const visible = new Set(filteredMedia.map(item => item.id));
+      const next = new Set(Array.from(prev).filter(id => visible.has(id)));
+      return next.size === prev.size ? prev : next;
     });
-    setFilteredMedia(result);
-  }, [media, searchTerm, activeCategory]);
+  }, [filteredMedia]);
+
+  const toggleSelection = (item: MediaFile, shiftKey: boolean) => {
+    const anchorIndex = filteredMedia.findIndex(m => m.id === lastToggledId.current);
+    const index = filteredMedia.findIndex(m => m.id === item.id);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (shiftKey && anchorIndex >= 0) {
+        // Shift-click selects the whole range from the previously clicked item.
+        const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        filteredMedia.slice(start, end + 1).forEach(m => next.add(m.id));
+      } else if (next.has(item.id)) {
+        next.delete(item.id);
+      } else {
+        next.add(item.id);
+      }
+      return next;
+    });
+    lastToggledId.current = item.id;
+  };
+
+  const selectedItems = filteredMedia.filter(item => selectedIds.has(item.id));
 
   return (
     <div className="p-4 sm:p-6 lg:p-8">
@@ -581,29 +2058,60 @@ const MediaGrid = () => {
         setActiveCategory={setActiveCategory}
         viewMode={viewMode}
         setViewMode={setViewMode}
+        sortOrder={sortOrder}
+        setSortOrder={setSortOrder}
+        savedSearches={savedSearches}
+        onSaveSearch={saveSearch}
+        onDeleteSavedSearch={(id) => setSavedSearches(prev => prev.filter(saved => saved.id !== id))}
       />
-      {filteredMedia.length === 0 ? (
+      {isLoading ? (
+        <div className="flex justify-center py-20">
+          <Spinner size="lg" />
+        </div>
+      ) : filteredMedia.length === 0 ? (
         <div className="text-center py-20">
           <p className="text-gray-500 dark:text-dark-text-secondary">Nenhuma mídia encontrada. Tente enviar algo!</p>
         </div>
       ) : (
-        <div className={viewMode === ViewMode.GRID 
-          ? "grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4"
-          : "space-y-2"}>
-          {filteredMedia.map(item => (
-            <MediaItem key={item.id} item={item} viewMode={viewMode} onSelect={setSelectedItem} />
-          ))}
-        </div>
+        <VirtualizedMediaView
+          items={filteredMedia}
+          viewMode={viewMode}
+          renderItem={item => (
+            <MediaItem
+              item={item}
+              viewMode={viewMode}
+              onSelect={(selected) => setSelectedId(selected.id)}
+              selection={{ isSelected: selectedIds.has(item.id), isSelecting: selectedIds.size > 0, onToggle: toggleSelection }}
+            />
+          )}
+        />
+      )}
+      {selectedItems.length > 0 && (
+        <BatchActionBar
+          selectedItems={selectedItems}
+          totalFiltered={filteredMedia.length}
+          onSelectAll={() => setSelectedIds(new Set(filteredMedia.map(item => item.id)))}
+          onClear={() => setSelectedIds(new Set())}
+        />
       )}
       {selectedItem && (
-        <MediaDetailModal item={selectedItem} onClose={() => setSelectedItem(null)} />
+        <MediaDetailModal item={selectedItem} onClose={() => setSelectedId(null)} />
       )}
     </div>
   );
 };
 
 
-const MediaControls = ({ searchTerm, setSearchTerm, activeCategory, setActiveCategory, viewMode, setViewMode }: { searchTerm: string, setSearchTerm: (s: string) => void, activeCategory: string, setActiveCategory: (c: string) => void, viewMode: ViewMode, setViewMode: (v: ViewMode) => void }) => {
+const SORT_LABELS: Record<SortField, string> = {
+    relevance: 'Relevância',
+    date: 'Data de envio',
+    name: 'Nome',
+    size: 'Tamanho',
+    views: 'Visualizações',
+    dimensions: 'Dimensões',
+};
+
+const MediaControls = ({ searchTerm, setSearchTerm, activeCategory, setActiveCategory, viewMode, setViewMode, sortOrder, setSortOrder, savedSearches, onSaveSearch, onDeleteSavedSearch }: { searchTerm: string, setSearchTerm: (s: string) => void, activeCategory: string, setActiveCategory: (c: string) => void, viewMode: ViewMode, setViewMode: (v: ViewMode) => void, sortOrder: SortOrder, setSortOrder: (s: SortOrder) => void, savedSearches: SavedSearch[], onSaveSearch: () => void, onDeleteSavedSearch: (id: string) => void }) => {
     const { categories } = useMedia();
     const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -620,12 +2128,35 @@ const MediaControls = ({ searchTerm, setSearchTerm, activeCategory, setActiveCat
                     <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
                     <input
                         type="text"
-                        placeholder="Buscar por nome, categoria ou tag de IA..."
+                        placeholder="Buscar por nome, tag ou descrição (ex: cachorro na praia)..."
+                        title="Filtros: tag:praia type:video size:>2mb date:2026-01..2026-06 views:>10 -tag:rascunho"
                         value={searchTerm}
                         onChange={(e) => setSearchTerm(e.target.value)}
                         className="w-full pl-10 p-2 rounded-lg bg-white dark:bg-dark-surface border border-gray-300 dark:border-dark-border focus:ring-2 focus:ring-brand-primary outline-none transition-all"
                     />
                 </div>
+                {searchTerm.trim() && (
+                    <button onClick={onSaveSearch} className="text-sm whitespace-nowrap text-brand-primary hover:underline">Salvar busca</button>
+                )}
+                <div className="flex items-center gap-1">
+                    <select
+                        value={sortOrder.field}
+                        onChange={(e) => setSortOrder({ ...sortOrder, field: e.target.value as SortField })}
+                        aria-label="Ordenar por"
+                        className="p-2 rounded-lg bg-white dark:bg-dark-surface border border-gray-300 dark:border-dark-border text-sm"
+                    >
+                        {(Object.keys(SORT_LABELS) as SortField[]).map(field => (
+                            <option key={field} value={field}>{SORT_LABELS[field]}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => setSortOrder({ ...sortOrder, direction: sortOrder.direction === 'asc' ? 'desc' : 'asc' })}
+                        title={sortOrder.direction === 'asc' ? 'Crescente' : 'Decrescente'}
+                        className="p-2 rounded-lg bg-white dark:bg-dark-surface border border-gray-300 dark:border-dark-border text-sm"
+                    >
+                        {sortOrder.direction === 'asc' ? '↑' : '↓'}
+                    </button>
+                </div>
                 <div className="flex items-center gap-2 bg-white dark:bg-dark-surface p-1 rounded-lg border border-gray-300 dark:border-dark-border">
                     <button onClick={() => setViewMode(ViewMode.GRID)} className={`p-1.5 rounded-md ${viewMode === ViewMode.GRID ? 'bg-brand-primary text-white' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-border'}`}>
                         <ListIcon className="w-5 h-5" />
@@ -646,6 +2177,15 @@ const MediaControls = ({ searchTerm, setSearchTerm, activeCategory, setActiveCat
                             {cat}
                         </button>
                     ))}
+                    {savedSearches.map(saved => (
+                        <span
+                            key={saved.id}
+                            className={`flex items-center gap-1 pl-4 pr-2 py-1.5 text-sm font-medium rounded-full whitespace-nowrap border border-dashed border-brand-primary ${searchTerm.trim() === saved.query ? 'bg-brand-primary text-white' : 'bg-white dark:bg-dark-surface text-gray-700 dark:text-dark-text-secondary'}`}
+                        >
+                            <button onClick={() => setSearchTerm(saved.query)} title={saved.query}>{saved.name}</button>
+                            <button onClick={() => onDeleteSavedSearch(saved.id)} aria-label={`Remover busca salva ${saved.name}`} className="opacity-60 hover:opacity-100">×</button>
+                        </span>
+                    ))}
                 </div>
             </div>
         </div>
@@ -653,116 +2193,1824 @@ const MediaControls = ({ searchTerm, setSearchTerm, activeCategory, setActiveCat
 };
 
 
-const MediaDetailModal = ({ item, onClose }: { item: MediaFile, onClose: () => void }) => {
-    const { incrementView, deleteMedia } = useMedia();
+const shareLinkStatus = (link: ShareLink): string | null => {
+    if (link.revoked) return 'Revogado';
+    if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) return 'Expirado';
+    if (link.maxViews !== undefined && link.views >= link.maxViews) return 'Esgotado';
+    return null;
+};
+
+const ShareLinkManager = ({ item, onCopy }: { item: MediaFile, onCopy: (text: string, label: string) => void }) => {
+    const { user } = useAuth();
     const { addToast } = useToast();
-    const hasBeenViewed = useRef(false);
+    const [links, setLinks] = useState<ShareLink[]>([]);
+    const [expiresAt, setExpiresAt] = useState('');
+    const [maxViews, setMaxViews] = useState('');
+    const [password, setPassword] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+    const owner = user?.username ?? '';
 
     useEffect(() => {
-        if (!hasBeenViewed.current) {
-            incrementView(item.id);
-            hasBeenViewed.current = true;
-        }
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [item.id]);
+        let cancelled = false;
+        storage.listShareLinks(owner, item.id)
+            .then(result => { if (!cancelled) setLinks(result); })
+            .catch(error => console.error(error));
+        return () => { cancelled = true; };
+    }, [owner, item.id]);
 
-    const copyToClipboard = (text: string, label: string) => {
-        navigator.clipboard.writeText(text).then(() => {
-            addToast(`Link ${label} copiado!`, 'success');
-        }, () => {
-            addToast(`Falha ao copiar o link ${label}.`, 'error');
-        });
-    };
-    
-    const links = {
-        Direto: item.dataUrl,
-        HTML: `<img src="${item.dataUrl}" alt="${item.name}" />`,
-        BBCode: `[img]${item.dataUrl}[/img]`,
-        Markdown: `![${item.name}](${item.dataUrl})`,
+    const handleCreate = async () => {
+        setIsCreating(true);
+        try {
+            const link = await storage.createShareLink(owner, item.id, {
+                expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+                maxViews: maxViews ? Number(maxViews) : undefined,
+                password: password || undefined,
+            });
+            setLinks(prev => [link, ...prev]);
+            setExpiresAt('');
+            setMaxViews('');
+            setPassword('');
+            onCopy(link.url, 'temporário');
+        } catch (error) {
+            console.error(error);
+            addToast(error instanceof Error ? error.message : 'Falha ao criar o link.', 'error');
+        } finally {
+            setIsCreating(false);
+        }
     };
 
-    const handleDelete = () => {
-        if(window.confirm(`Tem certeza que deseja deletar "${item.name}"? Esta ação não pode ser desfeita.`)) {
-            deleteMedia(item.id);
-            addToast(`"${item.name}" foi deletado.`, 'info');
-            onClose();
+    const handleRevoke = async (token: string) => {
+        try {
+            await storage.revokeShareLink(owner, token);
+            setLinks(prev => prev.map(link => link.token === token ? { ...link, revoked: true } : link));
+            addToast('Link revogado.', 'info');
+        } catch (error) {
+            console.error(error);
+            addToast('Falha ao revogar o link.', 'error');
         }
-    }
+    };
 
     return (
-        <div className="fixed inset-0 bg-black bg-opacity-80 z-50 flex justify-center items-center animate-fade-in" onClick={onClose}>
-            <div className="bg-white dark:bg-dark-surface rounded-xl shadow-2xl w-full max-w-6xl h-full max-h-[95vh] m-4 flex flex-col lg:flex-row overflow-hidden" onClick={(e) => e.stopPropagation()}>
-                <div className="w-full lg:w-3/4 bg-black flex justify-center items-center p-4">
-                    {item.type === 'image' 
-                        ? <img src={item.dataUrl} alt={item.name} className="max-w-full max-h-full object-contain" />
-                        : <video src={item.dataUrl} controls className="max-w-full max-h-full object-contain" />
-                    }
+        <div>
+            <h4 className="font-semibold mb-2">Links Temporários</h4>
+            <div className="space-y-2 text-sm">
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="text-xs text-gray-600 dark:text-dark-text-secondary">Expira em
+                        <Input type="datetime-local" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} className="text-xs" />
+                    </label>
+                    <label className="text-xs text-gray-600 dark:text-dark-text-secondary">Máx. visualizações
+                        <Input type="number" placeholder="Ilimitado" value={maxViews} onChange={(e) => setMaxViews(e.target.value)} className="text-xs" />
+                    </label>
                 </div>
-                <div className="w-full lg:w-1/4 p-6 flex flex-col overflow-y-auto">
-                    <div className="flex-grow space-y-4">
-                        <div className="flex justify-between items-start">
-                             <h3 className="text-2xl font-bold text-gray-900 dark:text-dark-text-primary break-all">{item.name}</h3>
-                             <button onClick={onClose} className="text-gray-500 dark:text-dark-text-secondary hover:text-gray-800 dark:hover:text-dark-text-primary transition-colors ml-4 -mt-2 -mr-2 p-2">
-                                <CloseIcon className="w-6 h-6" />
-                            </button>
-                        </div>
-                        
-                        <div className="text-sm text-gray-600 dark:text-dark-text-secondary space-y-1">
-                            <p><strong>Enviado em:</strong> {new Date(item.uploadDate).toLocaleDateString()}</p>
-                            <p><strong>Tamanho:</strong> {formatBytes(item.size)}</p>
-                            {item.width && <p><strong>Dimensões:</strong> {item.width} x {item.height}</p>}
-                            <p className="flex items-center gap-1.5"><FolderIcon className="w-4 h-4" /> {item.category}</p>
-                            <p className="flex items-center gap-1.5"><EyeIcon className="w-4 h-4"/> {item.views} visualizações</p>
+                <Input type="password" placeholder="Senha (opcional)" value={password} onChange={(e) => setPassword(e.target.value)} className="text-xs" />
+                <Button onClick={handleCreate} disabled={isCreating} variant="secondary" className="w-full text-sm">
+                    {isCreating ? <Spinner size="sm" /> : 'Criar link'}
+                </Button>
+            </div>
+            {links.length > 0 && (
+                <ul className="mt-3 space-y-2">
+                    {links.map(link => {
+                        const status = shareLinkStatus(link);
+                        return (
+                            <li key={link.token} className={`p-2 rounded-md bg-gray-100 dark:bg-dark-bg text-xs space-y-1 ${status ? 'opacity-60' : ''}`}>
+                                <div className="flex items-center gap-2">
+                                    <span className="flex-grow truncate font-mono">{link.url}</span>
+                                    {!status && (
+                                        <button onClick={() => onCopy(link.url, 'temporário')} className="p-1 rounded hover:bg-gray-200 dark:hover:bg-dark-border">
+                                            <CopyIcon className="w-3 h-3"/>
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-gray-600 dark:text-dark-text-secondary">
+                                    <span className="flex items-center gap-1"><EyeIcon className="w-3 h-3"/> {link.views}{link.maxViews !== undefined ? ` / ${link.maxViews}` : ''}</span>
+                                    {link.expiresAt && <span>até {new Date(link.expiresAt).toLocaleString()}</span>}
+                                    {link.hasPassword && <span>com senha</span>}
+                                    {status
+                                        ? <span className="font-semibold">{status}</span>
+                                        : <button onClick={() => handleRevoke(link.token)} className="ml-auto text-red-600 dark:text-red-400 hover:underline">Revogar</button>}
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// Crop proportions offered by the image editor; a null ratio crops freely.
+const CROP_ASPECTS: { label: string; ratio: number | null }[] = [
+  { label: 'Livre', ratio: null },
+  { label: '1:1', ratio: 1 },
+  { label: '4:3', ratio: 4 / 3 },
+  { label: '3:2', ratio: 3 / 2 },
+  { label: '16:9', ratio: 16 / 9 },
+  { label: '9:16', ratio: 9 / 16 },
+];
+// The preview is drawn at most this large; edits are only applied at full resolution when saving.
+const EDITOR_PREVIEW_SIZE = 1200;
+// Crops smaller than this fraction of a side are treated as a stray click.
+const MIN_CROP_FRACTION = 0.02;
+
+const clampFraction = (value: number) => Math.min(1, Math.max(0, value));
+
+const editedCopyName = (name: string, mimeType: string) => {
+  const renamed = renameForType(name, mimeType);
+  const dot = renamed.lastIndexOf('.');
+  return dot > 0 ? `${renamed.slice(0, dot)} (editada)${renamed.slice(dot)}` : `${renamed} (editada)`;
+};
+
+const ImageEditorModal = ({ item, onClose }: { item: MediaFile, onClose: () => void }) => {
+  const { user } = useAuth();
+  const { addMedia, replaceMediaContent } = useMedia();
+  const { addToast } = useToast();
+  const [image, setImage] = useState<ImageBitmap | null>(null);
+  const [edit, setEdit] = useState<ImageEdit>(IDENTITY_EDIT);
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const username = user?.username;
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    if (!username) return;
+    let cancelled = false;
+    let bitmap: ImageBitmap | null = null;
+    storage.getMediaContent(username, item.id)
+      .then(blob => {
+        if (!blob) throw new Error(`Conteúdo de ${item.id} não encontrado.`);
+        return createImageBitmap(blob, { imageOrientation: 'from-image' });
+      })
+      .then(result => {
+        if (cancelled) return result.close();
+        bitmap = result;
+        setImage(result);
+      })
+      .catch(error => {
+        console.error(error);
+        addToast('Falha ao abrir a imagem para edição.', 'error');
+        onCloseRef.current();
+      });
+    return () => {
+      cancelled = true;
+      bitmap?.close();
+    };
+  }, [username, item.id, addToast]);
+
+  // Crop and adjustments are shown as an overlay and a CSS filter, so only the orientation redraws the canvas.
+  const { rotation, flipHorizontal, flipVertical } = edit;
+  useEffect(() => {
+    if (!image || !canvasRef.current) return;
+    const orientation = { ...IDENTITY_EDIT, rotation, flipHorizontal, flipVertical };
+    drawOriented(canvasRef.current, image, orientation, Math.min(1, EDITOR_PREVIEW_SIZE / Math.max(image.width, image.height)));
+  }, [image, rotation, flipHorizontal, flipVertical]);
+
+  useEffect(() => {
+    const handleEsc = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isSaving) onClose();
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose, isSaving]);
+
+  const update = (changes: Partial<ImageEdit>) => setEdit(prev => ({ ...prev, ...changes }));
+  const oriented = image && orientedSize(image.width, image.height, edit.rotation);
+  const cropped = image && editedSize(image.width, image.height, { ...edit, outputWidth: null });
+  const output = image && editedSize(image.width, image.height, edit);
+
+  // The crop is kept relative to the rotated picture, so turning or flipping it starts over.
+  const rotate = (degrees: number) => update({ rotation: ((edit.rotation + degrees + 360) % 360) as ImageEdit['rotation'], crop: null, outputWidth: null });
+  const flip = (axis: 'flipHorizontal' | 'flipVertical') => update({ [axis]: !edit[axis], crop: null, outputWidth: null });
+
+  // Aspect ratios are in pixels while the crop is in fractions of each side.
+  const fractionRatio = (ratio: number) => oriented ? ratio * oriented.height / oriented.width : ratio;
+
+  const chooseAspect = (ratio: number | null) => {
+    setAspect(ratio);
+    if (!ratio) return;
+    const r = fractionRatio(ratio);
+    const width = r >= 1 ? 1 : r;
+    const height = r >= 1 ? 1 / r : 1;
+    update({ crop: { x: (1 - width) / 2, y: (1 - height) / 2, width, height }, outputWidth: null });
+  };
+
+  const pointerPosition = (event: React.PointerEvent) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return { x: clampFraction((event.clientX - bounds.left) / bounds.width), y: clampFraction((event.clientY - bounds.top) / bounds.height) };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = pointerPosition(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const end = pointerPosition(event);
+    let width = Math.abs(end.x - start.x);
+    let height = Math.abs(end.y - start.y);
+    if (aspect) {
+      const r = fractionRatio(aspect);
+      if (width / (height || 1e-6) > r) width = height * r;
+      else height = width / r;
+    }
+    update({
+      crop: { x: end.x < start.x ? start.x - width : start.x, y: end.y < start.y ? start.y - height : start.y, width, height },
+      outputWidth: null,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    if (edit.crop && (edit.crop.width < MIN_CROP_FRACTION || edit.crop.height < MIN_CROP_FRACTION)) update({ crop: null });
+  };
+
+  const save = async (asCopy: boolean) => {
+    if (!image) return;
+    setIsSaving(true);
+    try {
+      const { blob, width, height } = await renderEdit(image, edit, item.mimeType);
+      const [thumbnail, contentHash, hash] = await Promise.all([createThumbnail(blob), sha256Hex(blob), perceptualHash(blob)]);
+      const details = { width, height, contentHash, perceptualHash: hash ?? undefined };
+      let saved: boolean;
+      if (asCopy) {
+        // The copy starts its own history and is tagged again, as its picture differs from the original.
+        const { id, uploadDate, views, isPublic, publicId, revisions, analysis, embedding, aiStatus, ...copied } = item;
+        saved = await addMedia([{
+          ...copied,
+          ...details,
+          aiStatus: 'queued',
+          name: editedCopyName(item.name, blob.type),
+          size: blob.size,
+          mimeType: blob.type,
+          blob,
+          thumbnail: thumbnail ?? undefined,
+        }]);
+      } else {
+        saved = await replaceMediaContent(item.id, {
+          blob,
+          thumbnail: thumbnail ?? undefined,
+          updates: { ...details, name: renameForType(item.name, blob.type) },
+        });
+      }
+      if (saved) {
+        addToast(asCopy ? 'Cópia editada salva na biblioteca.' : `"${item.name}" foi atualizado.`, 'success');
+        onClose();
+      }
+    } catch (error) {
+      console.error(error);
+      addToast('Falha ao salvar a imagem editada.', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const adjustments: { key: keyof ImageAdjustments; label: string }[] = [
+    { key: 'brightness', label: 'Brilho' },
+    { key: 'contrast', label: 'Contraste' },
+    { key: 'saturation', label: 'Saturação' },
+  ];
+  const pillClass = (active: boolean) => `px-3 py-1 text-sm rounded-full border transition-colors ${active ? 'bg-brand-primary text-white border-brand-primary' : 'border-gray-300 dark:border-dark-border hover:bg-gray-100 dark:hover:bg-dark-border'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-90 z-50 flex flex-col lg:flex-row animate-fade-in">
+      <div className="flex-1 flex justify-center items-center p-4 min-h-0">
+        {!image ? <Spinner size="lg" /> : (
+          <div
+            className="relative touch-none select-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <canvas ref={canvasRef} className="block max-w-full max-h-[85vh]" style={{ filter: adjustmentFilter(edit) }} />
+            {edit.crop && (
+              <div
+                className="absolute border-2 border-white pointer-events-none"
+                style={{
+                  left: `${edit.crop.x * 100}%`, top: `${edit.crop.y * 100}%`,
+                  width: `${edit.crop.width * 100}%`, height: `${edit.crop.height * 100}%`,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+                }}
+              />
+            )}
+          </div>
+        )}
+      </div>
+      <div className="w-full lg:w-80 bg-white dark:bg-dark-surface p-6 overflow-y-auto space-y-5 text-sm">
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold text-gray-900 dark:text-dark-text-primary">Editar imagem</h3>
+          <button onClick={onClose} disabled={isSaving} className="text-gray-500 dark:text-dark-text-secondary hover:text-gray-800 dark:hover:text-dark-text-primary transition-colors p-2 -mr-2">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-semibold">Recortar</h4>
+          <p className="text-gray-500 dark:text-dark-text-secondary">Arraste sobre a imagem para escolher a área.</p>
+          <div className="flex flex-wrap gap-2">
+            {CROP_ASPECTS.map(({ label, ratio }) => (
+              <button key={label} onClick={() => chooseAspect(ratio)} className={pillClass(aspect === ratio)}>{label}</button>
+            ))}
+          </div>
+          {edit.crop && <button onClick={() => update({ crop: null, outputWidth: null })} className="text-brand-primary hover:underline">Remover recorte</button>}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-semibold">Girar e espelhar</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="secondary" onClick={() => rotate(-90)}>&#8634; 90°</Button>
+            <Button variant="secondary" onClick={() => rotate(90)}>&#8635; 90°</Button>
+            <Button variant="secondary" onClick={() => flip('flipHorizontal')}>&#8596; Horizontal</Button>
+            <Button variant="secondary" onClick={() => flip('flipVertical')}>&#8597; Vertical</Button>
+          </div>
+        </div>
+
+        {cropped && output && (
+          <div className="space-y-2">
+            <h4 className="font-semibold">Redimensionar</h4>
+            <label className="flex items-center gap-2" title="A imagem só pode ser reduzida.">
+              <input
+                type="number"
+                min={1}
+                max={cropped.width}
+                value={output.width}
+                onChange={e => {
+                  const width = Math.round(Number(e.target.value));
+                  if (width > 0) update({ outputWidth: Math.min(width, cropped.width) });
+                }}
+                className="w-24 p-1 rounded-md bg-gray-100 dark:bg-dark-surface border border-gray-300 dark:border-dark-border"
+              />
+              <span className="text-gray-600 dark:text-dark-text-secondary">× {output.height} px</span>
+            </label>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="font-semibold">Ajustes</h4>
+          {adjustments.map(({ key, label }) => (
+            <label key={key} className="block">
+              <span className="flex justify-between text-gray-700 dark:text-dark-text-secondary">{label} <span>{edit[key]}%</span></span>
+              <input type="range" min={0} max={200} value={edit[key]} onChange={e => update({ [key]: Number(e.target.value) })} className="w-full" />
+            </label>
+          ))}
+        </div>
+
+        <div className="pt-4 border-t dark:border-dark-border space-y-2">
+          <Button onClick={() => save(false)} disabled={!image || isSaving} className="w-full">
+            {isSaving ? <Spinner size="sm" /> : 'Salvar nova versão'}
+          </Button>
+          <Button onClick={() => save(true)} variant="secondary" disabled={!image || isSaving} className="w-full">Salvar como cópia</Button>
+          <Button onClick={() => { setEdit(IDENTITY_EDIT); setAspect(null); }} variant="secondary" disabled={isSaving} className="w-full">Desfazer alterações</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MediaDetailModal = ({ item, onClose }: { item: MediaFile, onClose: () => void }) => {
+    const { user } = useAuth();
+    const owner = user?.username ?? '';
+    const { incrementView, recordDownloads, trashMedia, updateMedia } = useMedia();
+    const { addToast } = useToast();
+    const hasBeenViewed = useRef(false);
+    const incrementViewRef = useRef(incrementView);
+    incrementViewRef.current = incrementView;
+    const [isEditing, setIsEditing] = useState(false);
+    const url = useMediaUrl(item.id, 'content', item.contentHash);
+    const publicUrl = storage.getPublicUrl(item);
+
+    useEffect(() => {
+        if (!hasBeenViewed.current) {
+            incrementViewRef.current(item.id);
+            hasBeenViewed.current = true;
+        }
+    }, [item.id]);
+
+    const copyToClipboard = (text: string, label: string) => {
+        navigator.clipboard.writeText(text).then(() => {
+            addToast(`Link ${label} copiado!`, 'success');
+        }, () => {
+            addToast(`Falha ao copiar o link ${label}.`, 'error');
+        });
+    };
+    
+    // AI alt text is free-form, so it is escaped for the markup it is pasted into.
+    const altText = altTextFor(item);
+    const links = publicUrl ? {
+        Direto: publicUrl,
+        HTML: `<img src="${publicUrl}" alt="${altText.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')}" />`,
+        BBCode: `[img]${publicUrl}[/img]`,
+        Markdown: `![${altText.replace(/[[\]\\]/g, '\\$&')}](${publicUrl})`,
+    } : {};
+
+    const togglePublic = () => {
+        const isPublic = !item.isPublic;
+        // The public id is kept when an item goes private so re-publishing restores the same links.
+        updateMedia(item.id, { isPublic, publicId: item.publicId ?? createPublicId() });
+        addToast(isPublic ? `"${item.name}" agora é público.` : `"${item.name}" agora é privado.`, 'info');
+    };
+
+    // Fetched with the session rather than opened by URL, so no token lands in the address bar or history.
+    const handleDownload = async () => {
+        try {
+            const blob = await storage.getMediaContent(owner, item.id);
+            if (!blob) throw new Error(`Conteúdo de ${item.id} não encontrado.`);
+            downloadBlob(blob, item.name);
+            recordDownloads([item.id]);
+        } catch (error) {
+            console.error(error);
+            addToast('Falha ao baixar o arquivo.', 'error');
+        }
+    };
+
+    const handleDelete = () => {
+        trashMedia([item.id]);
+        onClose();
+    }
+
+    if (isEditing) return <ImageEditorModal item={item} onClose={() => setIsEditing(false)} />;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-80 z-50 flex justify-center items-center animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-dark-surface rounded-xl shadow-2xl w-full max-w-6xl h-full max-h-[95vh] m-4 flex flex-col lg:flex-row overflow-hidden" onClick={(e) => e.stopPropagation()}>
+                <div className="w-full lg:w-3/4 bg-black flex justify-center items-center p-4">
+                    {!url
+                        ? <Spinner size="lg" />
+                        : item.type === 'image' 
+                        ? <img src={url} alt={altTextFor(item)} className="max-w-full max-h-full object-contain" />
+                        : <video src={url} controls className="max-w-full max-h-full object-contain" />
+                    }
+                </div>
+                <div className="w-full lg:w-1/4 p-6 flex flex-col overflow-y-auto">
+                    <div className="flex-grow space-y-4">
+                        <div className="flex justify-between items-start">
+                             <h3 className="text-2xl font-bold text-gray-900 dark:text-dark-text-primary break-all">{item.name}</h3>
+                             <button onClick={onClose} className="text-gray-500 dark:text-dark-text-secondary hover:text-gray-800 dark:hover:text-dark-text-primary transition-colors ml-4 -mt-2 -mr-2 p-2">
+                                <CloseIcon className="w-6 h-6" />
+                            </button>
+                        </div>
+                        
+                        <div className="text-sm text-gray-600 dark:text-dark-text-secondary space-y-1">
+                            <p><strong>Enviado em:</strong> {new Date(item.uploadDate).toLocaleDateString()}</p>
+                            <p><strong>Tamanho:</strong> {formatBytes(item.size)}</p>
+                            {item.width && <p><strong>Dimensões:</strong> {item.width} x {item.height}</p>}
+                            <p className="flex items-center gap-1.5"><FolderIcon className="w-4 h-4" /> {item.category}</p>
+                            <p className="flex items-center gap-1.5"><EyeIcon className="w-4 h-4"/> {item.views} visualizações</p>
                         </div>
 
-                        {item.tags.length > 0 && (
-                            <div>
-                                <h4 className="font-semibold mb-2 flex items-center gap-2"><TagIcon className="w-5 h-5"/> Tags de IA</h4>
-                                <div className="flex flex-wrap gap-2">
-                                    {item.tags.map(tag => <span key={tag} className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 text-xs font-semibold px-2.5 py-0.5 rounded-full">{tag}</span>)}
-                                </div>
+                        {item.metadata && <MediaMetadataDetails metadata={item.metadata} />}
+
+                        {item.analysis && <MediaAnalysisDetails analysis={item.analysis} />}
+
+                        <TagEditor item={item} />
+
+                        <AlbumMembership item={item} />
+
+                        <MediaHistory item={item} />
+
+                        <div>
+                            <div className="flex justify-between items-center mb-2">
+                                <h4 className="font-semibold">Links de Compartilhamento</h4>
+                                {storageBackend === 'server' && (
+                                    <button onClick={togglePublic} className={`px-3 py-1 text-xs font-semibold rounded-full transition-colors ${item.isPublic ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 'bg-gray-200 text-gray-700 dark:bg-dark-border dark:text-dark-text-secondary'}`}>
+                                        {item.isPublic ? 'Público' : 'Privado'}
+                                    </button>
+                                )}
+                            </div>
+                            {storageBackend !== 'server' && (
+                                <p className="text-sm text-gray-500 dark:text-dark-text-secondary">Links públicos exigem o servidor de armazenamento do GuardMídia.</p>
+                            )}
+                            {storageBackend === 'server' && !item.isPublic && (
+                                <p className="text-sm text-gray-500 dark:text-dark-text-secondary">Torne este item público para gerar links de compartilhamento.</p>
+                            )}
+                            {storageBackend === 'server' && item.metadata?.location && (
+                                <label className="flex items-center gap-2 mb-2 text-sm text-gray-700 dark:text-dark-text-secondary">
+                                    <input type="checkbox" checked={!item.shareLocation} onChange={(e) => updateMedia(item.id, { shareLocation: !e.target.checked })} />
+                                    Remover a localização (GPS) ao compartilhar
+                                </label>
+                            )}
+                            <div className="space-y-2">
+                                {Object.entries(links).map(([label, link]) => (
+                                    <div key={label}>
+                                        <label className="text-sm font-medium text-gray-700 dark:text-dark-text-secondary">{label}</label>
+                                        <div className="flex items-center">
+                                            <input type="text" readOnly value={link} className="w-full p-1.5 text-xs rounded-l-md bg-gray-100 dark:bg-dark-bg border border-gray-300 dark:border-dark-border focus:ring-0 outline-none" />
+                                            <button onClick={() => copyToClipboard(link, label)} className="p-2 bg-gray-200 dark:bg-dark-border rounded-r-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors">
+                                                <CopyIcon className="w-4 h-4"/>
+                                            </button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {storageBackend === 'server' && <ShareLinkManager item={item} onCopy={copyToClipboard} />}
+                    </div>
+                     <div className="mt-6 pt-4 border-t dark:border-dark-border flex flex-col sm:flex-row gap-2">
+                        <Button onClick={handleDownload} disabled={!url} className="w-full">
+                           <DownloadIcon className="w-5 h-5"/> Baixar
+                        </Button>
+                        {item.type === 'image' && canProcessImage({ type: item.mimeType }) && (
+                            <Button onClick={() => setIsEditing(true)} variant="secondary" className="w-full">
+                               Editar
+                            </Button>
+                        )}
+                        <Button onClick={handleDelete} variant="danger" className="w-full">
+                           Deletar
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const AccountModal = ({ isOpen, onClose }: { isOpen: boolean, onClose: () => void }) => {
+    const { changePassword, deleteAccount } = useAuth();
+    const { addToast } = useToast();
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [deletePassword, setDeletePassword] = useState('');
+    const [error, setError] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setCurrentPassword('');
+            setNewPassword('');
+            setConfirmPassword('');
+            setDeletePassword('');
+            setError('');
+        }
+    }, [isOpen]);
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        setIsBusy(true);
+        try {
+            await action();
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Falha ao contatar o armazenamento.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleChangePassword = (e: React.FormEvent) => {
+        e.preventDefault();
+        const problem = getPasswordProblem(newPassword);
+        if (problem) return setError(problem);
+        if (newPassword !== confirmPassword) return setError('As senhas não conferem.');
+        run(async () => {
+            if (!(await changePassword(currentPassword, newPassword))) {
+                setError('Senha atual incorreta.');
+                return;
+            }
+            addToast('Senha alterada com sucesso!', 'success');
+            onClose();
+        });
+    };
+
+    const handleDeleteAccount = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!window.confirm('Tem certeza que deseja excluir sua conta? Todas as suas mídias serão apagadas. Esta ação não pode ser desfeita.')) return;
+        run(async () => {
+            if (!(await deleteAccount(deletePassword))) {
+                setError('Senha incorreta.');
+                return;
+            }
+            addToast('Conta excluída.', 'info');
+        });
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Minha Conta">
+            <div className="space-y-6">
+                <form onSubmit={handleChangePassword} className="space-y-3">
+                    <h3 className="font-semibold">Alterar senha</h3>
+                    <Input type="password" placeholder="Senha atual" value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} />
+                    <Input type="password" placeholder="Nova senha" value={newPassword} onChange={e => setNewPassword(e.target.value)} />
+                    <Input type="password" placeholder="Confirmar nova senha" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} />
+                    <p className="text-xs text-gray-500 dark:text-dark-text-secondary">Mínimo de {MIN_PASSWORD_LENGTH} caracteres, com letras e números.</p>
+                    <Button type="submit" disabled={isBusy || !currentPassword || !newPassword} className="w-full">Alterar senha</Button>
+                </form>
+                <form onSubmit={handleDeleteAccount} className="space-y-3 pt-4 border-t dark:border-dark-border">
+                    <h3 className="font-semibold text-red-600 dark:text-red-400">Excluir conta</h3>
+                    <p className="text-sm text-gray-600 dark:text-dark-text-secondary">Remove sua conta e todas as mídias da sua biblioteca.</p>
+                    <Input type="password" placeholder="Confirme com sua senha" value={deletePassword} onChange={e => setDeletePassword(e.target.value)} />
+                    <Button type="submit" variant="danger" disabled={isBusy || !deletePassword} className="w-full">Excluir conta</Button>
+                </form>
+                {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+            </div>
+        </Modal>
+    );
+};
+
+const AiSettingsModal = ({ isOpen, onClose }: { isOpen: boolean, onClose: () => void }) => {
+    const { aiSettings, setAiSettings } = useTagging();
+    const { addToast } = useToast();
+    const [draft, setDraft] = useState<AiSettings>(aiSettings);
+
+    useEffect(() => {
+        if (isOpen) setDraft(aiSettings);
+    }, [isOpen, aiSettings]);
+
+    const update = (changes: Partial<AiSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+    const selectClass = 'w-full p-2 rounded-md bg-gray-100 dark:bg-dark-surface border border-gray-300 dark:border-dark-border';
+    const labelClass = 'block text-sm font-medium text-gray-700 dark:text-dark-text-secondary mb-1';
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        setAiSettings(draft);
+        addToast('Configurações de IA salvas.', 'success');
+        onClose();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Configurações de IA">
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                    <label className={labelClass}>Provedor</label>
+                    <select value={draft.provider} onChange={e => update({ provider: e.target.value as AiSettings['provider'] })} className={selectClass}>
+                        <option value="gemini">Google Gemini</option>
+                        <option value="openai">Servidor compatível com OpenAI (Ollama, llama.cpp...)</option>
+                        <option value="mock">Simulado (offline, para testes)</option>
+                    </select>
+                </div>
+                {draft.provider === 'openai' && (
+                    <>
+                        <div>
+                            <label className={labelClass}>Endereço da API</label>
+                            <Input placeholder={DEFAULT_OPENAI_ENDPOINT} value={draft.endpoint} onChange={e => update({ endpoint: e.target.value })} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Chave de API (opcional)</label>
+                            <Input type="password" value={draft.apiKey} onChange={e => update({ apiKey: e.target.value })} />
+                        </div>
+                    </>
+                )}
+                {draft.provider !== 'mock' && (
+                    <>
+                        <div>
+                            <label className={labelClass}>Modelo</label>
+                            <Input
+                                placeholder={draft.provider === 'gemini' ? DEFAULT_GEMINI_MODEL : 'ex: llava, qwen2.5vl'}
+                                value={draft.model}
+                                onChange={e => update({ model: e.target.value })}
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Modelo de embeddings (busca semântica)</label>
+                            <Input
+                                placeholder={draft.provider === 'gemini' ? DEFAULT_GEMINI_EMBEDDING_MODEL : DEFAULT_OPENAI_EMBEDDING_MODEL}
+                                value={draft.embeddingModel}
+                                onChange={e => update({ embeddingModel: e.target.value })}
+                            />
+                        </div>
+                    </>
+                )}
+                <div>
+                    <label className={labelClass}>Idioma das tags e descrições</label>
+                    <select value={draft.language} onChange={e => update({ language: e.target.value as AiSettings['language'] })} className={selectClass}>
+                        <option value="pt-BR">Português (Brasil)</option>
+                        <option value="en">English</option>
+                    </select>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-dark-text-secondary">Vale para as próximas marcações. Use o botão IA na seleção para marcar de novo mídias já analisadas.</p>
+                <div className="flex justify-end">
+                    <Button type="submit">Salvar</Button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
+// ALBUM COMPONENTS
+const AlbumFormModal = ({ isOpen, onClose, album }: { isOpen: boolean, onClose: () => void, album?: Album }) => {
+    const { createAlbum, updateAlbum } = useAlbums();
+    const { media } = useMedia();
+    const { addToast } = useToast();
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [coverMediaId, setCoverMediaId] = useState('');
+
+    useEffect(() => {
+        if (isOpen) {
+            setName(album?.name ?? '');
+            setDescription(album?.description ?? '');
+            setCoverMediaId(album?.coverMediaId ?? '');
+        }
+    }, [isOpen, album]);
+
+    const members = album ? media.filter(item => album.mediaIds.includes(item.id)) : [];
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        if (album) {
+            updateAlbum(album.id, { name: name.trim(), description: description.trim(), coverMediaId: coverMediaId || undefined });
+            addToast('Álbum atualizado.', 'success');
+        } else {
+            createAlbum(name.trim(), description.trim());
+            addToast(`Álbum "${name.trim()}" criado.`, 'success');
+        }
+        onClose();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={album ? 'Editar Álbum' : 'Novo Álbum'}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <Input placeholder="Nome do álbum" value={name} onChange={(e) => setName(e.target.value)} />
+                <textarea
+                    placeholder="Descrição (opcional)"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    rows={3}
+                    className="w-full p-2 rounded-md bg-gray-100 dark:bg-dark-surface border border-gray-300 dark:border-dark-border focus:ring-2 focus:ring-brand-primary focus:border-transparent outline-none transition-all"
+                />
+                {members.length > 0 && (
+                    <label className="block text-sm font-medium text-gray-700 dark:text-dark-text-secondary">Capa
+                        <select value={coverMediaId} onChange={(e) => setCoverMediaId(e.target.value)} className="mt-1 w-full p-2 rounded-md bg-gray-100 dark:bg-dark-surface border border-gray-300 dark:border-dark-border">
+                            {members.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+                        </select>
+                    </label>
+                )}
+                <div className="flex justify-end">
+                    <Button type="submit" disabled={!name.trim()}>{album ? 'Salvar' : 'Criar Álbum'}</Button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
+const AlbumCover = ({ album }: { album: Album }) => {
+    const { media } = useMedia();
+    const cover = media.find(item => item.id === album.coverMediaId) ?? media.find(item => album.mediaIds.includes(item.id));
+    return cover
+        ? <MediaThumbnail item={cover} />
+        : <div className="w-full h-full flex items-center justify-center text-gray-400"><FolderIcon className="w-12 h-12" /></div>;
+};
+
+const AlbumsPage = ({ onOpenAlbum }: { onOpenAlbum: (albumId: string) => void }) => {
+    const { albums, moveAlbum } = useAlbums();
+    const { media } = useMedia();
+    const [isFormOpen, setIsFormOpen] = useState(false);
+
+    const memberCount = (album: Album) => album.mediaIds.filter(id => media.some(item => item.id === id)).length;
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold">Álbuns</h2>
+                <Button onClick={() => setIsFormOpen(true)}>Novo Álbum</Button>
+            </div>
+            {albums.length === 0 ? (
+                <div className="text-center py-20">
+                    <p className="text-gray-500 dark:text-dark-text-secondary">Nenhum álbum ainda. Crie um para agrupar suas mídias!</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                    {albums.map((album, index) => (
+                        <div key={album.id} className="group bg-white dark:bg-dark-surface rounded-lg overflow-hidden shadow-sm hover:shadow-xl transition-all duration-300">
+                            <div onClick={() => onOpenAlbum(album.id)} className="h-40 bg-gray-200 dark:bg-dark-bg cursor-pointer overflow-hidden">
+                                <AlbumCover album={album} />
+                            </div>
+                            <div className="p-3">
+                                <div className="flex items-start justify-between gap-2">
+                                    <button onClick={() => onOpenAlbum(album.id)} className="text-left font-semibold truncate hover:text-brand-primary">{album.name}</button>
+                                    <div className="flex-shrink-0 flex gap-1 text-gray-500 dark:text-dark-text-secondary">
+                                        <button onClick={() => moveAlbum(album.id, -1)} disabled={index === 0} className="px-1 disabled:opacity-30" title="Mover para a esquerda">&larr;</button>
+                                        <button onClick={() => moveAlbum(album.id, 1)} disabled={index === albums.length - 1} className="px-1 disabled:opacity-30" title="Mover para a direita">&rarr;</button>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-gray-500 dark:text-dark-text-secondary">{memberCount(album)} item(ns)</p>
+                                {album.description && <p className="mt-1 text-sm text-gray-600 dark:text-dark-text-secondary line-clamp-2">{album.description}</p>}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <AlbumFormModal isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} />
+        </div>
+    );
+};
+
+const AlbumPage = ({ albumId, onBack }: { albumId: string, onBack: () => void }) => {
+    const { albums, deleteAlbum, mergeAlbums, removeFromAlbum } = useAlbums();
+    const { media } = useMedia();
+    const { addToast } = useToast();
+    const [viewMode] = useLocalStorage<ViewMode>(`viewMode`, ViewMode.GRID);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [mergeTargetId, setMergeTargetId] = useState('');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    const album = albums.find(a => a.id === albumId);
+    const members = useMemo(
+        () => (album?.mediaIds ?? []).map(id => media.find(item => item.id === id)).filter((item): item is MediaFile => Boolean(item)),
+        [album, media]
+    );
+    const selectedItem = members.find(item => item.id === selectedId) ?? null;
+
+    if (!album) {
+        return (
+            <div className="p-8 text-center">
+                <p className="text-gray-500 dark:text-dark-text-secondary">Álbum não encontrado.</p>
+                <Button onClick={onBack} variant="secondary" className="mx-auto mt-4">Voltar aos álbuns</Button>
+            </div>
+        );
+    }
+
+    const handleDelete = () => {
+        if (window.confirm(`Deletar o álbum "${album.name}"? As mídias continuam na biblioteca.`)) {
+            deleteAlbum(album.id);
+            addToast(`Álbum "${album.name}" deletado.`, 'info');
+            onBack();
+        }
+    };
+
+    const handleMerge = () => {
+        const target = albums.find(a => a.id === mergeTargetId);
+        if (!target) return;
+        if (window.confirm(`Mesclar "${album.name}" em "${target.name}"? O álbum "${album.name}" será removido.`)) {
+            mergeAlbums(album.id, target.id);
+            addToast(`"${album.name}" mesclado em "${target.name}".`, 'success');
+            onBack();
+        }
+    };
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8">
+            <button onClick={onBack} className="text-sm text-brand-primary hover:text-brand-secondary mb-4">&larr; Todos os álbuns</button>
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-6">
+                <div>
+                    <h2 className="text-2xl font-bold">{album.name}</h2>
+                    {album.description && <p className="mt-1 text-gray-600 dark:text-dark-text-secondary">{album.description}</p>}
+                    <p className="mt-1 text-xs text-gray-500 dark:text-dark-text-secondary">Criado em {new Date(album.createdAt).toLocaleDateString()} · {members.length} item(ns)</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <Button onClick={() => setIsFormOpen(true)} variant="secondary">Editar</Button>
+                    {albums.length > 1 && (
+                        <div className="flex items-center gap-1">
+                            <select value={mergeTargetId} onChange={(e) => setMergeTargetId(e.target.value)} className="p-2 rounded-lg bg-white dark:bg-dark-surface border border-gray-300 dark:border-dark-border text-sm">
+                                <option value="">Mesclar em...</option>
+                                {albums.filter(a => a.id !== album.id).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                            </select>
+                            <Button onClick={handleMerge} variant="secondary" disabled={!mergeTargetId}>Mesclar</Button>
+                        </div>
+                    )}
+                    <Button onClick={handleDelete} variant="danger">Deletar</Button>
+                </div>
+            </div>
+            {members.length === 0 ? (
+                <div className="text-center py-20">
+                    <p className="text-gray-500 dark:text-dark-text-secondary">Este álbum está vazio. Adicione mídias pela tela de detalhes de cada item.</p>
+                </div>
+            ) : (
+                <VirtualizedMediaView
+                    items={members}
+                    viewMode={viewMode}
+                    renderItem={item => (
+                        <div className="relative group/member">
+                            <MediaItem item={item} viewMode={viewMode} onSelect={(selected) => setSelectedId(selected.id)} />
+                            <button
+                                onClick={() => removeFromAlbum(album.id, [item.id])}
+                                title="Remover do álbum"
+                                className="absolute top-2 right-2 z-10 p-1 rounded-full bg-black bg-opacity-60 text-white opacity-0 group-hover/member:opacity-100 transition-opacity"
+                            >
+                                <CloseIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    )}
+                />
+            )}
+            {selectedItem && <MediaDetailModal item={selectedItem} onClose={() => setSelectedId(null)} />}
+            <AlbumFormModal isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} album={album} />
+        </div>
+    );
+};
+
+const AlbumMembership = ({ item }: { item: MediaFile }) => {
+    const { albums, addToAlbum, removeFromAlbum } = useAlbums();
+    const memberOf = albums.filter(album => album.mediaIds.includes(item.id));
+    const available = albums.filter(album => !album.mediaIds.includes(item.id));
+
+    return (
+        <div>
+            <h4 className="font-semibold mb-2 flex items-center gap-2"><FolderIcon className="w-5 h-5"/> Álbuns</h4>
+            <div className="flex flex-wrap gap-2">
+                {memberOf.map(album => (
+                    <span key={album.id} className="flex items-center gap-1 bg-gray-200 dark:bg-dark-border text-xs font-semibold px-2.5 py-0.5 rounded-full">
+                        {album.name}
+                        <button onClick={() => removeFromAlbum(album.id, [item.id])} className="hover:text-red-600" title="Remover do álbum">&times;</button>
+                    </span>
+                ))}
+                {memberOf.length === 0 && <span className="text-xs text-gray-500 dark:text-dark-text-secondary">Em nenhum álbum.</span>}
+            </div>
+            {available.length > 0 && (
+                <select
+                    value=""
+                    onChange={(e) => e.target.value && addToAlbum(e.target.value, [item.id])}
+                    className="mt-2 w-full p-1.5 text-sm rounded-md bg-gray-100 dark:bg-dark-bg border border-gray-300 dark:border-dark-border"
+                >
+                    <option value="">Adicionar a um álbum...</option>
+                    {available.map(album => <option key={album.id} value={album.id}>{album.name}</option>)}
+                </select>
+            )}
+        </div>
+    );
+};
+
+const MediaAnalysisDetails = ({ analysis }: { analysis: MediaAnalysis }) => (
+    <div className="space-y-3 text-sm">
+        {analysis.caption && <p className="italic text-gray-700 dark:text-dark-text-secondary">{analysis.caption}</p>}
+        {analysis.colors.length > 0 && (
+            <div className="flex gap-1.5" title="Cores dominantes">
+                {analysis.colors.map(color => (
+                    <span key={color} className="w-6 h-6 rounded-full border border-gray-300 dark:border-dark-border" style={{ backgroundColor: color }} title={color} />
+                ))}
+            </div>
+        )}
+        {analysis.text && (
+            <div>
+                <h4 className="font-semibold mb-1">Texto na imagem</h4>
+                <p className="whitespace-pre-wrap p-2 rounded-md bg-gray-100 dark:bg-dark-bg text-gray-700 dark:text-dark-text-secondary">{analysis.text}</p>
+            </div>
+        )}
+    </div>
+);
+
+const formatDuration = (seconds: number) => {
+    const total = Math.round(seconds);
+    const [hours, minutes, rest] = [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60];
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(rest)}` : `${minutes}:${pad(rest)}`;
+};
+
+const formatExposure = ({ fNumber, exposureTime, iso, focalLength }: MediaMetadata) => [
+    fNumber && `f/${Number(fNumber.toFixed(1))}`,
+    exposureTime && (exposureTime < 1 ? `1/${Math.round(1 / exposureTime)}s` : `${Number(exposureTime.toFixed(1))}s`),
+    iso && `ISO ${iso}`,
+    focalLength && `${Number(focalLength.toFixed(1))}mm`,
+].filter(Boolean).join(' · ');
+
+const MediaMetadataDetails = ({ metadata }: { metadata: MediaMetadata }) => {
+    const exposure = formatExposure(metadata);
+    const { location } = metadata;
+    return (
+        <div className="text-sm text-gray-600 dark:text-dark-text-secondary space-y-1">
+            {metadata.capturedAt && <p><strong>Capturado em:</strong> {new Date(metadata.capturedAt).toLocaleString()}</p>}
+            {metadata.camera && <p><strong>Câmera:</strong> {metadata.camera}</p>}
+            {metadata.lens && <p><strong>Lente:</strong> {metadata.lens}</p>}
+            {exposure && <p><strong>Exposição:</strong> {exposure}</p>}
+            {metadata.duration !== undefined && <p><strong>Duração:</strong> {formatDuration(metadata.duration)}</p>}
+            {metadata.codecs && <p><strong>Codecs:</strong> {metadata.codecs.join(', ')}</p>}
+            {location && (
+                <p>
+                    <strong>Local:</strong>{' '}
+                    <a
+                        href={`https://www.openstreetmap.org/?mlat=${location.latitude}&mlon=${location.longitude}#map=15/${location.latitude}/${location.longitude}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-brand-primary hover:underline"
+                    >
+                        {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}
+                    </a>
+                </p>
+            )}
+        </div>
+    );
+};
+
+const CHANGE_LABELS: Record<MediaChange, string> = {
+    name: 'nome',
+    category: 'categoria',
+    tags: 'tags',
+    isPublic: 'visibilidade',
+    shareLocation: 'localização',
+    content: 'conteúdo',
+};
+
+// Archived contents are fetched as blobs; the current one resolves like any other media URL.
+// `missing` is set when the archive no longer holds the content.
+const useRevisionContentUrl = (item: MediaFile, hash: string | undefined) => {
+    const { user } = useAuth();
+    const isCurrent = !hash || hash === item.contentHash;
+    const currentUrl = useMediaUrl(item.id, isCurrent ? 'content' : null, item.contentHash);
+    const [archived, setArchived] = useState<{ url: string | null; missing: boolean }>({ url: null, missing: false });
+
+    useEffect(() => {
+        setArchived({ url: null, missing: false });
+        if (isCurrent || !hash || !user) return;
+        let cancelled = false;
+        let url: string | null = null;
+        storage.getRevisionContent(user.username, item.id, hash).then(blob => {
+            if (cancelled) return;
+            url = blob && URL.createObjectURL(blob);
+            setArchived({ url, missing: !blob });
+        }).catch(error => console.error(error));
+        return () => {
+            cancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [user?.username, item.id, hash, isCurrent]);
+
+    return isCurrent ? { url: currentUrl, missing: false } : archived;
+};
+
+const RevisionPreview = ({ item, snapshot, label }: { item: MediaFile, snapshot: MediaSnapshot, label: string }) => {
+    const { url, missing } = useRevisionContentUrl(item, snapshot.contentHash);
+    return (
+        <figure className="flex-1 min-w-0 space-y-1">
+            <div className="aspect-square bg-black rounded-md flex items-center justify-center overflow-hidden">
+                {missing
+                    ? <span className="text-xs text-gray-400 p-2 text-center">Conteúdo indisponível</span>
+                    : url ? <img src={url} alt={snapshot.name} className="max-w-full max-h-full object-contain" /> : <Spinner />}
+            </div>
+            <figcaption className="text-xs text-center text-gray-600 dark:text-dark-text-secondary">{label}</figcaption>
+        </figure>
+    );
+};
+
+const RevisionCompareModal = ({ item, revision, number, onClose }: { item: MediaFile, revision: MediaRevision, number: number, onClose: () => void }) => {
+    const { revertMedia } = useMedia();
+    const { addToast } = useToast();
+    const [isReverting, setIsReverting] = useState(false);
+    const current = snapshotOf(item);
+    const { snapshot } = revision;
+    const dimensions = (state: MediaSnapshot) => state.width ? `${state.width} x ${state.height}` : '—';
+    const rows: { label: string; before: string; after: string }[] = [
+        { label: 'Nome', before: snapshot.name, after: current.name },
+        { label: 'Categoria', before: snapshot.category, after: current.category },
+        { label: 'Tags', before: snapshot.tags.map(tag => tag.name).join(', ') || '—', after: current.tags.map(tag => tag.name).join(', ') || '—' },
+        { label: 'Visibilidade', before: snapshot.isPublic ? 'Público' : 'Privado', after: current.isPublic ? 'Público' : 'Privado' },
+        { label: 'Tamanho', before: formatBytes(snapshot.size), after: formatBytes(current.size) },
+        { label: 'Dimensões', before: dimensions(snapshot), after: dimensions(current) },
+    ];
+
+    const revert = async () => {
+        setIsReverting(true);
+        const reverted = await revertMedia(item.id, revision.id);
+        setIsReverting(false);
+        if (reverted) {
+            addToast(`Versão ${number} restaurada.`, 'success');
+            onClose();
+        }
+    };
+
+    return (
+        <Modal isOpen onClose={onClose} title={`Versão ${number} × atual`}>
+            <div className="space-y-4 text-sm">
+                {item.type === 'image' && contentChanged(snapshot, current) && (
+                    <div className="flex gap-3">
+                        <RevisionPreview item={item} snapshot={snapshot} label={`Versão ${number}`} />
+                        <RevisionPreview item={item} snapshot={current} label="Atual" />
+                    </div>
+                )}
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="text-gray-500 dark:text-dark-text-secondary">
+                            <th className="py-1 pr-2 font-medium"></th>
+                            <th className="py-1 pr-2 font-medium">Versão {number}</th>
+                            <th className="py-1 font-medium">Atual</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(({ label, before, after }) => (
+                            <tr key={label} className={`border-t dark:border-dark-border ${before !== after ? 'bg-yellow-50 dark:bg-yellow-900/30' : ''}`}>
+                                <th className="py-1 pr-2 font-semibold align-top">{label}</th>
+                                <td className="py-1 pr-2 break-all align-top">{before}</td>
+                                <td className="py-1 break-all align-top">{after}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <Button onClick={revert} disabled={isReverting} className="w-full">
+                    {isReverting ? <Spinner size="sm" /> : 'Restaurar esta versão'}
+                </Button>
+            </div>
+        </Modal>
+    );
+};
+
+const MediaHistory = ({ item }: { item: MediaFile }) => {
+    const [comparing, setComparing] = useState<MediaRevision | null>(null);
+    const revisions = item.revisions ?? [];
+    if (revisions.length === 0) return null;
+    const numberOf = (revision: MediaRevision) => revisions.indexOf(revision) + 1;
+
+    return (
+        <div>
+            <h4 className="font-semibold mb-2">Histórico de versões</h4>
+            <ol className="space-y-2 text-sm">
+                {[...revisions].reverse().map((revision, index) => {
+                    const revertedFrom = revision.revertOf && revisions.find(candidate => candidate.id === revision.revertOf);
+                    return (
+                        <li key={revision.id} className="p-2 rounded-md bg-gray-100 dark:bg-dark-bg">
+                            <div className="flex justify-between items-center gap-2">
+                                <span className="font-semibold">Versão {numberOf(revision)}{index === 0 && ' (atual)'}</span>
+                                {index > 0 && <button onClick={() => setComparing(revision)} className="text-brand-primary hover:underline text-xs">Comparar</button>}
                             </div>
-                        )}
+                            <p className="text-xs text-gray-600 dark:text-dark-text-secondary">
+                                {new Date(revision.date).toLocaleString()} · {revision.author || '—'}
+                            </p>
+                            <p className="text-xs text-gray-600 dark:text-dark-text-secondary">
+                                {revertedFrom
+                                    ? `Restaurada da versão ${numberOf(revertedFrom)}`
+                                    : revision.changes.length > 0 ? `Alterou ${revision.changes.map(change => CHANGE_LABELS[change]).join(', ')}` : 'Versão inicial'}
+                            </p>
+                        </li>
+                    );
+                })}
+            </ol>
+            {comparing && <RevisionCompareModal item={item} revision={comparing} number={numberOf(comparing)} onClose={() => setComparing(null)} />}
+        </div>
+    );
+};
 
-                        <div>
-                            <h4 className="font-semibold mb-2">Links de Compartilhamento</h4>
-                            <div className="space-y-2">
-                                {Object.entries(links).map(([label, link]) => (
-                                    <div key={label}>
-                                        <label className="text-sm font-medium text-gray-700 dark:text-dark-text-secondary">{label}</label>
-                                        <div className="flex items-center">
-                                            <input type="text" readOnly value={link} className="w-full p-1.5 text-xs rounded-l-md bg-gray-100 dark:bg-dark-bg border border-gray-300 dark:border-dark-border focus:ring-0 outline-none" />
-                                            <button onClick={() => copyToClipboard(link, label)} className="p-2 bg-gray-200 dark:bg-dark-border rounded-r-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors">
-                                                <CopyIcon className="w-4 h-4"/>
+const TagChip = ({ tag, onRename, onRemove }: { tag: MediaTag, onRename?: () => void, onRemove?: () => void }) => (
+    <span
+        className={`flex items-center gap-1 text-xs font-semibold px-2.5 py-0.5 rounded-full ${tag.source === 'ai' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'}`}
+        title={tag.source === 'ai' ? 'Tag gerada pela IA' : 'Tag manual'}
+    >
+        {onRename ? <button onClick={onRename} className="hover:underline" title="Renomear tag">{tag.name}</button> : tag.name}
+        {onRemove && <button onClick={onRemove} className="hover:text-red-600" title="Remover tag">&times;</button>}
+    </span>
+);
+
+const TagEditor = ({ item }: { item: MediaFile }) => {
+    const { updateMedia } = useMedia();
+    const [newTag, setNewTag] = useState('');
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newTag.trim()) return;
+        updateMedia(item.id, { tags: addTag(item.tags, newTag) });
+        setNewTag('');
+    };
+
+    const handleRename = (tag: MediaTag) => {
+        const name = window.prompt('Novo nome da tag:', tag.name)?.trim();
+        if (name && name !== tag.name) updateMedia(item.id, { tags: renameTag(item.tags, tag.name, name) });
+    };
+
+    return (
+        <div>
+            <h4 className="font-semibold mb-2 flex items-center gap-2"><TagIcon className="w-5 h-5"/> Tags <TaggingStatusBadge item={item} /></h4>
+            <div className="flex flex-wrap gap-2">
+                {item.tags.map(tag => (
+                    <TagChip
+                        key={tag.name}
+                        tag={tag}
+                        onRename={() => handleRename(tag)}
+                        onRemove={() => updateMedia(item.id, { tags: removeTag(item.tags, tag.name) })}
+                    />
+                ))}
+                {item.tags.length === 0 && <span className="text-xs text-gray-500 dark:text-dark-text-secondary">Sem tags.</span>}
+            </div>
+            <form onSubmit={handleAdd} className="mt-2 flex gap-2">
+                <Input placeholder="Adicionar tag..." value={newTag} onChange={(e) => setNewTag(e.target.value)} className="text-sm" />
+                <Button type="submit" variant="secondary" disabled={!newTag.trim()}>Adicionar</Button>
+            </form>
+        </div>
+    );
+};
+
+const TagManagerPage = () => {
+    const { media, updateMediaBatch } = useMedia();
+    const { addToast } = useToast();
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const stats = useMemo(() => collectTagStats(media), [media]);
+
+    // Rename, merge and delete all go through the batch updater so they can be undone.
+    const retag = (names: string[], updater: (tags: MediaTag[]) => MediaTag[], label: string) => {
+        const ids = media.filter(item => names.some(name => hasTag(item.tags, name))).map(item => item.id);
+        updateMediaBatch(ids, item => ({ tags: updater(item.tags) }), label);
+        setSelected(new Set());
+    };
+
+    const handleRename = (name: string) => {
+        const newName = window.prompt(`Renomear "${name}" em todas as mídias para:`, name)?.trim();
+        if (!newName || newName === name) return;
+        retag([name], tags => renameTag(tags, name, newName), 'Renomeação de tag');
+    };
+
+    const handleDelete = (name: string) => {
+        if (!window.confirm(`Remover a tag "${name}" de todas as mídias?`)) return;
+        retag([name], tags => removeTag(tags, name), 'Exclusão de tag');
+    };
+
+    const handleMerge = () => {
+        const names = Array.from<string>(selected);
+        const target = window.prompt(`Mesclar ${names.length} tags em:`, names[0])?.trim();
+        if (!target) return;
+        retag(names, tags => addTag(names.reduce(removeTag, tags), target), 'Mesclagem de tags');
+        addToast(`${names.length} tags mescladas em "${target}".`, 'success');
+    };
+
+    const toggle = (name: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(name)) next.delete(name);
+            else next.add(name);
+            return next;
+        });
+    };
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold">Tags</h2>
+                <Button onClick={handleMerge} disabled={selected.size < 2}>Mesclar selecionadas ({selected.size})</Button>
+            </div>
+            {stats.length === 0 ? (
+                <div className="text-center py-20">
+                    <p className="text-gray-500 dark:text-dark-text-secondary">Nenhuma tag ainda. Adicione tags às suas mídias ou use a marcação por IA.</p>
+                </div>
+            ) : (
+                <div className="bg-white dark:bg-dark-surface rounded-lg shadow-sm divide-y dark:divide-dark-border">
+                    {stats.map(stat => (
+                        <div key={stat.name} className="flex items-center gap-4 p-3">
+                            <input type="checkbox" checked={selected.has(stat.name)} onChange={() => toggle(stat.name)} className="w-4 h-4 accent-brand-primary" />
+                            <span className="flex-grow font-semibold truncate">{stat.name}</span>
+                            <span className="text-sm text-gray-500 dark:text-dark-text-secondary">
+                                {stat.count} mídia(s) &middot; {stat.aiCount} IA &middot; {stat.manualCount} manual
+                            </span>
+                            <button onClick={() => handleRename(stat.name)} className="text-sm text-brand-primary hover:underline">Renomear</button>
+                            <button onClick={() => handleDelete(stat.name)} className="text-sm text-red-600 hover:underline">Excluir</button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Higher resolution first, then the oldest upload: the copy most worth keeping leads each group.
+const rankCopies = (group: MediaFile[]) => [...group].sort((a, b) =>
+    ((b.width ?? 0) * (b.height ?? 0)) - ((a.width ?? 0) * (a.height ?? 0)) || a.uploadDate.localeCompare(b.uploadDate));
+
+const DuplicatesPage = () => {
+    const { media, trashMedia } = useMedia();
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const selectedItem = media.find(item => item.id === selectedId) ?? null;
+    const groups = useMemo(() => groupDuplicates(media).map(rankCopies), [media]);
+    const pendingHashes = media.filter(item => !item.contentHash).length;
+
+    const toggle = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    // Copies go to the trash, and the move can be undone from the toast.
+    const remove = (ids: string[]) => {
+        trashMedia(ids);
+        setSelected(prev => new Set(Array.from<string>(prev).filter(id => !ids.includes(id))));
+    };
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                <div>
+                    <h2 className="text-2xl font-bold">Duplicatas</h2>
+                    <p className="text-sm text-gray-500 dark:text-dark-text-secondary">
+                        Cópias idênticas e imagens muito parecidas. A primeira de cada grupo tem a maior resolução.
+                        {pendingHashes > 0 && ` Ainda analisando ${pendingHashes} item(ns)...`}
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="secondary" disabled={groups.length === 0} onClick={() => setSelected(new Set(groups.flatMap(group => group.slice(1).map(item => item.id))))}>
+                        Selecionar cópias extras
+                    </Button>
+                    <Button variant="danger" disabled={selected.size === 0} onClick={() => remove(Array.from(selected))}>
+                        Excluir selecionadas ({selected.size})
+                    </Button>
+                </div>
+            </div>
+            {groups.length === 0 ? (
+                <div className="text-center py-20">
+                    <p className="text-gray-500 dark:text-dark-text-secondary">Nenhuma duplicata encontrada.</p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {groups.map(group => (
+                        <div key={group[0].id} className="bg-white dark:bg-dark-surface rounded-lg shadow-sm p-3">
+                            <p className="text-xs font-semibold text-gray-500 dark:text-dark-text-secondary mb-2">
+                                {group.every(item => item.contentHash && item.contentHash === group[0].contentHash) ? 'Idênticas' : 'Parecidas'} &middot; {group.length} itens
+                            </p>
+                            <div className="flex gap-3 overflow-x-auto pb-1">
+                                {group.map(item => (
+                                    <div key={item.id} className={`w-40 flex-shrink-0 text-xs rounded-md p-1 ${selected.has(item.id) ? 'ring-2 ring-red-500' : ''}`}>
+                                        <button onClick={() => setSelectedId(item.id)} className="block w-full h-28 rounded overflow-hidden bg-gray-200 dark:bg-dark-bg">
+                                            <MediaThumbnail item={item} />
+                                        </button>
+                                        <p className="mt-1 font-semibold truncate" title={item.name}>{item.name}</p>
+                                        <p className="text-gray-500 dark:text-dark-text-secondary">
+                                            {formatBytes(item.size, 1)}{item.width ? ` · ${item.width}x${item.height}` : ''}
+                                        </p>
+                                        <p className="text-gray-500 dark:text-dark-text-secondary">{new Date(item.uploadDate).toLocaleDateString()}</p>
+                                        <div className="flex items-center justify-between mt-1">
+                                            <label className="flex items-center gap-1">
+                                                <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggle(item.id)} className="accent-red-600" />
+                                                Excluir
+                                            </label>
+                                            <button
+                                                onClick={() => remove(group.filter(other => other.id !== item.id).map(other => other.id))}
+                                                className="text-brand-primary hover:underline"
+                                            >
+                                                Manter só esta
                                             </button>
                                         </div>
                                     </div>
                                 ))}
                             </div>
                         </div>
+                    ))}
+                </div>
+            )}
+            {selectedItem && <MediaDetailModal item={selectedItem} onClose={() => setSelectedId(null)} />}
+        </div>
+    );
+};
+
+const TrashPage = () => {
+    const { trash, restoreMedia, purgeMedia } = useMedia();
+    const { addToast } = useToast();
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const selectedIds = trash.filter(item => selected.has(item.id)).map(item => item.id);
+
+    const toggle = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const daysLeft = (item: MediaFile) =>
+        Math.max(0, Math.ceil((new Date(item.deletedAt!).getTime() + TRASH_RETENTION_DAYS * DAY_MS - Date.now()) / DAY_MS));
+
+    const restore = (ids: string[]) => {
+        restoreMedia(ids);
+        setSelected(new Set());
+    };
+
+    const purge = async (ids: string[], question: string) => {
+        if (!window.confirm(`${question} Esta ação não pode ser desfeita.`)) return;
+        await purgeMedia(ids);
+        setSelected(new Set());
+        addToast(`${ids.length} item(ns) excluído(s) definitivamente.`, 'info');
+    };
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                <div>
+                    <h2 className="text-2xl font-bold">Lixeira</h2>
+                    <p className="text-sm text-gray-500 dark:text-dark-text-secondary">
+                        Itens excluídos são apagados definitivamente após {TRASH_RETENTION_DAYS} dias.
+                    </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <Button variant="secondary" disabled={selectedIds.length === 0} onClick={() => restore(selectedIds)}>
+                        Restaurar selecionados ({selectedIds.length})
+                    </Button>
+                    <Button variant="danger" disabled={selectedIds.length === 0} onClick={() => purge(selectedIds, `Excluir ${selectedIds.length} item(ns) definitivamente?`)}>
+                        Excluir definitivamente
+                    </Button>
+                    <Button variant="danger" disabled={trash.length === 0} onClick={() => purge(trash.map(item => item.id), `Esvaziar a lixeira (${trash.length} item(ns))?`)}>
+                        Esvaziar lixeira
+                    </Button>
+                </div>
+            </div>
+            {trash.length === 0 ? (
+                <div className="text-center py-20">
+                    <p className="text-gray-500 dark:text-dark-text-secondary">A lixeira está vazia.</p>
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm px-3">
+                        <input
+                            type="checkbox"
+                            checked={selectedIds.length === trash.length}
+                            onChange={(e) => setSelected(e.target.checked ? new Set(trash.map(item => item.id)) : new Set())}
+                        />
+                        Selecionar tudo
+                    </label>
+                    {trash.map(item => (
+                        <div key={item.id} className={`flex items-center gap-3 p-2 rounded-lg bg-white dark:bg-dark-surface shadow-sm ${selected.has(item.id) ? 'ring-2 ring-brand-primary' : ''}`}>
+                            <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggle(item.id)} className="ml-1" />
+                            <div className="w-16 h-16 flex-shrink-0 rounded overflow-hidden bg-gray-200 dark:bg-dark-bg">
+                                <MediaThumbnail item={item} />
+                            </div>
+                            <div className="flex-grow min-w-0 text-sm">
+                                <p className="font-semibold truncate" title={item.name}>{item.name}</p>
+                                <p className="text-gray-500 dark:text-dark-text-secondary truncate">
+                                    {item.category}{item.tags.length > 0 && ` · ${item.tags.map(tag => tag.name).join(', ')}`}
+                                </p>
+                                <p className="text-xs text-gray-500 dark:text-dark-text-secondary">
+                                    Excluído em {new Date(item.deletedAt!).toLocaleDateString()} · {formatBytes(item.size, 1)} · apagado em {daysLeft(item)} dia(s)
+                                </p>
+                            </div>
+                            <Button variant="secondary" onClick={() => restore([item.id])} className="!px-3 !py-1 text-sm">Restaurar</Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const EVENT_LABELS: Record<MediaEventType, string> = {
+    view: 'Aberturas no app',
+    download: 'Downloads',
+    share: 'Links de compartilhamento',
+    public: 'Link público',
+};
+
+const EVENT_COLORS: Record<MediaEventType, string> = {
+    view: 'bg-brand-primary',
+    download: 'bg-emerald-500',
+    share: 'bg-amber-500',
+    public: 'bg-purple-500',
+};
+
+const STATS_RANGES = [7, 30, 90, 365];
+
+const StatCard = ({ title, children }: { title: string, children: React.ReactNode }) => (
+    <section className="p-4 rounded-lg bg-white dark:bg-dark-surface shadow-sm">
+        <h3 className="font-semibold mb-3">{title}</h3>
+        {children}
+    </section>
+);
+
+const HorizontalBars = ({ rows, empty }: { rows: { key: string, label: React.ReactNode, value: number, detail: string }[], empty: string }) => {
+    if (rows.length === 0) return <p className="text-sm text-gray-500 dark:text-dark-text-secondary">{empty}</p>;
+    const max = Math.max(...rows.map(row => row.value), 1);
+    return (
+        <ul className="space-y-2 text-sm">
+            {rows.map(row => (
+                <li key={row.key}>
+                    <div className="flex justify-between gap-2">
+                        <span className="truncate">{row.label}</span>
+                        <span className="flex-shrink-0 text-gray-500 dark:text-dark-text-secondary">{row.detail}</span>
                     </div>
-                     <div className="mt-6 pt-4 border-t dark:border-dark-border flex flex-col sm:flex-row gap-2">
-                        <Button onClick={() => window.open(item.dataUrl, '_blank')} className="w-full">
-                           <DownloadIcon className="w-5 h-5"/> Baixar
-                        </Button>
-                        <Button onClick={handleDelete} variant="danger" className="w-full">
-                           Deletar
-                        </Button>
+                    <div className="h-2 mt-1 rounded-full bg-gray-100 dark:bg-dark-bg overflow-hidden">
+                        <div className="h-full bg-brand-primary" style={{ width: `${(row.value / max) * 100}%` }} />
+                    </div>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+const StatsPage = () => {
+    const { user } = useAuth();
+    const { media, trash } = useMedia();
+    const [events, setEvents] = useState<MediaEvent[] | null>(null);
+    const [error, setError] = useState('');
+    const [days, setDays] = useState(30);
+
+    useEffect(() => {
+        if (!user) return;
+        let cancelled = false;
+        storage.listEvents(user.username)
+            .then(loaded => { if (!cancelled) setEvents(loaded); })
+            .catch(loadError => {
+                console.error(loadError);
+                if (!cancelled) setError('Não foi possível carregar as estatísticas.');
+            });
+        return () => { cancelled = true; };
+    }, [user]);
+
+    const itemsById = useMemo(() => new Map([...media, ...trash].map(item => [item.id, item])), [media, trash]);
+    const inRange = useMemo(() => eventsSince(events ?? [], days), [events, days]);
+    const perDay = useMemo(() => countsPerDay(inRange, days), [inRange, days]);
+    const totals = useMemo(() => countByType(inRange), [inRange]);
+    const busiestDay = Math.max(...perDay.map(({ counts }) => totalOf(counts)), 1);
+    const uploads = useMemo(() => uploadsPerMonth(media, 12), [media]);
+    const busiestMonth = Math.max(...uploads.map(month => month.count), 1);
+
+    if (error) return <div className="text-center py-20 text-red-500">{error}</div>;
+    if (!events) return <div className="flex justify-center py-20"><Spinner size="lg" /></div>;
+
+    const itemLabel = (mediaId: string) => itemsById.get(mediaId)?.name ?? 'Item excluído';
+    const countsDetail = (counts: EventCounts) => EVENT_TYPES.filter(type => counts[type] > 0).map(type => `${counts[type]} ${EVENT_LABELS[type].toLowerCase()}`).join(' · ');
+
+    return (
+        <div className="p-4 sm:p-6 lg:p-8 space-y-6">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold">Estatísticas</h2>
+                    <p className="text-sm text-gray-500 dark:text-dark-text-secondary">
+                        {storageBackend === 'server'
+                            ? 'Aberturas e downloads feitos por você, além de acessos pelos links de compartilhamento e públicos.'
+                            : 'Aberturas e downloads feitos por você. Acessos por links exigem o servidor de armazenamento.'}
+                    </p>
+                </div>
+                <select value={days} onChange={e => setDays(Number(e.target.value))} className="p-2 rounded-md bg-gray-100 dark:bg-dark-surface border border-gray-300 dark:border-dark-border">
+                    {STATS_RANGES.map(range => <option key={range} value={range}>Últimos {range} dias</option>)}
+                </select>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {EVENT_TYPES.map(type => (
+                    <div key={type} className="p-4 rounded-lg bg-white dark:bg-dark-surface shadow-sm">
+                        <p className="text-sm text-gray-500 dark:text-dark-text-secondary flex items-center gap-2">
+                            <span className={`w-3 h-3 rounded-sm ${EVENT_COLORS[type]}`} /> {EVENT_LABELS[type]}
+                        </p>
+                        <p className="text-2xl font-bold">{totals[type]}</p>
                     </div>
+                ))}
+            </div>
+
+            <StatCard title="Acessos por dia">
+                <div className="flex items-end gap-px h-40">
+                    {perDay.map(({ day, counts }) => (
+                        <div key={day} className="flex-1 h-full flex flex-col justify-end" title={`${new Date(`${day}T00:00`).toLocaleDateString()}: ${totalOf(counts)} acesso(s)`}>
+                            {EVENT_TYPES.filter(type => counts[type] > 0).map(type => (
+                                <div key={type} className={EVENT_COLORS[type]} style={{ height: `${(counts[type] / busiestDay) * 100}%` }} />
+                            ))}
+                        </div>
+                    ))}
                 </div>
+                <div className="flex justify-between text-xs text-gray-500 dark:text-dark-text-secondary mt-1">
+                    <span>{new Date(`${perDay[0].day}T00:00`).toLocaleDateString()}</span>
+                    <span>Hoje</span>
+                </div>
+            </StatCard>
+
+            <div className="grid md:grid-cols-2 gap-6">
+                <StatCard title="Itens mais acessados">
+                    <HorizontalBars
+                        empty="Nenhum acesso no período."
+                        rows={topItems(inRange, 10).map(({ mediaId, counts, total }) => ({ key: mediaId, label: itemLabel(mediaId), value: total, detail: countsDetail(counts) }))}
+                    />
+                </StatCard>
+                <StatCard title="Categorias mais acessadas">
+                    <HorizontalBars
+                        empty="Nenhum acesso no período."
+                        rows={topCategories(inRange, [...media, ...trash], 10).map(({ category, total }) => ({ key: category, label: category, value: total, detail: `${total} acesso(s)` }))}
+                    />
+                </StatCard>
+                <StatCard title="Espaço por categoria">
+                    <HorizontalBars
+                        empty="A biblioteca está vazia."
+                        rows={storageByCategory(media).map(({ category, bytes, count }) => ({ key: category, label: category, value: bytes, detail: `${formatBytes(bytes, 1)} · ${count} item(ns)` }))}
+                    />
+                </StatCard>
+                <StatCard title="Sites de origem">
+                    <HorizontalBars
+                        empty="Nenhum acesso por links veio de outro site no período."
+                        rows={topReferrers(inRange, 10).map(({ host, total }) => ({ key: host, label: host, value: total, detail: `${total} acesso(s)` }))}
+                    />
+                </StatCard>
             </div>
+
+            <StatCard title="Envios nos últimos 12 meses">
+                <div className="flex items-end gap-2 h-32">
+                    {uploads.map(({ month, count, bytes }) => (
+                        <div key={month} className="flex-1 h-full flex flex-col justify-end items-center" title={`${count} arquivo(s), ${formatBytes(bytes, 1)}`}>
+                            <span className="text-xs text-gray-500 dark:text-dark-text-secondary">{count || ''}</span>
+                            <div className="w-full rounded-t bg-brand-primary" style={{ height: `${(count / busiestMonth) * 100}%` }} />
+                        </div>
+                    ))}
+                </div>
+                <div className="flex gap-2 mt-1">
+                    {uploads.map(({ month }) => (
+                        <span key={month} className="flex-1 text-center text-xs text-gray-500 dark:text-dark-text-secondary">
+                            {new Date(`${month}-01T00:00`).toLocaleDateString(undefined, { month: 'short' })}
+                        </span>
+                    ))}
+                </div>
+            </StatCard>
         </div>
     );
 };
 
 // LAYOUT COMPONENTS
-const Header = ({ onUploadClick }: { onUploadClick: () => void }) => {
+const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+    skip: 'Manter o item da biblioteca',
+    replace: 'Usar os dados do backup',
+    duplicate: 'Manter os dois',
+};
+
+const RestoreBackupModal = ({ file, onClose }: { file: File, onClose: () => void }) => {
+    const { media, trash, restoreBackup } = useMedia();
+    const { addToast } = useToast();
+    const [backup, setBackup] = useState<ParsedBackup | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+    const [policy, setPolicy] = useState<ConflictPolicy>('skip');
+    const [isRestoring, setIsRestoring] = useState(false);
+    const library = useMemo(() => [...media, ...trash], [media, trash]);
+
+    useEffect(() => {
+        let cancelled = false;
+        readBackup(file)
+            .then(result => { if (!cancelled) setBackup(result); })
+            .catch(reason => {
+                console.error(reason);
+                if (!cancelled) setError(reason instanceof SyntaxError ? 'O arquivo não é um JSON válido.' : reason.message);
+            });
+        return () => { cancelled = true; };
+    }, [file]);
+
+    const valid = useMemo(() => backup?.candidates.filter(candidate => !candidate.problem) ?? [], [backup]);
+    const invalid = backup?.candidates.filter(candidate => candidate.problem) ?? [];
+    const conflicts = useMemo(() => backup ? findConflicts(backup.candidates, library) : [], [backup, library]);
+    const entries = useMemo(() => {
+        if (!backup) return [];
+        return mode === 'replace' ? valid.map(candidate => candidate.entry) : planMerge(backup.candidates, library, policy);
+    }, [backup, valid, library, mode, policy]);
+
+    const restore = async () => {
+        setIsRestoring(true);
+        const restored = await restoreBackup(entries, mode);
+        setIsRestoring(false);
+        if (restored) {
+            addToast(`${entries.length} item(ns) restaurado(s).`, 'success');
+            onClose();
+        }
+    };
+
+    return (
+        <Modal isOpen onClose={onClose} title="Restaurar backup">
+            {error ? (
+                <p className="text-red-600 dark:text-red-400">{error}</p>
+            ) : !backup ? (
+                <div className="flex items-center gap-3 text-sm"><Spinner /> Verificando {file.name}...</div>
+            ) : (
+                <div className="space-y-4 text-sm">
+                    <div className="text-gray-600 dark:text-dark-text-secondary space-y-1">
+                        <p><strong>Arquivo:</strong> {file.name} ({formatBytes(file.size)})</p>
+                        {backup.createdAt && <p><strong>Criado em:</strong> {new Date(backup.createdAt).toLocaleString()}{backup.owner && ` por ${backup.owner}`}</p>}
+                        <p><strong>Formato:</strong> {backup.version}{backup.appVersion && ` · GuardMídia ${backup.appVersion}`}</p>
+                        <p><strong>Itens:</strong> {valid.length} válido(s){invalid.length > 0 && `, ${invalid.length} com problema`}</p>
+                    </div>
+                    {backup.warnings.map(warning => <p key={warning} className="text-yellow-700 dark:text-yellow-400">{warning}</p>)}
+                    {invalid.length > 0 && (
+                        <ul className="max-h-32 overflow-y-auto p-2 rounded-md bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 space-y-0.5">
+                            {invalid.map((candidate, index) => (
+                                <li key={index} className="truncate">{candidate.entry.item?.name ?? '(sem nome)'}: {candidate.problem}</li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <div className="space-y-1">
+                        <label className="flex items-center gap-2">
+                            <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                            Mesclar com a biblioteca atual
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                            Substituir a biblioteca
+                        </label>
+                    </div>
+
+                    {mode === 'replace' && library.length > 0 && (
+                        <p className="text-red-600 dark:text-red-400">Os {library.length} item(ns) atuais, incluindo a lixeira e o histórico de versões, serão apagados depois que todo o backup for gravado; se a restauração falhar, eles são mantidos.</p>
+                    )}
+                    {mode === 'merge' && conflicts.length > 0 && (
+                        <div className="space-y-2">
+                            <p>
+                                {conflicts.length} item(ns) já existem na biblioteca
+                                ({conflicts.filter(conflict => conflict.reason === 'id').length} pelo id, {conflicts.filter(conflict => conflict.reason === 'content').length} pelo conteúdo).
+                            </p>
+                            <select value={policy} onChange={e => setPolicy(e.target.value as ConflictPolicy)} className="w-full p-1.5 rounded-md bg-gray-100 dark:bg-dark-bg border border-gray-300 dark:border-dark-border">
+                                {Object.entries(CONFLICT_POLICY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                            <ul className="max-h-32 overflow-y-auto text-xs text-gray-600 dark:text-dark-text-secondary space-y-0.5">
+                                {conflicts.map(({ candidate, existing, reason }) => (
+                                    <li key={candidate.entry.item.id} className="truncate">
+                                        {candidate.entry.item.name} {reason === 'id' ? '↔' : '≡'} {existing.name}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <Button onClick={restore} variant={mode === 'replace' ? 'danger' : 'primary'} disabled={isRestoring || entries.length === 0} className="w-full">
+                        {isRestoring ? <Spinner size="sm" /> : mode === 'replace' ? `Substituir por ${entries.length} item(ns)` : `Restaurar ${entries.length} item(ns)`}
+                    </Button>
+                </div>
+            )}
+        </Modal>
+    );
+};
+
+const QUOTA_BAR_COLORS: Record<QuotaLevel, string> = {
+    ok: 'bg-brand-primary',
+    warning: 'bg-yellow-500',
+    critical: 'bg-red-500',
+};
+
+const UsageMeter = ({ used, quota }: { used: number, quota: number | null }) => (
+    <div className="text-sm">
+        <p className="text-gray-700 dark:text-dark-text-secondary">
+            {quota === null ? `${formatBytes(used, 1)} em uso` : `${formatBytes(used, 1)} de ${formatBytes(quota, 0)}`}
+        </p>
+        {quota !== null && (
+            <div className="h-2 mt-1 rounded-full bg-gray-200 dark:bg-dark-border overflow-hidden">
+                <div className={`h-full ${QUOTA_BAR_COLORS[quotaLevel(used, quota)]}`} style={{ width: `${Math.min(100, (used / quota) * 100)}%` }} />
+            </div>
+        )}
+    </div>
+);
+
+const StorageUsageModal = ({ isOpen, onClose }: { isOpen: boolean, onClose: () => void }) => {
+    const { media, trash, usage, trashMedia } = useMedia();
+    const all = useMemo(() => [...media, ...trash], [media, trash]);
+    const largest = useMemo(() => largestItems(all, 10), [all]);
+    const categories = useMemo(() => storageByCategory(media).slice(0, 10), [media]);
+    const trashSize = useMemo(() => trash.reduce((sum, item) => sum + item.size, 0), [trash]);
+    const historySize = useMemo(() => all.reduce((sum, item) => sum + archivedSize(item), 0), [all]);
+    const trashedIds = new Set(trash.map(item => item.id));
+    const maxCategory = Math.max(...categories.map(category => category.bytes), 1);
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Uso do armazenamento">
+            <div className="space-y-6 text-sm">
+                <div className="space-y-2">
+                    <UsageMeter used={usage.used} quota={usage.quota} />
+                    <ul className="text-gray-500 dark:text-dark-text-secondary">
+                        <li>Biblioteca: {formatBytes(usage.used - trashSize - historySize, 1)}</li>
+                        <li>Lixeira: {formatBytes(trashSize, 1)}{trashSize > 0 && ' (liberado ao esvaziar a lixeira)'}</li>
+                        <li>Versões anteriores: {formatBytes(historySize, 1)}</li>
+                    </ul>
+                </div>
+
+                <section>
+                    <h3 className="font-semibold mb-2">Maiores arquivos</h3>
+                    {largest.length === 0 ? <p className="text-gray-500 dark:text-dark-text-secondary">A biblioteca está vazia.</p> : (
+                        <ul className="space-y-2">
+                            {largest.map(({ item, bytes }) => (
+                                <li key={item.id} className="flex items-center gap-3">
+                                    <div className="w-10 h-10 flex-shrink-0 rounded overflow-hidden bg-gray-200 dark:bg-dark-bg">
+                                        <MediaThumbnail item={item} />
+                                    </div>
+                                    <div className="flex-grow min-w-0">
+                                        <p className="truncate font-medium" title={item.name}>{item.name}</p>
+                                        <p className="text-xs text-gray-500 dark:text-dark-text-secondary truncate">
+                                            {formatBytes(bytes, 1)}{bytes > item.size && ' com versões anteriores'} · {item.category}
+                                        </p>
+                                    </div>
+                                    {trashedIds.has(item.id)
+                                        ? <span className="flex-shrink-0 text-xs text-gray-500 dark:text-dark-text-secondary">Na lixeira</span>
+                                        : <button onClick={() => trashMedia([item.id])} className="flex-shrink-0 text-xs font-semibold text-red-600 dark:text-red-400 hover:underline">Mover para a lixeira</button>}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+
+                <section>
+                    <h3 className="font-semibold mb-2">Categorias</h3>
+                    <ul className="space-y-2">
+                        {categories.map(({ category, bytes, count }) => (
+                            <li key={category}>
+                                <div className="flex justify-between gap-2">
+                                    <span className="truncate">{category}</span>
+                                    <span className="flex-shrink-0 text-gray-500 dark:text-dark-text-secondary">{formatBytes(bytes, 1)} · {count} item(ns)</span>
+                                </div>
+                                <div className="h-2 mt-1 rounded-full bg-gray-100 dark:bg-dark-bg overflow-hidden">
+                                    <div className="h-full bg-brand-primary" style={{ width: `${(bytes / maxCategory) * 100}%` }} />
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            </div>
+        </Modal>
+    );
+};
+
+const Header = ({ onUploadClick, onAccountClick, onAiSettingsClick }: { onUploadClick: () => void, onAccountClick: () => void, onAiSettingsClick: () => void }) => {
     const { theme, toggleTheme } = useTheme();
     const { user, logout } = useAuth();
-    const { backupData, restoreData } = useMedia();
+    const { backupData, usage } = useMedia();
     const restoreInputRef = useRef<HTMLInputElement>(null);
+    const [restoreFile, setRestoreFile] = useState<File | null>(null);
+    const [isUsageOpen, setIsUsageOpen] = useState(false);
+    const usageLevel = quotaLevel(usage.used, usage.quota);
+
+    const chooseRestoreFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+        setRestoreFile(event.target.files?.[0] ?? null);
+        event.target.value = '';
+    };
 
     return (
+        <>
         <header className="bg-white dark:bg-dark-surface shadow-md sticky top-0 z-30 px-4 sm:px-6 lg:px-8">
             <div className="flex items-center justify-between h-16">
                 <div className="flex items-center gap-2">
@@ -780,14 +4028,22 @@ const Header = ({ onUploadClick }: { onUploadClick: () => void }) => {
                     </button>
                     {user && (
                         <div className="relative group">
-                            <div className="w-8 h-8 rounded-full bg-brand-primary flex items-center justify-center text-white font-bold cursor-pointer">
+                            <div className="relative w-8 h-8 rounded-full bg-brand-primary flex items-center justify-center text-white font-bold cursor-pointer">
                                 {user.username.charAt(0).toUpperCase()}
+                                {usageLevel !== 'ok' && <span className={`absolute -top-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-white dark:border-dark-surface ${QUOTA_BAR_COLORS[usageLevel]}`} title="Cota de armazenamento quase cheia" />}
                             </div>
-                            <div className="absolute right-0 mt-2 w-48 bg-white dark:bg-dark-surface rounded-md shadow-lg py-1 z-40 opacity-0 group-hover:opacity-100 invisible group-hover:visible transition-all duration-200">
+                            <div className="absolute right-0 mt-2 w-56 bg-white dark:bg-dark-surface rounded-md shadow-lg py-1 z-40 opacity-0 group-hover:opacity-100 invisible group-hover:visible transition-all duration-200">
                                 <span className="block px-4 py-2 text-sm text-gray-700 dark:text-dark-text-secondary">Logado como <strong>{user.username}</strong></span>
-                                <button onClick={backupData} className="w-full text-left block px-4 py-2 text-sm text-gray-700 dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-dark-border">Fazer Backup</button>
+                                <button onClick={() => setIsUsageOpen(true)} className="w-full text-left block px-4 py-2 hover:bg-gray-100 dark:hover:bg-dark-border" title="Ver o uso do armazenamento">
+                                    <UsageMeter used={usage.used} quota={usage.quota} />
+                                </button>
+                                <div className="border-t border-gray-100 dark:border-dark-border my-1"></div>
+                                <button onClick={onAccountClick} className="w-full text-left block px-4 py-2 text-sm text-gray-700 dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-dark-border">Minha Conta</button>
+                                <button onClick={onAiSettingsClick} className="w-full text-left block px-4 py-2 text-sm text-gray-700 dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-dark-border">Configurações de IA</button>
+                                <button onClick={() => backupData('zip')} className="w-full text-left block px-4 py-2 text-sm text-gray-700 dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-dark-border">Fazer Backup (ZIP)</button>
+                                <button onClick={() => backupData('json')} className="w-full text-left block px-4 py-2 text-sm text-gray-700 dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-dark-border">Fazer Backup (JSON)</button>
                                 <button onClick={() => restoreInputRef.current?.click()} className="w-full text-left block px-4 py-2 text-sm text-gray-700 dark:text-dark-text-secondary hover:bg-gray-100 dark:hover:bg-dark-border">Restaurar Dados</button>
-                                <input type="file" accept=".json" ref={restoreInputRef} onChange={restoreData} className="hidden"/>
+                                <input type="file" accept=".json,.zip,application/json,application/zip" ref={restoreInputRef} onChange={chooseRestoreFile} className="hidden"/>
                                 <div className="border-t border-gray-100 dark:border-dark-border my-1"></div>
                                 <button onClick={logout} className="w-full text-left flex items-center gap-2 px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20">
                                    <LogoutIcon className="w-4 h-4"/> Sair
@@ -798,11 +4054,45 @@ const Header = ({ onUploadClick }: { onUploadClick: () => void }) => {
                 </div>
             </div>
         </header>
+        {/* Outside the sticky header, whose stacking context would trap the modal under the page. */}
+        {restoreFile && <RestoreBackupModal file={restoreFile} onClose={() => setRestoreFile(null)} />}
+        {isUsageOpen && <StorageUsageModal isOpen onClose={() => setIsUsageOpen(false)} />}
+        </>
     );
 };
 
+type AppView = { page: 'library' } | { page: 'albums' } | { page: 'album', albumId: string } | { page: 'tags' } | { page: 'duplicates' } | { page: 'trash' } | { page: 'stats' };
+
+const NavTabs = ({ view, setView }: { view: AppView, setView: (view: AppView) => void }) => {
+  const { trash } = useMedia();
+  const tabs: { label: string, target: AppView, active: boolean }[] = [
+    { label: 'Biblioteca', target: { page: 'library' }, active: view.page === 'library' },
+    { label: 'Álbuns', target: { page: 'albums' }, active: view.page === 'albums' || view.page === 'album' },
+    { label: 'Tags', target: { page: 'tags' }, active: view.page === 'tags' },
+    { label: 'Duplicatas', target: { page: 'duplicates' }, active: view.page === 'duplicates' },
+    { label: trash.length > 0 ? `Lixeira (${trash.length})` : 'Lixeira', target: { page: 'trash' }, active: view.page === 'trash' },
+    { label: 'Estatísticas', target: { page: 'stats' }, active: view.page === 'stats' },
+  ];
+  return (
+    <nav className="flex flex-wrap gap-1 px-4 sm:px-6 lg:px-8 pt-4">
+      {tabs.map(tab => (
+        <button
+          key={tab.label}
+          onClick={() => setView(tab.target)}
+          className={`px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${tab.active ? 'bg-brand-primary text-white' : 'text-gray-700 dark:text-dark-text-secondary hover:bg-gray-200 dark:hover:bg-dark-border'}`}
+        >
+          {tab.label}
+        </button>
+      ))}
+    </nav>
+  );
+};
+
 const AppLayout = () => {
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [isAccountModalOpen, setIsAccountModalOpen] = useState(false);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  const [view, setView] = useState<AppView>({ page: 'library' });
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -817,11 +4107,20 @@ const AppLayout = () => {
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-dark-bg text-gray-900 dark:text-dark-text-primary transition-colors duration-300">
-      <Header onUploadClick={() => setIsUploadModalOpen(true)} />
+      <Header onUploadClick={() => setIsUploadModalOpen(true)} onAccountClick={() => setIsAccountModalOpen(true)} onAiSettingsClick={() => setIsAiSettingsOpen(true)} />
+      <NavTabs view={view} setView={setView} />
       <main>
-        <MediaGrid />
+        {view.page === 'library' && <MediaGrid />}
+        {view.page === 'albums' && <AlbumsPage onOpenAlbum={(albumId) => setView({ page: 'album', albumId })} />}
+        {view.page === 'album' && <AlbumPage albumId={view.albumId} onBack={() => setView({ page: 'albums' })} />}
+        {view.page === 'tags' && <TagManagerPage />}
+        {view.page === 'duplicates' && <DuplicatesPage />}
+        {view.page === 'trash' && <TrashPage />}
+        {view.page === 'stats' && <StatsPage />}
       </main>
       <UploadModal isOpen={isUploadModalOpen} onClose={() => setIsUploadModalOpen(false)} />
+      <AccountModal isOpen={isAccountModalOpen} onClose={() => setIsAccountModalOpen(false)} />
+      <AiSettingsModal isOpen={isAiSettingsOpen} onClose={() => setIsAiSettingsOpen(false)} />
     </div>
   );
 };
@@ -834,25 +4133,41 @@ const AuthPage = ({ isLogin }: { isLogin: boolean }) => {
     const [error, setError] = useState('');
     const { login, register } = useAuth();
     const [showRegister, setShowRegister] = useState(!isLogin);
+    const [isSubmitting, setIsSubmitting] = useState(false);
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
         if (!username || !password) {
             setError('Usuário e senha são obrigatórios.');
             return;
         }
+        if (showRegister) {
+            const problem = getPasswordProblem(password);
+            if (problem) {
+                setError(problem);
+                return;
+            }
+        }
 
-        let success = false;
-        if(showRegister) {
-            success = register({ username, password });
-            if (!success) setError('Nome de usuário já existe.');
-            else {
-                login({ username, password }); // auto-login after register
+        setIsSubmitting(true);
+        try {
+            let success = false;
+            if(showRegister) {
+                success = await register({ username, password });
+                if (!success) setError('Nome de usuário já existe.');
+                else {
+                    await login({ username, password }); // auto-login after register
+                }
+            } else {
+                success = await login({ username, password });
+                if (!success) setError('Usuário ou senha inválidos.');
             }
-        } else {
-            success = login({ username, password });
-            if (!success) setError('Usuário ou senha inválidos.');
+        } catch (err) {
+            console.error(err);
+            setError(err instanceof Error ? err.message : 'Falha ao contatar o armazenamento.');
+        } finally {
+            setIsSubmitting(false);
         }
     };
 
@@ -867,9 +4182,10 @@ const AuthPage = ({ isLogin }: { isLogin: boolean }) => {
                 <form onSubmit={handleSubmit} className="space-y-6">
                     <Input type="text" placeholder="Usuário" value={username} onChange={e => setUsername(e.target.value)} />
                     <Input type="password" placeholder="Senha" value={password} onChange={e => setPassword(e.target.value)} />
+                    {showRegister && <p className="text-xs text-gray-500 dark:text-dark-text-secondary -mt-4">Mínimo de {MIN_PASSWORD_LENGTH} caracteres, com letras e números.</p>}
                     {error && <p className="text-red-500 text-sm text-center">{error}</p>}
-                    <Button type="submit" className="w-full !py-3">
-                        {showRegister ? 'Registrar' : 'Entrar'}
+                    <Button type="submit" className="w-full !py-3" disabled={isSubmitting}>
+                        {isSubmitting ? <Spinner size="sm" /> : showRegister ? 'Registrar' : 'Entrar'}
                     </Button>
                 </form>
                 <p className="text-center text-sm text-gray-600 dark:text-dark-text-secondary">
@@ -885,7 +4201,15 @@ const AuthPage = ({ isLogin }: { isLogin: boolean }) => {
 
 // ROOT APP COMPONENT
 function App() {
-  const { user } = useAuth();
+  const { user, isRestoring } = useAuth();
+
+  if (isRestoring) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-dark-bg">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
   
   if (!user) {
     return <AuthPage isLogin={true} />;
@@ -893,7 +4217,11 @@ function App() {
 
   return (
     <MediaProvider>
-      <AppLayout />
+      <TaggingProvider>
+        <AlbumProvider>
+          <AppLayout />
+        </AlbumProvider>
+      </TaggingProvider>
     </MediaProvider>
   );
 }
@@ -0,0 +1,271 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { hashPassword } from '../services/crypto';
+import { createServer } from './app';
+
+const PASSWORD = 'senha1234';
+const MB = 1024 * 1024;
+
+let dataDir: string;
+let baseUrl: string;
+let close: () => Promise<void>;
+
+beforeAll(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'guardmidia-'));
+  // Users are seeded in the index so one of them can have a small quota.
+  const passwordHash = await hashPassword(PASSWORD);
+  await fs.writeFile(path.join(dataDir, 'index.json'), JSON.stringify({
+    users: { ana: { passwordHash }, bia: { passwordHash, quotaMb: 0.001 } },
+  }));
+  const server = await createServer(dataDir);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  close = () => new Promise(resolve => server.close(() => resolve()));
+});
+
+afterAll(async () => {
+  await close();
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+const login = async (username: string) => {
+  const response = await fetch(`${baseUrl}/api/sessions`, {
+    method: 'POST',
+    body: JSON.stringify({ username, password: PASSWORD }),
+  });
+  return ((await response.json()) as { token: string }).token;
+};
+
+const api = (token: string) => (url: string, init: RequestInit = {}) =>
+  fetch(`${baseUrl}${url}`, { ...init, headers: { Authorization: `Bearer ${token}`, ...init.headers } });
+
+const media = (id: string, size: number) => ({
+  id,
+  name: `${id}.jpg`,
+  type: 'image',
+  mimeType: 'image/jpeg',
+  size,
+  category: 'Geral',
+  tags: [],
+  uploadDate: new Date().toISOString(),
+  views: 0,
+});
+
+describe('share links', () => {
+  let ana: ReturnType<typeof api>;
+
+  beforeAll(async () => {
+    ana = api(await login('ana'));
+    await ana('/api/libraries/ana/media/foto', { method: 'PUT', body: JSON.stringify(media('foto', 3)) });
+    await ana('/api/libraries/ana/media/foto/content', { method: 'PUT', body: 'abc' });
+  });
+
+  const share = async (options: object = {}) => {
+    const response = await ana('/api/libraries/ana/media/foto/shares', { method: 'POST', body: JSON.stringify(options) });
+    expect(response.status).toBe(201);
+    return (await response.json()) as { token: string; hasPassword: boolean; passwordHash?: string };
+  };
+
+  it('serves the content and counts the view', async () => {
+    const { token } = await share();
+    const response = await fetch(`${baseUrl}/s/${token}`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('abc');
+    const links = (await (await ana('/api/libraries/ana/media/foto/shares')).json()) as { token: string; views: number }[];
+    expect(links.find(link => link.token === token)?.views).toBe(1);
+  });
+
+  it('stops working after the view limit', async () => {
+    const { token } = await share({ maxViews: 1 });
+    expect((await fetch(`${baseUrl}/s/${token}`)).status).toBe(200);
+    expect((await fetch(`${baseUrl}/s/${token}`)).status).toBe(410);
+  });
+
+  it('stops working once expired or revoked', async () => {
+    const expired = await share({ expiresAt: new Date(Date.now() - 1000).toISOString() });
+    expect((await fetch(`${baseUrl}/s/${expired.token}`)).status).toBe(410);
+    const revoked = await share();
+    expect((await ana(`/api/libraries/ana/shares/${revoked.token}`, { method: 'DELETE' })).status).toBe(204);
+    expect((await fetch(`${baseUrl}/s/${revoked.token}`)).status).toBe(410);
+  });
+
+  it('asks for the password and never exposes its hash', async () => {
+    const link = await share({ password: 'segredo' });
+    expect(link).toMatchObject({ hasPassword: true });
+    expect(link.passwordHash).toBeUndefined();
+    const form = await fetch(`${baseUrl}/s/${link.token}`);
+    expect(await form.text()).toContain('type="password"');
+    const post = (password: string) => fetch(`${baseUrl}/s/${link.token}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ password }),
+    });
+    expect((await post('errada')).status).toBe(403);
+    const opened = await post('segredo');
+    expect(opened.status).toBe(200);
+    expect(await opened.text()).toBe('abc');
+  });
+
+  const postPassword = (token: string, password: string) => fetch(`${baseUrl}/s/${token}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ password }),
+  });
+
+  it('counts views from concurrent password submissions against the limit', async () => {
+    const link = await share({ password: 'segredo', maxViews: 1 });
+    const statuses = (await Promise.all([postPassword(link.token, 'segredo'), postPassword(link.token, 'segredo')])).map(response => response.status);
+    expect(statuses.sort()).toEqual([200, 410]);
+  });
+
+  it('stops accepting passwords after repeated failures', async () => {
+    const link = await share({ password: 'segredo' });
+    for (let attempt = 0; attempt < 5; attempt++) expect((await postPassword(link.token, 'errada')).status).toBe(403);
+    expect((await postPassword(link.token, 'segredo')).status).toBe(429);
+  });
+
+  it('rejects requests from another user and unknown tokens', async () => {
+    const bia = api(await login('bia'));
+    expect((await bia('/api/libraries/ana/media/foto/shares', { method: 'POST', body: '{}' })).status).toBe(401);
+    expect((await fetch(`${baseUrl}/s/inexistente`)).status).toBe(404);
+  });
+
+  it('serves images inline and anything else as a download', async () => {
+    const { token } = await share();
+    const image = await fetch(`${baseUrl}/s/${token}`);
+    expect(image.headers.get('content-type')).toBe('image/jpeg');
+    expect(image.headers.get('content-disposition')).toBe("inline; filename*=UTF-8''foto.jpg");
+    expect(image.headers.get('x-content-type-options')).toBe('nosniff');
+    expect(image.headers.get('content-security-policy')).toContain("default-src 'none'");
+
+    await ana('/api/libraries/ana/media/desenho/content', { method: 'PUT', body: '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>' });
+    await ana('/api/libraries/ana/media/desenho', { method: 'PUT', body: JSON.stringify({ ...media('desenho', 0), name: 'desenho.svg', mimeType: 'image/svg+xml', isPublic: true, publicId: 'desenho' }) });
+    const svg = await fetch(`${baseUrl}/m/desenho.svg`);
+    expect(svg.headers.get('content-type')).toBe('image/svg+xml');
+    expect(svg.headers.get('content-disposition')).toMatch(/^attachment;/);
+
+    await ana('/api/libraries/ana/media/pagina/content', { method: 'PUT', body: '<script>alert(1)</script>' });
+    await ana('/api/libraries/ana/media/pagina', { method: 'PUT', body: JSON.stringify({ ...media('pagina', 0), mimeType: 'text/html', isPublic: true, publicId: 'pagina' }) });
+    const html = await fetch(`${baseUrl}/m/pagina`);
+    expect(html.headers.get('content-type')).toBe('application/octet-stream');
+    expect(html.headers.get('content-disposition')).toMatch(/^attachment;/);
+  });
+
+  it('hides items in the trash', async () => {
+    const { token } = await share();
+    await ana('/api/libraries/ana/media/foto', { method: 'PUT', body: JSON.stringify({ ...media('foto', 3), deletedAt: new Date().toISOString() }) });
+    expect((await fetch(`${baseUrl}/s/${token}`)).status).toBe(404);
+    await ana('/api/libraries/ana/media/foto', { method: 'PUT', body: JSON.stringify(media('foto', 3)) });
+  });
+});
+
+describe('media tokens', () => {
+  it('open one item by URL and nothing else', async () => {
+    const sessionToken = await login('ana');
+    const ana = api(sessionToken);
+    await ana('/api/libraries/ana/media/outra/content', { method: 'PUT', body: 'xyz' });
+    await ana('/api/libraries/ana/media/outra', { method: 'PUT', body: JSON.stringify(media('outra', 3)) });
+    const issued = await ana('/api/libraries/ana/media/foto/access-tokens', { method: 'POST' });
+    expect(issued.status).toBe(201);
+    const { token } = (await issued.json()) as { token: string };
+
+    const opened = await fetch(`${baseUrl}/api/libraries/ana/media/foto/content?access_token=${token}`);
+    expect(opened.status).toBe(200);
+    expect(await opened.text()).toBe('abc');
+    expect((await fetch(`${baseUrl}/api/libraries/ana/media/outra/content?access_token=${token}`)).status).toBe(401);
+    expect((await api(token)('/api/libraries/ana/media')).status).toBe(401);
+    // The session token itself is never taken from a URL.
+    expect((await fetch(`${baseUrl}/api/libraries/ana/media/foto/content?access_token=${sessionToken}`)).status).toBe(401);
+  });
+});
+
+describe('quota', () => {
+  it('reports the quota of each user', async () => {
+    const bia = api(await login('bia'));
+    expect(await (await bia('/api/libraries/bia/quota')).json()).toEqual({ quota: Math.round(0.001 * MB) });
+  });
+
+  it('refuses content past the quota with a 507', async () => {
+    const bia = api(await login('bia'));
+    // Content goes first, as the app sends it.
+    expect((await bia('/api/libraries/bia/media/a/content', { method: 'PUT', body: 'x'.repeat(1000) })).status).toBe(204);
+    await bia('/api/libraries/bia/media/a', { method: 'PUT', body: JSON.stringify(media('a', 1000)) });
+    const refused = await bia('/api/libraries/bia/media/b/content', { method: 'PUT', body: 'y'.repeat(100) });
+    expect(refused.status).toBe(507);
+    expect(((await refused.json()) as { error: string }).error).toMatch(/^Cota de armazenamento excedida/);
+  });
+
+  it('counts the bytes written rather than the size a record declares', async () => {
+    const bia = api(await login('bia'));
+    const saved = await bia('/api/libraries/bia/media/a', { method: 'PUT', body: JSON.stringify(media('a', 0)) });
+    expect(((await saved.json()) as { size: number }).size).toBe(1000);
+    expect((await bia('/api/libraries/bia/media/b/content', { method: 'PUT', body: 'y'.repeat(100) })).status).toBe(507);
+  });
+
+  it('counts posters, thumbnails and archived contents', async () => {
+    const bia = api(await login('bia'));
+    expect((await bia('/api/libraries/bia/media/a/thumbnail', { method: 'PUT', body: 't'.repeat(100) })).status).toBe(507);
+    const archived = 'z'.repeat(100);
+    const hash = createHash('sha256').update(archived).digest('hex');
+    expect((await bia(`/api/libraries/bia/media/a/revisions/${hash}`, { method: 'PUT', body: archived })).status).toBe(507);
+  });
+
+  it('gives back the space of replaced and deleted content', async () => {
+    const bia = api(await login('bia'));
+    expect((await bia('/api/libraries/bia/media/a/content', { method: 'PUT', body: 'x'.repeat(900) })).status).toBe(204);
+    expect((await bia('/api/libraries/bia/media/a/poster', { method: 'PUT', body: 'p'.repeat(100) })).status).toBe(204);
+    expect((await bia('/api/libraries/bia/media/a', { method: 'DELETE' })).status).toBe(204);
+    expect((await bia('/api/libraries/bia/media/b/content', { method: 'PUT', body: 'y'.repeat(1000) })).status).toBe(204);
+  });
+
+  it('keeps other users away from content uploaded before its record', async () => {
+    const ana = api(await login('ana'));
+    expect((await ana('/api/libraries/ana/media/b/content', { method: 'PUT', body: 'a' })).status).toBe(403);
+    expect((await ana('/api/libraries/ana/media/b', { method: 'DELETE' })).status).toBe(403);
+  });
+});
+
+describe('accounts', () => {
+  const register = (username: string, password = PASSWORD) =>
+    fetch(`${baseUrl}/api/users`, { method: 'POST', body: JSON.stringify({ username, password }) });
+
+  it('refuses usernames that cannot be part of a URL path', async () => {
+    expect((await register('ana/bia')).status).toBe(400);
+    expect((await register('..')).status).toBe(400);
+  });
+
+  it('ends earlier sessions when the password changes', async () => {
+    expect((await register('caio')).status).toBe(201);
+    const old = api(await login('caio'));
+    const changed = await old('/api/users/caio/password', { method: 'PUT', body: JSON.stringify({ currentPassword: PASSWORD, newPassword: 'outrasenha1' }) });
+    expect(changed.status).toBe(200);
+    const { token } = (await changed.json()) as { token: string };
+    expect((await old('/api/libraries/caio/media')).status).toBe(401);
+    expect((await api(token)('/api/libraries/caio/media')).status).toBe(200);
+  });
+
+  it('refuses the wrong current password', async () => {
+    expect((await register('davi')).status).toBe(201);
+    const davi = api(await login('davi'));
+    const refused = await davi('/api/users/davi/password', { method: 'PUT', body: JSON.stringify({ currentPassword: 'errada123', newPassword: 'outrasenha1' }) });
+    expect(refused.status).toBe(403);
+    expect((await davi('/api/libraries/davi/media')).status).toBe(200);
+  });
+
+  it('deletes the library with the account and keeps its sessions out of a new account of the same name', async () => {
+    expect((await register('eva')).status).toBe(201);
+    const eva = api(await login('eva'));
+    await eva('/api/libraries/eva/media/x/content', { method: 'PUT', body: 'abc' });
+    await eva('/api/libraries/eva/media/x', { method: 'PUT', body: JSON.stringify(media('x', 3)) });
+    expect((await eva('/api/users/eva', { method: 'DELETE', body: JSON.stringify({ password: 'errada123' }) })).status).toBe(403);
+    expect((await eva('/api/users/eva', { method: 'DELETE', body: JSON.stringify({ password: PASSWORD }) })).status).toBe(204);
+    expect((await eva('/api/libraries/eva/media')).status).toBe(401);
+    expect((await register('eva')).status).toBe(201);
+    expect((await eva('/api/libraries/eva/media')).status).toBe(401);
+    expect(await (await api(await login('eva'))('/api/libraries/eva/media')).json()).toEqual([]);
+  });
+});
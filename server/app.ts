@@ -0,0 +1,579 @@
+import http from 'node:http';
+import path from 'node:path';
+import { createHash, randomBytes } from 'node:crypto';
+import { MEDIA_TOKEN_TTL_MS, createMediaToken, createSessionToken, hashPassword, importSigningKey, readSessionToken, verifyPassword } from '../services/crypto';
+import { removeGps } from '../services/exif';
+import { removeVideoLocation } from '../services/mediaMetadata';
+import { DERIVED_MIME_TYPES, MediaVariant, getPasswordProblem } from '../services/storageAdapter';
+import { Album, MediaEvent } from '../types';
+import { createStore, Store, StoredMediaRecord, StoredShareLink } from './store';
+
+const MAX_BODY_BYTES = 200 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const readBody = (req: http.IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Payload too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const readJson = async <T,>(req: http.IncomingMessage): Promise<T> => {
+  try {
+    return JSON.parse((await readBody(req)).toString('utf8'));
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const sendHtml = (res: http.ServerResponse, status: number, title: string, body: string) => {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(`<!DOCTYPE html><html lang="pt-BR"><head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>${escapeHtml(title)} · GuardMídia</title></head>`
+    + `<body style="font-family:sans-serif;max-width:28rem;margin:4rem auto;padding:0 1rem;color:#222"><h1 style="font-size:1.25rem">${escapeHtml(title)}</h1>${body}</body></html>`);
+};
+
+// Types opened in place. A stored file has whatever type its uploader declared, so anything
+// else, SVG included since it can carry scripts, is sent as an attachment: other images and
+// videos keep their type, which <img> and <video> need, and the rest becomes a plain download.
+const INLINE_MIME_TYPES = new Set([
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif', 'image/bmp', 'image/heic', 'image/heif',
+  'video/mp4', 'video/webm', 'video/ogg', 'video/quicktime',
+]);
+
+// RFC 5987 encoding; encodeURIComponent leaves a few characters the header does not allow.
+const encodeFileName = (name: string) =>
+  encodeURIComponent(name).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// The policy keeps a file opened on its own from running or loading anything, whatever it turns out to be.
+const contentHeaders = (mimeType: string | undefined, name: string, cacheControl: string) => {
+  const type = mimeType?.split(';')[0].trim().toLowerCase() ?? '';
+  const inline = INLINE_MIME_TYPES.has(type);
+  return {
+    'Content-Type': inline || /^(image|video)\/[\w.+-]+$/.test(type) ? type : 'application/octet-stream',
+    'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeFileName(name)}`,
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': "default-src 'none'; img-src 'self'; media-src 'self'; style-src 'unsafe-inline'; sandbox",
+    'Cache-Control': cacheControl,
+  };
+};
+
+const sendContent = async (res: http.ServerResponse, store: Store, item: StoredMediaRecord, cacheControl: string, variant: MediaVariant = 'content') => {
+  if (!(await store.hasContent(item.id, variant))) throw new HttpError(404, 'Not found');
+  res.writeHead(200, variant === 'content'
+    ? contentHeaders(item.mimeType, item.name, cacheControl)
+    : contentHeaders(DERIVED_MIME_TYPES[variant], `${item.name}.jpg`, cacheControl));
+  store.readContent(item.id, variant).pipe(res);
+};
+
+// Copies reaching other people lose their location unless the owner chose to keep it. Both
+// strippers recognise their formats by the bytes, so the declared type cannot get a file past them.
+const sendSharedContent = async (res: http.ServerResponse, store: Store, item: StoredMediaRecord, cacheControl: string) => {
+  if (item.shareLocation) return sendContent(res, store, item, cacheControl);
+  if (!(await store.hasContent(item.id))) throw new HttpError(404, 'Not found');
+  const data = await store.readContentBuffer(item.id);
+  removeGps(data);
+  removeVideoLocation(data);
+  res.writeHead(200, { ...contentHeaders(item.mimeType, item.name, cacheControl), 'Content-Length': data.length });
+  res.end(data);
+};
+
+const toClientShareLink = ({ owner: _owner, passwordHash, ...link }: StoredShareLink) => ({
+  ...link,
+  hasPassword: Boolean(passwordHash),
+});
+
+// Why a share link can no longer be used, or null when it is still valid.
+const shareLinkProblem = (link: StoredShareLink): string | null => {
+  if (link.revoked) return 'Este link foi revogado.';
+  if (link.expiresAt && Date.parse(link.expiresAt) <= Date.now()) return 'Este link expirou.';
+  if (link.maxViews !== undefined && link.views >= link.maxViews) return 'Este link atingiu o limite de visualizações.';
+  return null;
+};
+
+// Wrong passwords a share link takes before refusing further attempts for a while.
+const SHARE_PASSWORD_MAX_FAILURES = 5;
+const SHARE_PASSWORD_LOCKOUT_MS = 15 * 60 * 1000;
+
+const passwordForm = (token: string, error?: string) =>
+  `${error ? `<p style="color:#c00">${escapeHtml(error)}</p>` : '<p>Este conteúdo é protegido por senha.</p>'}`
+  + `<form method="POST" action="/s/${encodeURIComponent(token)}"><input type="password" name="password" placeholder="Senha" autofocus required style="padding:.5rem;width:100%;box-sizing:border-box">`
+  + `<button type="submit" style="margin-top:.5rem;padding:.5rem 1rem">Abrir</button></form>`;
+
+// Only the host of the referring page is kept; full referrer URLs can carry private paths and tokens.
+const referrerHost = (req: http.IncomingMessage): string | undefined => {
+  try {
+    const host = new URL(req.headers.referer ?? '').host;
+    // The password form posts back to the link itself, which says nothing about where it came from.
+    return host && host !== req.headers.host ? host : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const logHit = (store: Store, req: http.IncomingMessage, item: StoredMediaRecord, type: 'share' | 'public') =>
+  store.logEvents(item.owner, [{ mediaId: item.id, type, date: new Date().toISOString(), referrer: referrerHost(req) }]);
+
+// Events the app may report itself; link hits are only ever logged by the server.
+const CLIENT_EVENT_TYPES: MediaEvent['type'][] = ['view', 'download'];
+
+const toMb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1).replace('.', ',');
+
+// Usage is what the server wrote to disk, so no field of a record can hide bytes from the quota.
+// `added` is the growth a write causes: a replaced variant gives back what it held.
+const assertWithinQuota = (store: Store, owner: string, added: number) => {
+  const quota = store.getQuota(owner);
+  const used = store.usedBytes(owner);
+  if (quota === null || added < 0 || used + added <= quota) return;
+  throw new HttpError(507, added > 0
+    ? `Cota de armazenamento excedida: ${toMb(used)} MB de ${toMb(quota)} MB em uso, e o arquivo tem ${toMb(added)} MB.`
+    : `Cota de armazenamento excedida: ${toMb(used)} MB de ${toMb(quota)} MB em uso.`);
+};
+
+const isSafeSegment = (value: string) => value.length > 0 && value !== '.' && value !== '..' && !/[\/\\\0]/.test(value);
+
+// An id belongs to whoever first stored something under it: the record or, before it, the content.
+const assertWritableMedia = (store: Store, owner: string, id: string) => {
+  const holder = store.getMedia(id)?.owner ?? store.getUsage(id)?.owner;
+  if (holder && holder !== owner) throw new HttpError(403, 'Media belongs to another library');
+};
+
+const requireOwnedMedia = (store: Store, owner: string, id: string) => {
+  const item = store.getMedia(id);
+  if (!item || item.owner !== owner) throw new HttpError(404, 'Not found');
+  return item;
+};
+
+// Checks a password against a stored user, upgrading accounts that still hold a plaintext password.
+const checkPassword = async (store: Store, username: string, password: string): Promise<boolean> => {
+  const user = store.getUser(username);
+  if (!user) return false;
+  if (user.passwordHash) return verifyPassword(password, user.passwordHash);
+  if (user.password === undefined || user.password !== password) return false;
+  await store.putUser(username, await hashPassword(password));
+  return true;
+};
+
+type Route = {
+  method: string;
+  pattern: RegExp;
+  // When set, the first URL parameter is a username and the request must carry that user's session.
+  requiresOwner?: boolean;
+  // When set, the second URL parameter is a media id, and a token for that item alone may stand in
+  // for the session as the `access_token` query parameter.
+  acceptsMediaToken?: boolean;
+  handler: (req: http.IncomingMessage, res: http.ServerResponse, params: string[], session: string | null) => Promise<void>;
+};
+
+const createRoutes = (store: Store, signingKey: CryptoKey): Route[] => {
+  // Password attempts per share token, kept in memory: a restart only resets the wait.
+  const shareAttempts = new Map<string, { failures: number; since: number }>();
+
+  return [
+    {
+      method: 'POST',
+      pattern: /^\/api\/users$/,
+      handler: async (req, res) => {
+        const { username, password } = await readJson<{ username?: string; password?: string }>(req);
+        if (!username || !password) throw new HttpError(400, 'username and password are required');
+        // Usernames are URL segments of every library route.
+        if (!isSafeSegment(username)) throw new HttpError(400, 'Invalid username');
+        const problem = getPasswordProblem(password);
+        if (problem) throw new HttpError(400, problem);
+        if (store.getUser(username)) throw new HttpError(409, 'User already exists');
+        await store.putUser(username, await hashPassword(password));
+        sendJson(res, 201, { username });
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/sessions$/,
+      handler: async (req, res) => {
+        const { username, password } = await readJson<{ username?: string; password?: string }>(req);
+        if (!username || !password || !(await checkPassword(store, username, password))) {
+          throw new HttpError(401, 'Invalid credentials');
+        }
+        sendJson(res, 201, { token: await createSessionToken(signingKey, username, store.getUser(username)?.passwordChangedAt) });
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/sessions\/current$/,
+      handler: async (_req, res, _params, session) => {
+        if (!session) throw new HttpError(401, 'Not authenticated');
+        sendJson(res, 200, { username: session });
+      },
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/api\/users\/([^/]+)\/password$/,
+      requiresOwner: true,
+      handler: async (req, res, [username]) => {
+        const { currentPassword, newPassword } = await readJson<{ currentPassword?: string; newPassword?: string }>(req);
+        if (!currentPassword || !newPassword) throw new HttpError(400, 'currentPassword and newPassword are required');
+        const problem = getPasswordProblem(newPassword);
+        if (problem) throw new HttpError(400, problem);
+        if (!(await checkPassword(store, username, currentPassword))) throw new HttpError(403, 'Wrong password');
+        await store.putUser(username, await hashPassword(newPassword));
+        // Earlier sessions, this one included, end with the old password.
+        sendJson(res, 200, { token: await createSessionToken(signingKey, username, store.getUser(username)?.passwordChangedAt) });
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/api\/users\/([^/]+)$/,
+      requiresOwner: true,
+      handler: async (req, res, [username]) => {
+        const { password } = await readJson<{ password?: string }>(req);
+        if (!password || !(await checkPassword(store, username, password))) throw new HttpError(403, 'Wrong password');
+        await store.deleteUser(username);
+        res.writeHead(204).end();
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/libraries\/([^/]+)\/media$/,
+      requiresOwner: true,
+      handler: async (_req, res, [owner]) => {
+        sendJson(res, 200, store.listMedia(owner));
+      },
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/api\/libraries\/([^/]+)\/media\/([^/]+)$/,
+      requiresOwner: true,
+      handler: async (req, res, [owner, id]) => {
+        const body = await readJson<{ id?: string; publicId?: string; size?: number }>(req);
+        if (body.id !== id) throw new HttpError(400, 'Body id does not match the URL');
+        assertWritableMedia(store, owner, id);
+        if (body.publicId) {
+          const holder = store.findByPublicId(body.publicId);
+          if (holder && holder.id !== id) throw new HttpError(409, 'Public id already in use');
+        }
+        // Edits stay possible over the quota, so space can be freed; new items do not.
+        if (!store.getMedia(id)) assertWithinQuota(store, owner, 0);
+        const stored = store.getUsage(id)?.variants.content;
+        const item = stored === undefined ? body : { ...body, size: stored };
+        await store.putMedia(owner, item as Parameters<Store['putMedia']>[1]);
+        sendJson(res, 200, item);
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/api\/libraries\/([^/]+)\/media\/([^/]+)$/,
+      requiresOwner: true,
+      handler: async (_req, res, [owner, id]) => {
+        assertWritableMedia(store, owner, id);
+        await store.deleteMedia(id);
+        res.writeHead(204).end();
+      },
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/api\/libraries\/([^/]+)\/media\/([^/]+)\/(content|poster|thumbnail)$/,
+      requiresOwner: true,
+      handler: async (req, res, [owner, id, variant]) => {
+        assertWritableMedia(store, owner, id);
+        const data = await readBody(req);
+        assertWithinQuota(store, owner, data.length - (store.getUsage(id)?.variants[variant as MediaVariant] ?? 0));
+        await store.writeContent(owner, id, data, variant as MediaVariant);
+        res.writeHead(204).end();
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/libraries\/([^/]+)\/media\/([^/]+)\/(content|poster|thumbnail)$/,
+      requiresOwner: true,
+      acceptsMediaToken: true,
+      handler: async (_req, res, [owner, id, variant]) => {
+        await sendContent(res, store, requireOwnedMedia(store, owner, id), 'private, no-cache', variant as MediaVariant);
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/libraries\/([^/]+)\/media\/([^/]+)\/access-tokens$/,
+      requiresOwner: true,
+      handler: async (_req, res, [owner, id]) => {
+        requireOwnedMedia(store, owner, id);
+        const token = await createMediaToken(signingKey, owner, id, store.getUser(owner)?.passwordChangedAt);
+        sendJson(res, 201, { token, expiresAt: new Date(Date.now() + MEDIA_TOKEN_TTL_MS).toISOString() });
+      },
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/api\/libraries\/([^/]+)\/media\/([^/]+)\/revisions\/([0-9a-f]{64})$/,
+      requiresOwner: true,
+      handler: async (req, res, [owner, id, hash]) => {
+        assertWritableMedia(store, owner, id);
+        const data = await readBody(req);
+        // Revisions are addressed by their hash, so a mismatch would silently corrupt the history.
+        if (createHash('sha256').update(data).digest('hex') !== hash) throw new HttpError(400, 'Content does not match its hash');
+        // Content under a hash never changes, so one already archived is neither rewritten nor counted again.
+        if (store.getUsage(id)?.revisions[hash] === undefined) {
+          assertWithinQuota(store, owner, data.length);
+          await store.writeRevisionContent(owner, id, hash, data);
+        }
+        res.writeHead(204).end();
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/libraries\/([^/]+)\/media\/([^/]+)\/revisions\/([0-9a-f]{64})$/,
+      requiresOwner: true,
+      handler: async (_req, res, [owner, id, hash]) => {
+        const item = requireOwnedMedia(store, owner, id);
+        if (!(await store.hasRevisionContent(id, hash))) throw new HttpError(404, 'Not found');
+        const revision = item.revisions?.find(candidate => candidate.snapshot.contentHash === hash);
+        // Content under a hash never changes.
+        res.writeHead(200, contentHeaders(revision?.snapshot.mimeType, revision?.snapshot.name ?? item.name, 'private, max-age=31536000, immutable'));
+        store.readRevisionContent(id, hash).pipe(res);
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/libraries\/([^/]+)\/albums$/,
+      requiresOwner: true,
+      handler: async (_req, res, [owner]) => {
+        sendJson(res, 200, store.listAlbums(owner));
+      },
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/api\/libraries\/([^/]+)\/albums\/([^/]+)$/,
+      requiresOwner: true,
+      handler: async (req, res, [owner, id]) => {
+        const album = await readJson<Album>(req);
+        if (album.id !== id) throw new HttpError(400, 'Body id does not match the URL');
+        const existing = store.getAlbum(id);
+        if (existing && existing.owner !== owner) throw new HttpError(403, 'Album belongs to another library');
+        await store.putAlbum(owner, album);
+        sendJson(res, 200, album);
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/api\/libraries\/([^/]+)\/albums\/([^/]+)$/,
+      requiresOwner: true,
+      handler: async (_req, res, [owner, id]) => {
+        const existing = store.getAlbum(id);
+        if (existing && existing.owner !== owner) throw new HttpError(403, 'Album belongs to another library');
+        await store.deleteAlbum(id);
+        res.writeHead(204).end();
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/libraries\/([^/]+)\/quota$/,
+      requiresOwner: true,
+      handler: async (_req, res, [owner]) => {
+        sendJson(res, 200, { quota: store.getQuota(owner) });
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/libraries\/([^/]+)\/events$/,
+      requiresOwner: true,
+      handler: async (_req, res, [owner]) => {
+        sendJson(res, 200, store.listEvents(owner));
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/libraries\/([^/]+)\/events$/,
+      requiresOwner: true,
+      handler: async (req, res, [owner]) => {
+        const events = await readJson<MediaEvent[]>(req);
+        if (!Array.isArray(events)) throw new HttpError(400, 'Expected an array of events');
+        const valid = events.every(event => CLIENT_EVENT_TYPES.includes(event?.type) && typeof event.mediaId === 'string'
+          && !Number.isNaN(Date.parse(event.date)));
+        if (!valid) throw new HttpError(400, 'Invalid event');
+        events.forEach(event => requireOwnedMedia(store, owner, event.mediaId));
+        await store.logEvents(owner, events.map(({ mediaId, type, date }) => ({ mediaId, type, date })));
+        res.writeHead(204).end();
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/libraries\/([^/]+)\/media\/([^/]+)\/shares$/,
+      requiresOwner: true,
+      handler: async (_req, res, [owner, id]) => {
+        requireOwnedMedia(store, owner, id);
+        sendJson(res, 200, store.listShareLinks(id).map(toClientShareLink));
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/libraries\/([^/]+)\/media\/([^/]+)\/shares$/,
+      requiresOwner: true,
+      handler: async (req, res, [owner, id]) => {
+        requireOwnedMedia(store, owner, id);
+        const { expiresAt, maxViews, password } = await readJson<{ expiresAt?: string; maxViews?: number; password?: string }>(req);
+        if (expiresAt !== undefined && Number.isNaN(Date.parse(expiresAt))) throw new HttpError(400, 'Invalid expiresAt');
+        if (maxViews !== undefined && (!Number.isInteger(maxViews) || maxViews < 1)) throw new HttpError(400, 'Invalid maxViews');
+        const link: StoredShareLink = {
+          token: randomBytes(16).toString('base64url'),
+          mediaId: id,
+          owner,
+          createdAt: new Date().toISOString(),
+          expiresAt,
+          maxViews,
+          views: 0,
+          revoked: false,
+          passwordHash: password ? await hashPassword(password) : undefined,
+        };
+        await store.putShareLink(link);
+        sendJson(res, 201, toClientShareLink(link));
+      },
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/api\/libraries\/([^/]+)\/shares\/([^/]+)$/,
+      requiresOwner: true,
+      handler: async (_req, res, [owner, token]) => {
+        const link = store.getShareLink(token);
+        if (!link || link.owner !== owner) throw new HttpError(404, 'Not found');
+        // Revoked links are kept so their view counts stay visible to the owner.
+        await store.putShareLink({ ...link, revoked: true });
+        res.writeHead(204).end();
+      },
+    },
+    {
+      method: 'GET',
+      pattern: /^\/s\/([^/]+)$/,
+      handler: async (req, res, [token]) => {
+        const link = store.getShareLink(token);
+        const item = link && store.getMedia(link.mediaId);
+        // Items in the trash are hidden from everyone but their owner.
+        if (!link || !item || item.deletedAt) return sendHtml(res, 404, 'Link não encontrado', '<p>Este link não existe.</p>');
+        const problem = shareLinkProblem(link);
+        if (problem) return sendHtml(res, 410, 'Link indisponível', `<p>${escapeHtml(problem)}</p>`);
+        if (link.passwordHash) return sendHtml(res, 200, item.name, passwordForm(token));
+        await store.putShareLink({ ...link, views: link.views + 1 });
+        await logHit(store, req, item, 'share');
+        await sendSharedContent(res, store, item, 'no-store');
+      },
+    },
+    {
+      method: 'POST',
+      pattern: /^\/s\/([^/]+)$/,
+      handler: async (req, res, [token]) => {
+        const link = store.getShareLink(token);
+        const item = link && store.getMedia(link.mediaId);
+        if (!link || !item || item.deletedAt) return sendHtml(res, 404, 'Link não encontrado', '<p>Este link não existe.</p>');
+        const problem = shareLinkProblem(link);
+        if (problem) return sendHtml(res, 410, 'Link indisponível', `<p>${escapeHtml(problem)}</p>`);
+        if (link.passwordHash) {
+          const now = Date.now();
+          const previous = shareAttempts.get(token);
+          const attempts = previous && now - previous.since < SHARE_PASSWORD_LOCKOUT_MS ? previous : { failures: 0, since: now };
+          if (attempts.failures >= SHARE_PASSWORD_MAX_FAILURES) {
+            return sendHtml(res, 429, item.name, '<p>Muitas tentativas com a senha errada. Tente novamente mais tarde.</p>');
+          }
+          // Counted before checking, so guesses sent at the same time cannot get past the limit.
+          shareAttempts.set(token, { ...attempts, failures: attempts.failures + 1 });
+          const password = new URLSearchParams((await readBody(req)).toString('utf8')).get('password') ?? '';
+          if (!(await verifyPassword(password, link.passwordHash))) {
+            return sendHtml(res, 403, item.name, passwordForm(token, 'Senha incorreta.'));
+          }
+          shareAttempts.delete(token);
+        }
+        // The link may have been revoked or used up while the password was being checked.
+        const current = store.getShareLink(token);
+        if (!current) return sendHtml(res, 404, 'Link não encontrado', '<p>Este link não existe.</p>');
+        const lateProblem = shareLinkProblem(current);
+        if (lateProblem) return sendHtml(res, 410, 'Link indisponível', `<p>${escapeHtml(lateProblem)}</p>`);
+        await store.putShareLink({ ...current, views: current.views + 1 });
+        await logHit(store, req, item, 'share');
+        await sendSharedContent(res, store, item, 'no-store');
+      },
+    },
+    {
+      // Public short links: /m/<publicId>.<ext>. The extension is cosmetic, for forums that sniff it.
+      method: 'GET',
+      pattern: /^\/m\/([^/.]+)(?:\.[A-Za-z0-9]+)?$/,
+      handler: async (req, res, [publicId]) => {
+        const item = store.findByPublicId(publicId);
+        if (!item || !item.isPublic || item.deletedAt) throw new HttpError(404, 'Not found');
+        await logHit(store, req, item, 'public');
+        await sendSharedContent(res, store, item, 'public, max-age=300');
+      },
+    },
+  ];
+};
+
+/** The storage server for the data in `dataDir`, ready to listen. */
+export const createServer = async (dataDir: string) => {
+  const store = await createStore(dataDir);
+  const signingKey = await importSigningKey(store.secret);
+  const routes = createRoutes(store, signingKey);
+
+  const server = http.createServer(async (req, res) => {
+    // The web app is served from a different origin (Vite), so the API is open to CORS.
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    try {
+      for (const route of routes) {
+        const match = route.pattern.exec(url.pathname);
+        if (!match || route.method !== req.method) continue;
+        const params = match.slice(1).map(decodeURIComponent);
+        if (!params.every(isSafeSegment)) throw new HttpError(400, 'Invalid identifier');
+        // Media elements cannot send headers, so they carry a token for their item in the query string.
+        const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+        const mediaToken = route.acceptsMediaToken ? url.searchParams.get('access_token') : null;
+        const claimed = bearer ? await readSessionToken(signingKey, bearer)
+          : mediaToken ? await readSessionToken(signingKey, mediaToken) : null;
+        // Tokens of deleted users, or from before the last password change, no longer count.
+        const user = claimed && store.getUser(claimed.username);
+        const current = user && (user.passwordChangedAt ?? 0) === claimed.version;
+        const session = current && claimed.mediaId === (bearer ? undefined : params[1]) ? claimed.username : null;
+        if (route.requiresOwner && session !== params[0]) throw new HttpError(401, 'Not authenticated');
+        await route.handler(req, res, params, session);
+        return;
+      }
+      throw new HttpError(404, 'Not found');
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      if ((error as NodeJS.ErrnoException).code === 'ENOSPC') {
+        sendJson(res, 507, { error: 'Espaço de armazenamento do servidor esgotado.' });
+        return;
+      }
+      console.error(error);
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  });
+
+  return server;
+};
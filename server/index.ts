@@ -0,0 +1,16 @@
+import path from 'node:path';
+import { createServer } from './app';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = path.resolve(process.env.GUARDMIDIA_DATA_DIR || 'data');
+
+createServer(DATA_DIR)
+  .then(server => {
+    server.listen(PORT, () => {
+      console.log(`GuardMídia storage server listening on http://localhost:${PORT} (data in ${DATA_DIR})`);
+    });
+  })
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,260 @@
+import { randomBytes } from 'node:crypto';
+import { promises as fs, createReadStream } from 'node:fs';
+import path from 'node:path';
+import { Album, MediaEvent, MediaFile, ShareLink } from '../types';
+import { MediaVariant } from '../services/storageAdapter';
+import { DEFAULT_QUOTA, quotaFromMb } from '../services/quota';
+
+export type StoredMediaRecord = MediaFile & { owner: string };
+
+export type StoredAlbum = Album & { owner: string };
+
+export type StoredShareLink = Omit<ShareLink, 'url' | 'hasPassword'> & { owner: string; passwordHash?: string };
+
+export type StoredMediaEvent = MediaEvent & { owner: string };
+
+// Bytes on disk for one id, per variant and per archived content hash. Kept apart from the
+// record, whose `size` is whatever the app sent, and created by the first write, which may
+// come before the record itself.
+export type StoredUsage = { owner: string; variants: Partial<Record<MediaVariant, number>>; revisions: Record<string, number> };
+
+// `password` is the plaintext kept by versions before hashing; it is replaced on the next login.
+// `quotaMb` overrides STORAGE_QUOTA_MB for one user and is set by editing the index by hand.
+// `passwordChangedAt` goes into session tokens, so setting a password revokes earlier sessions.
+export type StoredUser = { passwordHash?: string; password?: string; quotaMb?: number; passwordChangedAt?: number };
+
+type Index = {
+  users: Record<string, StoredUser>;
+  media: Record<string, StoredMediaRecord>;
+  shares: Record<string, StoredShareLink>;
+  albums: Record<string, StoredAlbum>;
+  usage: Record<string, StoredUsage>;
+};
+
+const emptyIndex = (): Index => ({ users: {}, media: {}, shares: {}, albums: {}, usage: {} });
+
+const sum = (values: Record<string, number | undefined>) => Object.values(values).reduce<number>((total, bytes) => total + (bytes ?? 0), 0);
+
+const VARIANTS: MediaVariant[] = ['content', 'poster', 'thumbnail'];
+
+/**
+ * File system store: binary content under `files/`, derived images such as video posters
+ * and thumbnails in a directory per variant, earlier contents under `revisions/<id>/<hash>`,
+ * everything else in a single `index.json` that is rewritten atomically after each change.
+ * The analytics log grows with every hit, so it is appended to `events.jsonl` instead.
+ */
+export const createStore = async (dataDir: string) => {
+  const variantDir = (variant: MediaVariant) => path.join(dataDir, variant === 'content' ? 'files' : `${variant}s`);
+  const indexPath = path.join(dataDir, 'index.json');
+  const secretPath = path.join(dataDir, 'secret.key');
+  const revisionDir = (id: string) => path.join(dataDir, 'revisions', encodeURIComponent(id));
+  for (const variant of VARIANTS) await fs.mkdir(variantDir(variant), { recursive: true });
+
+  // Signs session tokens; generated on first start so restarts keep existing sessions valid.
+  let secret: Buffer;
+  try {
+    secret = await fs.readFile(secretPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    secret = randomBytes(32);
+    await fs.writeFile(secretPath, secret, { mode: 0o600 });
+  }
+
+  let index: Index;
+  try {
+    index = { ...emptyIndex(), ...JSON.parse(await fs.readFile(indexPath, 'utf8')) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    index = emptyIndex();
+  }
+
+  const eventsPath = path.join(dataDir, 'events.jsonl');
+  let events: StoredMediaEvent[];
+  try {
+    events = (await fs.readFile(eventsPath, 'utf8')).split('\n').filter(Boolean).map(line => JSON.parse(line));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    events = [];
+  }
+
+  // Writes are chained so concurrent requests never interleave partial index files.
+  let pendingWrite: Promise<void> = Promise.resolve();
+  const persist = () => {
+    pendingWrite = pendingWrite.then(async () => {
+      const tmpPath = `${indexPath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(index, null, 2));
+      await fs.rename(tmpPath, indexPath);
+    });
+    return pendingWrite;
+  };
+
+  let pendingEventWrite: Promise<void> = Promise.resolve();
+  const appendEvents = (added: StoredMediaEvent[]) => {
+    pendingEventWrite = pendingEventWrite.then(() => fs.appendFile(eventsPath, added.map(event => `${JSON.stringify(event)}\n`).join('')));
+    return pendingEventWrite;
+  };
+  const rewriteEvents = () => {
+    pendingEventWrite = pendingEventWrite.then(async () => {
+      const tmpPath = `${eventsPath}.tmp`;
+      await fs.writeFile(tmpPath, events.map(event => `${JSON.stringify(event)}\n`).join(''));
+      await fs.rename(tmpPath, eventsPath);
+    });
+    return pendingEventWrite;
+  };
+
+  const contentPath = (id: string, variant: MediaVariant = 'content') => path.join(variantDir(variant), encodeURIComponent(id));
+
+  const sizeOf = async (file: string) => {
+    try {
+      return (await fs.stat(file)).size;
+    } catch {
+      return undefined;
+    }
+  };
+
+  // Indexes written before usage was tracked: measure what their items already hold on disk.
+  const unmeasured = Object.values(index.media).filter(record => !index.usage[record.id]);
+  for (const { id, owner } of unmeasured) {
+    const usage: StoredUsage = { owner, variants: {}, revisions: {} };
+    for (const variant of VARIANTS) usage.variants[variant] = await sizeOf(contentPath(id, variant));
+    const hashes = await fs.readdir(revisionDir(id)).catch(() => [] as string[]);
+    for (const hash of hashes) usage.revisions[hash] = await sizeOf(path.join(revisionDir(id), hash)) ?? 0;
+    index.usage[id] = usage;
+  }
+
+  const usageFor = (owner: string, id: string) => {
+    index.usage[id] ??= { owner, variants: {}, revisions: {} };
+    return index.usage[id];
+  };
+
+  const deleteMediaRecords = async (ids: string[]) => {
+    for (const id of ids) {
+      delete index.media[id];
+      delete index.usage[id];
+      Object.values(index.shares)
+        .filter(link => link.mediaId === id)
+        .forEach(link => { delete index.shares[link.token]; });
+      for (const variant of VARIANTS) await fs.rm(contentPath(id, variant), { force: true });
+      await fs.rm(revisionDir(id), { recursive: true, force: true });
+    }
+  };
+
+  return {
+    secret,
+
+    getUser: (username: string) => index.users[username] ?? null,
+    putUser: (username: string, passwordHash: string) => {
+      const { password: _plaintext, ...user } = index.users[username] ?? {};
+      index.users[username] = { ...user, passwordHash, passwordChangedAt: Date.now() };
+      return persist();
+    },
+    getQuota: (username: string) => {
+      const quotaMb = index.users[username]?.quotaMb;
+      return typeof quotaMb === 'number' ? quotaFromMb(quotaMb) : DEFAULT_QUOTA;
+    },
+    deleteUser: async (username: string) => {
+      delete index.users[username];
+      const ids = new Set([
+        ...Object.values(index.media).filter(record => record.owner === username).map(record => record.id),
+        // Content uploaded without a record is only known by its usage entry.
+        ...Object.entries(index.usage).filter(([, usage]) => usage.owner === username).map(([id]) => id),
+      ]);
+      await deleteMediaRecords([...ids]);
+      Object.values(index.albums)
+        .filter(album => album.owner === username)
+        .forEach(album => { delete index.albums[album.id]; });
+      await persist();
+      events = events.filter(event => event.owner !== username);
+      await rewriteEvents();
+    },
+
+    listMedia: (owner: string) =>
+      Object.values(index.media)
+        .filter(record => record.owner === owner)
+        .map(({ owner: _owner, ...item }) => item)
+        .sort((a, b) => b.uploadDate.localeCompare(a.uploadDate)),
+    getMedia: (id: string) => index.media[id] ?? null,
+    findByPublicId: (publicId: string) =>
+      Object.values(index.media).find(record => record.publicId === publicId) ?? null,
+    putMedia: (owner: string, item: MediaFile) => {
+      index.media[item.id] = { ...item, owner };
+      return persist();
+    },
+    deleteMedia: async (id: string) => {
+      await deleteMediaRecords([id]);
+      await persist();
+    },
+
+    listAlbums: (owner: string) =>
+      Object.values(index.albums)
+        .filter(album => album.owner === owner)
+        .map(({ owner: _owner, ...album }) => album)
+        .sort((a, b) => a.order - b.order),
+    getAlbum: (id: string) => index.albums[id] ?? null,
+    putAlbum: (owner: string, album: Album) => {
+      index.albums[album.id] = { ...album, owner };
+      return persist();
+    },
+    deleteAlbum: (id: string) => {
+      delete index.albums[id];
+      return persist();
+    },
+
+    listShareLinks: (mediaId: string) =>
+      Object.values(index.shares)
+        .filter(link => link.mediaId === mediaId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    getShareLink: (token: string) => index.shares[token] ?? null,
+    putShareLink: (link: StoredShareLink) => {
+      index.shares[link.token] = link;
+      return persist();
+    },
+
+    listEvents: (owner: string) => events.filter(event => event.owner === owner).map(({ owner: _owner, ...event }) => event),
+    logEvents: (owner: string, added: MediaEvent[]) => {
+      const stored = added.map(event => ({ ...event, owner }));
+      events.push(...stored);
+      return appendEvents(stored);
+    },
+
+    getUsage: (id: string) => index.usage[id] ?? null,
+    usedBytes: (owner: string) =>
+      Object.values(index.usage)
+        .filter(usage => usage.owner === owner)
+        .reduce((total, usage) => total + sum(usage.variants) + sum(usage.revisions), 0),
+
+    writeContent: async (owner: string, id: string, data: Buffer, variant: MediaVariant = 'content') => {
+      await fs.writeFile(contentPath(id, variant), data);
+      usageFor(owner, id).variants[variant] = data.length;
+      await persist();
+    },
+    hasContent: async (id: string, variant?: MediaVariant) => {
+      try {
+        await fs.access(contentPath(id, variant));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    readContent: (id: string, variant?: MediaVariant) => createReadStream(contentPath(id, variant)),
+    readContentBuffer: (id: string, variant?: MediaVariant) => fs.readFile(contentPath(id, variant)),
+
+    writeRevisionContent: async (owner: string, id: string, hash: string, data: Buffer) => {
+      await fs.mkdir(revisionDir(id), { recursive: true });
+      await fs.writeFile(path.join(revisionDir(id), hash), data);
+      usageFor(owner, id).revisions[hash] = data.length;
+      await persist();
+    },
+    hasRevisionContent: async (id: string, hash: string) => {
+      try {
+        await fs.access(path.join(revisionDir(id), hash));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    readRevisionContent: (id: string, hash: string) => createReadStream(path.join(revisionDir(id), hash)),
+  };
+};
+
+export type Store = Awaited<ReturnType<typeof createStore>>;
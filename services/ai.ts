@@ -0,0 +1,30 @@
+import { AiProvider, AiSettings } from './aiProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockAiProvider } from './mockAiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+
+if (!process.env.API_KEY) {
+  console.warn(
+    "API_KEY environment variable not set. The Gemini AI provider will be disabled."
+  );
+}
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: '',
+  embeddingModel: '',
+  language: 'pt-BR',
+  endpoint: '',
+  apiKey: '',
+};
+
+export const createAiProvider = (settings: AiSettings): AiProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiProvider(settings);
+    case 'mock':
+      return createMockAiProvider(settings);
+    default:
+      return createGeminiProvider({ ...settings, apiKey: process.env.API_KEY });
+  }
+};
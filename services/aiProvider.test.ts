@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createAiProvider, DEFAULT_AI_SETTINGS } from './ai';
+import { AiProvider, AiUnavailableError, ImageAnalysisResult, analyzeVideoFrames, buildPrompt, parseAnalysis } from './aiProvider';
+import { createMockAiProvider } from './mockAiProvider';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseAnalysis', () => {
+  it('reads the fields of a plain JSON answer', () => {
+    const answer = JSON.stringify({ tags: [' praia ', 'mar'], caption: 'Uma praia.', altText: 'Praia', text: '', colors: ['#AABBCC'] });
+    expect(parseAnalysis(answer)).toEqual({
+      tags: ['praia', 'mar'],
+      analysis: { caption: 'Uma praia.', altText: 'Praia', text: '', colors: ['#aabbcc'] },
+    });
+  });
+
+  it('unwraps answers fenced as a code block', () => {
+    expect(parseAnalysis('```json\n{"tags": ["gato"]}\n```').tags).toEqual(['gato']);
+    expect(parseAnalysis('```\n{"tags": ["gato"]}\n```').tags).toEqual(['gato']);
+  });
+
+  it('fails without tags', () => {
+    expect(() => parseAnalysis(JSON.stringify({ caption: 'Sem tags' }))).toThrow('A resposta da IA não trouxe tags.');
+    expect(() => parseAnalysis(JSON.stringify({ tags: ['', 3] }))).toThrow('A resposta da IA não trouxe tags.');
+    expect(() => parseAnalysis(undefined)).toThrow('A resposta da IA não trouxe tags.');
+  });
+
+  it('drops colours that are not #rrggbb codes and fields of the wrong type', () => {
+    const { analysis } = parseAnalysis(JSON.stringify({ tags: ['céu'], caption: 42, colors: ['azul', '#12345', '#123456', 7] }));
+    expect(analysis).toEqual({ caption: '', altText: '', text: '', colors: ['#123456'] });
+  });
+});
+
+describe('buildPrompt', () => {
+  it('answers in the chosen language', () => {
+    expect(buildPrompt('pt-BR', false)).toContain('português do Brasil');
+    expect(buildPrompt('en', false)).toContain('Answer in English');
+  });
+
+  it('spells out the fields only when asked', () => {
+    expect(buildPrompt('en', false)).not.toContain('JSON');
+    const prompt = buildPrompt('en', true);
+    ['"tags"', '"caption"', '"altText"', '"text"', '"colors"'].forEach(field => expect(prompt).toContain(field));
+  });
+});
+
+describe('analyzeVideoFrames', () => {
+  const result = (tags: string[], text = ''): ImageAnalysisResult => ({ tags, analysis: { caption: tags[0], altText: tags[0], text, colors: [] } });
+  const providerFor = (answers: (ImageAnalysisResult | Error)[]): AiProvider => ({
+    analyzeImage: async (data) => {
+      const answer = answers[Number(data)];
+      if (answer instanceof Error) throw answer;
+      return answer;
+    },
+    embeddingModel: 'test',
+    embed: async () => [],
+  });
+  const frames = (count: number) => Array.from({ length: count }, (_, index) => ({ data: String(index), mimeType: 'image/jpeg' }));
+
+  it('ranks tags by the number of frames they appear in', async () => {
+    const provider = providerFor([result(['mar', 'barco'], 'PORTO'), result(['Barco', 'céu']), result(['barco', 'mar'], 'PORTO')]);
+    const { tags, analysis } = await analyzeVideoFrames(provider, frames(3));
+    expect(tags).toEqual(['barco', 'mar', 'céu']);
+    expect(analysis.caption).toBe('mar');
+    expect(analysis.text).toBe('PORTO');
+  });
+
+  it('skips frames that fail while another succeeds', async () => {
+    const provider = providerFor([new Error('quadro ruim'), result(['rua'])]);
+    expect((await analyzeVideoFrames(provider, frames(2))).tags).toEqual(['rua']);
+  });
+
+  it('fails with the first error when no frame succeeds', async () => {
+    const unavailable = new AiUnavailableError('sem chave');
+    await expect(analyzeVideoFrames(providerFor([unavailable, new Error('outro')]), frames(2))).rejects.toBe(unavailable);
+    await expect(analyzeVideoFrames(providerFor([]), [])).rejects.toThrow('Nenhum quadro do vídeo para analisar.');
+  });
+});
+
+describe('mockAiProvider', () => {
+  const mock = createMockAiProvider({ language: 'en' });
+
+  it('gives the same image the same analysis', async () => {
+    const first = await mock.analyzeImage('aGVsbG8=', 'image/png');
+    expect(await mock.analyzeImage('aGVsbG8=', 'image/png')).toEqual(first);
+    expect(first.tags.length).toBeGreaterThan(0);
+    expect(first.analysis.colors[0]).toMatch(/^#[0-9a-f]{6}$/);
+    expect(first.analysis.caption).toMatch(/^Test image about /);
+  });
+
+  it('embeds texts that share words closer than texts that do not', async () => {
+    const [query, related, unrelated] = await mock.embed(['beach sunset', 'sunset at the beach', 'invoice'], 'document');
+    const dot = (a: number[], b: number[]) => a.reduce((total, value, index) => total + value * b[index], 0);
+    expect(query).toHaveLength(64);
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+  });
+});
+
+describe('createAiProvider', () => {
+  it('builds the provider the settings name', () => {
+    expect(createAiProvider({ ...DEFAULT_AI_SETTINGS, provider: 'mock' }).embeddingModel).toBe('mock');
+    const openAi = createAiProvider({ ...DEFAULT_AI_SETTINGS, provider: 'openai', endpoint: 'http://localhost:11434/v1/', embeddingModel: 'nomic' });
+    expect(openAi.embeddingModel).toBe('openai:http://localhost:11434/v1:nomic');
+  });
+
+  it('sends OpenAI-compatible requests and parses the answer', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content: '{"tags": ["flor"]}' } }] })));
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = createAiProvider({ ...DEFAULT_AI_SETTINGS, provider: 'openai', endpoint: 'http://ia.local/v1', model: 'llava', apiKey: 'chave' });
+    expect((await provider.analyzeImage('AAAA', 'image/png')).tags).toEqual(['flor']);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://ia.local/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer chave');
+    expect(JSON.parse(init.body as string).model).toBe('llava');
+  });
+
+  it('reports errors that a retry cannot fix as unavailable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 401 })));
+    const provider = createAiProvider({ ...DEFAULT_AI_SETTINGS, provider: 'openai', model: 'llava' });
+    await expect(provider.analyzeImage('AAAA', 'image/png')).rejects.toBeInstanceOf(AiUnavailableError);
+    await expect(createAiProvider({ ...DEFAULT_AI_SETTINGS, provider: 'openai' }).analyzeImage('AAAA', 'image/png')).rejects.toBeInstanceOf(AiUnavailableError);
+  });
+});
@@ -0,0 +1,127 @@
+import { MediaAnalysis } from '../types';
+
+export type AiLanguage = 'pt-BR' | 'en';
+
+export type AiProviderKind = 'gemini' | 'openai' | 'mock';
+
+export type AiSettings = {
+  provider: AiProviderKind;
+  model: string; // empty for the provider's default
+  embeddingModel: string; // empty for the provider's default
+  language: AiLanguage;
+  endpoint: string; // base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1
+  apiKey: string; // only sent to the OpenAI-compatible endpoint; Gemini uses the build-time key
+};
+
+export type ImageAnalysisResult = { tags: string[]; analysis: MediaAnalysis };
+
+// Some models embed search queries differently from the documents they are matched against.
+export type EmbeddingPurpose = 'document' | 'query';
+
+/**
+ * A model that can describe images and embed text. Implementations throw on any failure so
+ * the tagging queue can retry, and throw `AiUnavailableError` when retrying cannot help.
+ */
+export interface AiProvider {
+  analyzeImage: (base64Image: string, mimeType: string) => Promise<ImageAnalysisResult>;
+  // Identifies the vector space of `embed`; vectors from different models are not comparable.
+  embeddingModel: string;
+  embed: (texts: string[], purpose: EmbeddingPurpose) => Promise<number[][]>;
+}
+
+export class AiUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiUnavailableError';
+  }
+}
+
+const PROMPTS: Record<AiLanguage, string> = {
+  'pt-BR': 'Analise esta imagem para uma galeria de mídia. Responda em português do Brasil, exceto pelas cores.',
+  en: 'Analyze this image for a media gallery. Answer in English.',
+};
+
+export const FIELD_DESCRIPTIONS: Record<AiLanguage, Record<'tags' | keyof MediaAnalysis, string>> = {
+  'pt-BR': {
+    tags: '5 a 7 palavras-chave para marcação em uma galeria, palavras únicas ou frases curtas de duas palavras.',
+    caption: 'Uma frase descrevendo a imagem.',
+    altText: 'Texto alternativo conciso para leitores de tela.',
+    text: 'Todo texto legível na imagem, ou vazio se não houver.',
+    colors: 'Até 5 cores dominantes como códigos hexadecimais #rrggbb.',
+  },
+  en: {
+    tags: '5 to 7 keywords for tagging in a gallery, single words or short two-word phrases.',
+    caption: 'One sentence describing the image.',
+    altText: 'Concise alternative text for screen readers.',
+    text: 'All legible text in the image, or empty if there is none.',
+    colors: 'Up to 5 dominant colors as #rrggbb hex codes.',
+  },
+};
+
+export const buildPrompt = (language: AiLanguage, withFieldList: boolean) => {
+  if (!withFieldList) return PROMPTS[language];
+  // Providers without schema enforcement get the expected shape spelled out.
+  const fields = Object.entries(FIELD_DESCRIPTIONS[language]).map(([name, description]) => `"${name}": ${description}`);
+  return `${PROMPTS[language]}\nJSON: {${fields.join('; ')}}`;
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const cleanStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean) : [];
+
+const cleanString = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+// Validates a model's JSON answer; models occasionally wrap it in a ```json fence.
+export const parseAnalysis = (raw: string | undefined): ImageAnalysisResult => {
+  const json = raw?.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  const parsed = json ? JSON.parse(json) : null;
+  const tags = cleanStrings(parsed?.tags);
+  if (!parsed || tags.length === 0) {
+    throw new Error('A resposta da IA não trouxe tags.');
+  }
+  return {
+    tags,
+    analysis: {
+      caption: cleanString(parsed.caption),
+      altText: cleanString(parsed.altText),
+      text: cleanString(parsed.text),
+      colors: cleanStrings(parsed.colors).filter(color => HEX_COLOR.test(color)).map(color => color.toLowerCase()),
+    },
+  };
+};
+
+const MAX_VIDEO_TAGS = 10;
+
+// Analyzes each keyframe separately and keeps the tags seen in the most frames, so a detail
+// visible in a single frame does not crowd out what the video is about. The caption and alt
+// text come from the first frame that could be analyzed; frames only fail the whole video
+// when none of them succeeds.
+export const analyzeVideoFrames = async (provider: AiProvider, frames: { data: string; mimeType: string }[]): Promise<ImageAnalysisResult> => {
+  const settled = await Promise.allSettled(frames.map(frame => provider.analyzeImage(frame.data, frame.mimeType)));
+  const results = settled.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+  if (results.length === 0) {
+    const firstFailure = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    throw firstFailure?.reason ?? new Error('Nenhum quadro do vídeo para analisar.');
+  }
+
+  const counts = new Map<string, { tag: string; count: number; first: number }>();
+  results.flatMap(result => result.tags).forEach((tag, position) => {
+    const key = tag.toLocaleLowerCase();
+    const entry = counts.get(key) ?? { tag, count: 0, first: position };
+    entry.count++;
+    counts.set(key, entry);
+  });
+
+  return {
+    tags: Array.from(counts.values())
+      .sort((a, b) => b.count - a.count || a.first - b.first)
+      .slice(0, MAX_VIDEO_TAGS)
+      .map(entry => entry.tag),
+    analysis: {
+      ...results[0].analysis,
+      // Text can appear in any part of the video, so it is collected from every frame.
+      text: Array.from(new Set(results.map(result => result.analysis.text).filter(Boolean))).join('\n'),
+    },
+  };
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { MediaEvent, MediaEventType, MediaFile } from '../types';
+import { countByType, countsPerDay, dayKey, eventsSince, storageByCategory, topCategories, topItems, topReferrers, uploadsPerMonth } from './analytics';
+
+// Dates in local time, as the statistics page shows them.
+const NOW = new Date(2026, 2, 10, 12);
+const daysAgo = (days: number, hour = 12) => new Date(2026, 2, 10 - days, hour);
+
+const event = (mediaId: string, type: MediaEventType, date: Date, referrer?: string): MediaEvent =>
+  ({ mediaId, type, date: date.toISOString(), referrer });
+
+const record = (id: string, overrides: Partial<MediaFile> = {}): MediaFile => ({
+  id,
+  name: `${id}.jpg`,
+  type: 'image',
+  mimeType: 'image/jpeg',
+  size: 100,
+  category: 'Geral',
+  tags: [],
+  uploadDate: NOW.toISOString(),
+  views: 0,
+  ...overrides,
+});
+
+describe('eventsSince and countsPerDay', () => {
+  const events = [
+    event('a', 'view', daysAgo(0, 23)),
+    event('a', 'download', daysAgo(0, 0)),
+    event('b', 'view', daysAgo(2)),
+    event('b', 'view', daysAgo(3, 23)),
+  ];
+
+  it('keeps the events of the last days, today included', () => {
+    expect(eventsSince(events, 3, NOW)).toHaveLength(3);
+    expect(eventsSince(events, 1, NOW)).toHaveLength(2);
+  });
+
+  it('counts each local day, empty days included, oldest first', () => {
+    const days = countsPerDay(events, 3, NOW);
+    expect(days.map(({ day }) => day)).toEqual([dayKey(daysAgo(2)), dayKey(daysAgo(1)), dayKey(daysAgo(0))]);
+    expect(days.map(({ counts }) => [counts.view, counts.download])).toEqual([[1, 0], [0, 0], [1, 1]]);
+  });
+});
+
+describe('rankings', () => {
+  const events = [
+    event('a', 'view', NOW),
+    event('a', 'share', NOW, 'forum.example'),
+    event('b', 'public', NOW, 'forum.example'),
+    event('b', 'view', NOW, 'blog.example'),
+    event('b', 'download', NOW),
+    event('apagado', 'view', NOW),
+  ];
+
+  it('counts events by type', () => {
+    expect(countByType(events)).toEqual({ view: 3, download: 1, share: 1, public: 1 });
+  });
+
+  it('ranks items by their total, deleted items included', () => {
+    const top = topItems(events, 2);
+    expect(top.map(({ mediaId, total }) => [mediaId, total])).toEqual([['b', 3], ['a', 2]]);
+    expect(top[0].counts).toEqual({ view: 1, download: 1, share: 0, public: 1 });
+  });
+
+  it('ranks categories by the current category of each item and leaves deleted items out', () => {
+    const media = [record('a', { category: 'Viagens' }), record('b', { category: '' })];
+    expect(topCategories(events, media, 5)).toEqual([{ category: 'Sem Categoria', total: 3 }, { category: 'Viagens', total: 2 }]);
+  });
+
+  it('ranks referring hosts', () => {
+    expect(topReferrers(events, 1)).toEqual([{ host: 'forum.example', total: 2 }]);
+  });
+});
+
+describe('storage reports', () => {
+  it('sums bytes per category, largest first', () => {
+    const media = [record('a', { size: 10 }), record('b', { category: 'Vídeos', size: 500 }), record('c', { size: 30 })];
+    expect(storageByCategory(media)).toEqual([
+      { category: 'Vídeos', bytes: 500, count: 1 },
+      { category: 'Geral', bytes: 40, count: 2 },
+    ]);
+  });
+
+  it('counts uploads per month, empty months included, and ignores older ones', () => {
+    const media = [
+      record('a'),
+      record('b', { uploadDate: new Date(2026, 0, 31, 12).toISOString(), size: 50 }),
+      record('c', { uploadDate: new Date(2025, 0, 1, 12).toISOString() }),
+    ];
+    expect(uploadsPerMonth(media, 3, NOW)).toEqual([
+      { month: '2026-01', count: 1, bytes: 50 },
+      { month: '2026-02', count: 0, bytes: 0 },
+      { month: '2026-03', count: 1, bytes: 100 },
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import { MediaEvent, MediaEventType, MediaFile } from '../types';
+
+export const EVENT_TYPES: MediaEventType[] = ['view', 'download', 'share', 'public'];
+
+export type EventCounts = Record<MediaEventType, number>;
+
+const emptyCounts = (): EventCounts => ({ view: 0, download: 0, share: 0, public: 0 });
+
+export const totalOf = (counts: EventCounts) => EVENT_TYPES.reduce((sum, type) => sum + counts[type], 0);
+
+// Days and months in local time, so an evening visit is not counted on the next day.
+const pad = (value: number) => String(value).padStart(2, '0');
+export const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+export const monthKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+
+/** Events of the last `days` days, today included. */
+export const eventsSince = (events: MediaEvent[], days: number, now = new Date()) => {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+  return events.filter(event => new Date(event.date) >= start);
+};
+
+/** Counts per day for the last `days` days, oldest first, with empty days included. */
+export const countsPerDay = (events: MediaEvent[], days: number, now = new Date()) => {
+  const byDay = new Map<string, EventCounts>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    byDay.set(dayKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset)), emptyCounts());
+  }
+  events.forEach(event => {
+    const counts = byDay.get(dayKey(new Date(event.date)));
+    if (counts) counts[event.type]++;
+  });
+  return [...byDay].map(([day, counts]) => ({ day, counts }));
+};
+
+export const countByType = (events: MediaEvent[]) => {
+  const counts = emptyCounts();
+  events.forEach(event => counts[event.type]++);
+  return counts;
+};
+
+/** Items with the most events, busiest first. Items deleted since are reported by id alone. */
+export const topItems = (events: MediaEvent[], limit: number) => {
+  const byItem = new Map<string, EventCounts>();
+  events.forEach(event => {
+    const counts = byItem.get(event.mediaId) ?? emptyCounts();
+    counts[event.type]++;
+    byItem.set(event.mediaId, counts);
+  });
+  return [...byItem]
+    .map(([mediaId, counts]) => ({ mediaId, counts, total: totalOf(counts) }))
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit);
+};
+
+/** Events grouped by the current category of their item; events of deleted items are left out. */
+export const topCategories = (events: MediaEvent[], media: MediaFile[], limit: number) => {
+  const categoryOf = new Map(media.map(item => [item.id, item.category || 'Sem Categoria']));
+  const byCategory = new Map<string, number>();
+  events.forEach(event => {
+    const category = categoryOf.get(event.mediaId);
+    if (category) byCategory.set(category, (byCategory.get(category) ?? 0) + 1);
+  });
+  return [...byCategory]
+    .map(([category, total]) => ({ category, total }))
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit);
+};
+
+export const topReferrers = (events: MediaEvent[], limit: number) => {
+  const byHost = new Map<string, number>();
+  events.forEach(event => event.referrer && byHost.set(event.referrer, (byHost.get(event.referrer) ?? 0) + 1));
+  return [...byHost]
+    .map(([host, total]) => ({ host, total }))
+    .sort((a, b) => b.total - a.total)
+    .slice(0, limit);
+};
+
+/** Bytes and item counts per category, largest first. */
+export const storageByCategory = (media: MediaFile[]) => {
+  const byCategory = new Map<string, { bytes: number; count: number }>();
+  media.forEach(item => {
+    const category = item.category || 'Sem Categoria';
+    const entry = byCategory.get(category) ?? { bytes: 0, count: 0 };
+    entry.bytes += item.size;
+    entry.count++;
+    byCategory.set(category, entry);
+  });
+  return [...byCategory]
+    .map(([category, entry]) => ({ category, ...entry }))
+    .sort((a, b) => b.bytes - a.bytes);
+};
+
+/** Uploads per month for the last `months` months, oldest first, with empty months included. */
+export const uploadsPerMonth = (media: MediaFile[], months: number, now = new Date()) => {
+  const byMonth = new Map<string, { count: number; bytes: number }>();
+  for (let offset = months - 1; offset >= 0; offset--) {
+    byMonth.set(monthKey(new Date(now.getFullYear(), now.getMonth() - offset, 1)), { count: 0, bytes: 0 });
+  }
+  media.forEach(item => {
+    const entry = byMonth.get(monthKey(new Date(item.uploadDate)));
+    if (!entry) return;
+    entry.count++;
+    entry.bytes += item.size;
+  });
+  return [...byMonth].map(([month, entry]) => ({ month, ...entry }));
+};
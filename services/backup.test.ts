@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { MediaFile } from '../types';
+import { BACKUP_VERSION, RestoreCandidate, backupToZip, createBackup, findConflicts, planMerge, readBackup } from './backup';
+import { createZip, readZip } from './zip';
+
+const record = (id: string, overrides: Partial<MediaFile> = {}): MediaFile => ({
+  id,
+  name: `${id}.jpg`,
+  type: 'image',
+  mimeType: 'image/jpeg',
+  size: 3,
+  category: 'Geral',
+  tags: [],
+  uploadDate: '2026-01-01T00:00:00.000Z',
+  views: 0,
+  ...overrides,
+});
+
+const zipFile = async (blob: Blob) => new File([blob], 'backup.zip', { type: 'application/zip' });
+
+describe('readBackup', () => {
+  it('restores what createBackup wrote, checksums included', async () => {
+    const backup = await createBackup('ana', [
+      { item: record('a'), blob: new Blob([new Uint8Array([1, 2, 3])]) },
+      { item: record('b', { type: 'video', mimeType: 'video/mp4', name: 'a.jpg' }), blob: new Blob(['vid']), poster: new Blob(['pst']) },
+    ]);
+    const parsed = await readBackup(await zipFile(await backupToZip(backup)));
+    expect(parsed).toMatchObject({ version: BACKUP_VERSION, owner: 'ana', warnings: [] });
+    expect(parsed.candidates.map(candidate => candidate.problem)).toEqual([undefined, undefined]);
+    const [first, second] = parsed.candidates;
+    expect(first.entry.item.contentHash).toBe(first.sha256);
+    expect(await second.entry.blob.text()).toBe('vid');
+    expect(await second.entry.poster!.text()).toBe('pst');
+    expect(second.entry.item.hasPoster).toBe(true);
+  });
+
+  it('flags files that do not match the manifest', async () => {
+    const backup = await createBackup('ana', [{ item: record('a'), blob: new Blob(['abc']) }]);
+    const entries = await readZip(await backupToZip(backup));
+    const tampered = entries.map(entry => entry.name.startsWith('files/') ? { ...entry, data: new Blob(['xyz']) } : entry);
+    const parsed = await readBackup(await zipFile(await createZip(tampered)));
+    expect(parsed.candidates[0].problem).toBe('O arquivo não confere com a soma de verificação.');
+  });
+
+  it('flags invalid records and missing files', async () => {
+    const backup = await createBackup('ana', [{ item: record('a'), blob: new Blob(['abc']) }]);
+    backup.manifest.items.push({ item: { id: 'x' } as MediaFile, content: { path: 'files/x', sha256: '', size: 0 } });
+    backup.manifest.items.push({ item: record('c'), content: { path: 'files/c.jpg', sha256: '', size: 0 } });
+    const parsed = await readBackup(await zipFile(await backupToZip(backup)));
+    expect(parsed.candidates.map(candidate => candidate.problem)).toEqual([undefined, 'Registro inválido.', 'Arquivo ausente no backup.']);
+    expect(parsed.warnings).toEqual(['O manifesto anuncia 1 item(ns), mas lista 3.']);
+  });
+
+  it('refuses backups from a newer format', async () => {
+    const backup = await createBackup('ana', []);
+    backup.manifest.version = BACKUP_VERSION + 1;
+    await expect(readBackup(await zipFile(await backupToZip(backup)))).rejects.toThrow(/versão mais nova/);
+  });
+
+  it('refuses archives without a manifest', async () => {
+    const zip = await createZip([{ name: 'foto.jpg', data: new Blob(['abc']) }]);
+    await expect(readBackup(await zipFile(zip))).rejects.toThrow('O ZIP não contém um manifest.json do GuardMídia.');
+  });
+
+  it('reads version 1 backups and hashes their content', async () => {
+    const legacy = [{ ...record('a'), dataUrl: 'data:image/jpeg;base64,AQID' }, { id: 'broken' }];
+    const parsed = await readBackup(new File([JSON.stringify(legacy)], 'backup.json', { type: 'application/json' }));
+    expect(parsed.version).toBe(1);
+    expect(parsed.candidates[0].sha256).toBe('039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81');
+    expect(parsed.candidates[0].entry.item.contentHash).toBe(parsed.candidates[0].sha256);
+    expect(parsed.candidates[1].problem).toBe('Registro inválido.');
+  });
+});
+
+describe('planMerge', () => {
+  const library = [record('a', { contentHash: 'h-a', publicId: 'pub-a' }), record('b', { contentHash: 'h-b' })];
+  const candidate = (item: MediaFile, problem?: string): RestoreCandidate => ({ entry: { item, blob: new Blob() }, sha256: item.contentHash, problem });
+  const sameId = candidate(record('a', { name: 'renomeado.jpg', contentHash: 'h-a' }));
+  const sameContent = candidate(record('z', { contentHash: 'h-b', publicId: undefined }));
+  const fresh = candidate(record('n', { contentHash: 'h-n', publicId: 'pub-a' }));
+  const broken = candidate(record('q'), 'Conteúdo ilegível.');
+  const candidates = [sameId, sameContent, fresh, broken];
+
+  it('finds conflicts by id, then by content', () => {
+    expect(findConflicts(candidates, library).map(({ candidate: { entry }, existing, reason }) => [entry.item.id, existing.id, reason]))
+      .toEqual([['a', 'a', 'id'], ['z', 'b', 'content']]);
+  });
+
+  it('skips conflicting items', () => {
+    expect(planMerge(candidates, library, 'skip').map(({ item }) => item.id)).toEqual(['n']);
+  });
+
+  it('lets the backup replace the library item under its id', () => {
+    const planned = planMerge(candidates, library, 'replace');
+    expect(planned.map(({ item }) => [item.id, item.name])).toEqual([['a', 'renomeado.jpg'], ['b', 'z.jpg'], ['n', 'n.jpg']]);
+  });
+
+  it('imports duplicates under a new id', () => {
+    const planned = planMerge(candidates, library, 'duplicate');
+    expect(planned).toHaveLength(3);
+    expect(planned[0].item.id).not.toBe('a');
+    expect(planned[1].item.id).toBe('z');
+  });
+
+  it('makes an item private when its public id is taken by another item', () => {
+    const planned = planMerge([fresh], library, 'skip');
+    expect(planned[0].item).toMatchObject({ id: 'n', isPublic: false, publicId: undefined });
+  });
+});
@@ -0,0 +1,212 @@
+import { MediaFile } from '../types';
+import { sha256Hex } from './duplicates';
+import { LegacyMediaFile, MediaEntry, blobToDataUrl, dataUrlToBlob, splitLegacyMedia } from './storageAdapter';
+import { ZipEntry, createZip, readZip, uniqueEntryNames } from './zip';
+
+// BACKUP FORMAT
+// Version 1 was a bare JSON array of records with the content inlined as data URLs.
+// Version 2 is a manifest listing every item with the path and SHA-256 of its files. As a ZIP
+// the manifest sits in `manifest.json` next to the original files; as JSON the files are
+// inlined under `files`, keyed by the same paths.
+
+export const BACKUP_FORMAT = 'guardmidia-backup';
+export const BACKUP_VERSION = 2;
+const APP_VERSION = process.env.APP_VERSION || 'dev';
+const MANIFEST_NAME = 'manifest.json';
+
+export type BackupFile = { path: string; sha256: string; size: number };
+
+export type BackupManifest = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  appVersion: string;
+  createdAt: string;
+  owner: string;
+  itemCount: number;
+  items: { item: MediaFile; content: BackupFile; poster?: BackupFile }[];
+};
+
+export type Backup = { manifest: BackupManifest; files: ZipEntry[] };
+
+// Item names become file names inside the archive.
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_') || 'arquivo';
+
+export const createBackup = async (owner: string, entries: MediaEntry[]): Promise<Backup> => {
+  const names = uniqueEntryNames(entries.map(({ item }) => safeFileName(item.name)));
+  const files: ZipEntry[] = [];
+  const describe = async (path: string, blob: Blob, lastModified: Date): Promise<BackupFile> => {
+    files.push({ name: path, data: blob, lastModified });
+    return { path, sha256: await sha256Hex(blob), size: blob.size };
+  };
+  const items: BackupManifest['items'] = [];
+  for (const [index, { item, blob, poster }] of entries.entries()) {
+    const uploaded = new Date(item.uploadDate);
+    items.push({
+      item,
+      content: await describe(`files/${names[index]}`, blob, uploaded),
+      poster: poster ? await describe(`posters/${names[index]}.jpg`, poster, uploaded) : undefined,
+    });
+  }
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    appVersion: APP_VERSION,
+    createdAt: new Date().toISOString(),
+    owner,
+    itemCount: items.length,
+    items,
+  };
+  return { manifest, files };
+};
+
+export const backupToZip = ({ manifest, files }: Backup) =>
+  createZip([{ name: MANIFEST_NAME, data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) }, ...files]);
+
+export const backupToJson = async ({ manifest, files }: Backup) => {
+  const inlined: Record<string, string> = {};
+  for (const file of files) inlined[file.name] = await blobToDataUrl(file.data);
+  return new Blob([JSON.stringify({ ...manifest, files: inlined })], { type: 'application/json;charset=utf-8' });
+};
+
+// RESTORE
+
+export type RestoreCandidate = {
+  entry: MediaEntry;
+  sha256?: string; // of the content, when the backup recorded one
+  problem?: string; // set when the item cannot be restored
+};
+
+export type ParsedBackup = {
+  version: number;
+  owner?: string;
+  createdAt?: string;
+  appVersion?: string;
+  candidates: RestoreCandidate[];
+  warnings: string[];
+};
+
+const isMediaRecord = (value: unknown): value is MediaFile => {
+  const item = value as MediaFile;
+  return Boolean(item) && typeof item.id === 'string' && typeof item.name === 'string'
+    && (item.type === 'image' || item.type === 'video') && typeof item.mimeType === 'string'
+    && typeof item.size === 'number' && Array.isArray(item.tags);
+};
+
+const parseLegacy = async (records: unknown[]): Promise<ParsedBackup> => ({
+  version: 1,
+  warnings: ['Backup no formato antigo: sem somas de verificação.'],
+  candidates: await Promise.all(records.map(async (record): Promise<RestoreCandidate> => {
+    const legacy = record as LegacyMediaFile;
+    if (!isMediaRecord(legacy) || typeof legacy.dataUrl !== 'string') {
+      return { entry: { item: legacy, blob: new Blob() }, problem: 'Registro inválido.' };
+    }
+    try {
+      const entry = await splitLegacyMedia(legacy);
+      // Hashed here so conflicts by content are found for old backups too.
+      const sha256 = await sha256Hex(entry.blob);
+      return { entry: { ...entry, item: { ...entry.item, contentHash: sha256 } }, sha256 };
+    } catch {
+      return { entry: { item: legacy, blob: new Blob() }, problem: 'Conteúdo ilegível.' };
+    }
+  })),
+});
+
+const parseManifest = async (manifest: BackupManifest, readFile: (path: string) => Promise<Blob | null>): Promise<ParsedBackup> => {
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error(`Este backup foi criado por uma versão mais nova do GuardMídia (formato ${manifest.version}).`);
+  }
+  const items = Array.isArray(manifest.items) ? manifest.items : [];
+  const warnings = manifest.itemCount !== items.length
+    ? [`O manifesto anuncia ${manifest.itemCount} item(ns), mas lista ${items.length}.`]
+    : [];
+  // Sequential, so a large archive is not hashed all at once.
+  const candidates: RestoreCandidate[] = [];
+  for (const { item, content, poster } of items) {
+    const entry: MediaEntry = { item, blob: new Blob() };
+    if (!isMediaRecord(item) || !content?.path) {
+      candidates.push({ entry, problem: 'Registro inválido.' });
+      continue;
+    }
+    const blob = await readFile(content.path);
+    if (!blob) {
+      candidates.push({ entry, problem: 'Arquivo ausente no backup.' });
+      continue;
+    }
+    if (await sha256Hex(blob) !== content.sha256) {
+      candidates.push({ entry, problem: 'O arquivo não confere com a soma de verificação.' });
+      continue;
+    }
+    const posterBlob = poster ? await readFile(poster.path) : null;
+    candidates.push({
+      entry: {
+        item: { ...item, contentHash: content.sha256, hasPoster: Boolean(posterBlob), hasThumbnail: false },
+        blob: new Blob([blob], { type: item.mimeType }),
+        poster: posterBlob ?? undefined,
+      },
+      sha256: content.sha256,
+    });
+  }
+  return { version: manifest.version, owner: manifest.owner, createdAt: manifest.createdAt, appVersion: manifest.appVersion, candidates, warnings };
+};
+
+/** Reads a ZIP or JSON backup, of either format version, and checks every file against the manifest. */
+export const readBackup = async (file: File): Promise<ParsedBackup> => {
+  const isZip = file.type === 'application/zip' || /\.zip$/i.test(file.name);
+  if (isZip) {
+    const files = new Map((await readZip(file)).map(entry => [entry.name, entry.data]));
+    const manifestFile = files.get(MANIFEST_NAME);
+    if (!manifestFile) throw new Error('O ZIP não contém um manifest.json do GuardMídia.');
+    const manifest = JSON.parse(await manifestFile.text());
+    if (manifest?.format !== BACKUP_FORMAT) throw new Error('O manifest.json não é de um backup do GuardMídia.');
+    return parseManifest(manifest, async path => files.get(path) ?? null);
+  }
+  const parsed = JSON.parse(await file.text());
+  if (Array.isArray(parsed)) return parseLegacy(parsed);
+  if (parsed?.format !== BACKUP_FORMAT) throw new Error('O arquivo não é um backup do GuardMídia.');
+  const inlined: Record<string, string> = parsed.files ?? {};
+  return parseManifest(parsed, async path => inlined[path] ? dataUrlToBlob(inlined[path]) : null);
+};
+
+export type RestoreConflict = { candidate: RestoreCandidate; existing: MediaFile; reason: 'id' | 'content' };
+
+// How a merge treats backup items already in the library: keep the library's, let the
+// backup's metadata win, or import the backup's as a separate item.
+export type ConflictPolicy = 'skip' | 'replace' | 'duplicate';
+
+/** Backup items that match a library item by id or, failing that, by identical content. */
+export const findConflicts = (candidates: RestoreCandidate[], library: MediaFile[]): RestoreConflict[] => {
+  const byId = new Map(library.map(item => [item.id, item]));
+  const byHash = new Map(library.filter(item => item.contentHash).map(item => [item.contentHash!, item]));
+  return candidates.flatMap((candidate): RestoreConflict[] => {
+    if (candidate.problem) return [];
+    const sameId = byId.get(candidate.entry.item.id);
+    if (sameId) return [{ candidate, existing: sameId, reason: 'id' }];
+    const hash = candidate.sha256 ?? candidate.entry.item.contentHash;
+    const sameContent = hash ? byHash.get(hash) : undefined;
+    return sameContent ? [{ candidate, existing: sameContent, reason: 'content' }] : [];
+  });
+};
+
+/** The entries to write for a merge restore, with conflicts settled by `policy`. */
+export const planMerge = (candidates: RestoreCandidate[], library: MediaFile[], policy: ConflictPolicy): MediaEntry[] => {
+  const conflicts = new Map(findConflicts(candidates, library).map(conflict => [conflict.candidate, conflict]));
+  return candidates.flatMap((candidate): MediaEntry[] => {
+    if (candidate.problem) return [];
+    const conflict = conflicts.get(candidate);
+    const { entry } = candidate;
+    if (!conflict) return [entry];
+    if (policy === 'skip') return [];
+    if (policy === 'replace') {
+      // Identical content under another id: the library item takes the backup's metadata, so
+      // its albums and links keep pointing at it.
+      const { id, publicId } = conflict.existing;
+      return [{ ...entry, item: { ...entry.item, id, publicId: entry.item.publicId ?? publicId } }];
+    }
+    if (conflict.reason === 'content') return [entry];
+    return [{ ...entry, item: { ...entry.item, id: `${Date.now()}-${Math.random()}` } }];
+  }).map(entry => {
+    // A public id can only point at one item; on a clash the restored item starts out private.
+    const holder = entry.item.publicId ? library.find(item => item.publicId === entry.item.publicId) : undefined;
+    return holder && holder.id !== entry.item.id ? { ...entry, item: { ...entry.item, isPublic: false, publicId: undefined } } : entry;
+  });
+};
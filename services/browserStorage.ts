@@ -0,0 +1,303 @@
+import { Album, MediaEvent, MediaFile } from '../types';
+import { createSessionToken, generateSigningKey, hashPassword, isPasswordHash, readSessionToken, verifyPassword } from './crypto';
+import { MediaEntry, MediaVariant, StorageAdapter, StorageQuotaError, StorageRequestError } from './storageAdapter';
+import { DEFAULT_QUOTA } from './quota';
+
+const DB_NAME = 'guardmidia';
+const DB_VERSION = 4;
+const MEDIA_STORE = 'media';
+const BLOB_STORE = 'blobs';
+const ALBUM_STORE = 'albums';
+const EVENT_STORE = 'events';
+const KEY_STORE = 'keys';
+const USERS_KEY = 'users';
+const SESSION_KEY_ID = 'session';
+
+// Metadata records carry their owner so a single store can hold every user's library.
+type StoredMediaRecord = MediaFile & { owner: string };
+
+const toStorageError = (error: unknown): Error => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return new StorageQuotaError('Espaço de armazenamento do navegador esgotado.');
+  }
+  return error instanceof Error ? error : new Error(String(error));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          const store = db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+          store.createIndex('owner', 'owner', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          db.createObjectStore(BLOB_STORE);
+        }
+        if (!db.objectStoreNames.contains(KEY_STORE)) {
+          db.createObjectStore(KEY_STORE);
+        }
+        if (!db.objectStoreNames.contains(ALBUM_STORE)) {
+          const store = db.createObjectStore(ALBUM_STORE, { keyPath: 'id' });
+          store.createIndex('owner', 'owner', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(EVENT_STORE)) {
+          const store = db.createObjectStore(EVENT_STORE, { autoIncrement: true });
+          store.createIndex('owner', 'owner', { unique: false });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T,>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    let result: T;
+    try {
+      result = work(tx);
+    } catch (error) {
+      tx.abort();
+      reject(toStorageError(error));
+      return;
+    }
+    tx.oncomplete = () => resolve(result);
+    tx.onabort = () => reject(toStorageError(tx.error));
+    tx.onerror = () => reject(toStorageError(tx.error));
+  });
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const stripOwner = <T,>({ owner, ...record }: T & { owner: string }): T => record as T;
+
+const listMedia = async (owner: string): Promise<MediaFile[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MEDIA_STORE, 'readonly');
+  const records = await requestToPromise<StoredMediaRecord[]>(tx.objectStore(MEDIA_STORE).index('owner').getAll(owner));
+  // Newest first, matching the order addMedia has always produced.
+  return records
+    .map(record => stripOwner<MediaFile>(record))
+    .sort((a, b) => b.uploadDate.localeCompare(a.uploadDate));
+};
+
+// Content is keyed by the media id, derived images by `<id>:<variant>`.
+const blobKey = (id: string, variant: MediaVariant = 'content') => variant === 'content' ? id : `${id}:${variant}`;
+
+// Archived contents share a key prefix so they can be deleted with a single range.
+const revisionKeyPrefix = (id: string) => `${id}:revision:`;
+
+const getMediaContent = async (owner: string, id: string, variant?: MediaVariant): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(BLOB_STORE, 'readonly');
+  const blob = await requestToPromise<Blob | undefined>(tx.objectStore(BLOB_STORE).get(blobKey(id, variant)));
+  return blob ?? null;
+};
+
+const writeEntries = (tx: IDBTransaction, owner: string, entries: MediaEntry[]) => {
+  const mediaStore = tx.objectStore(MEDIA_STORE);
+  const blobStore = tx.objectStore(BLOB_STORE);
+  entries.forEach(({ item, blob, poster, thumbnail }) => {
+    mediaStore.put({ ...item, owner });
+    blobStore.put(blob, item.id);
+    if (poster) blobStore.put(poster, blobKey(item.id, 'poster'));
+    if (thumbnail) blobStore.put(thumbnail, blobKey(item.id, 'thumbnail'));
+  });
+};
+
+const deleteEntries = (tx: IDBTransaction, ids: string[]) => {
+  const mediaStore = tx.objectStore(MEDIA_STORE);
+  const blobStore = tx.objectStore(BLOB_STORE);
+  ids.forEach(id => {
+    mediaStore.delete(id);
+    blobStore.delete(id);
+    blobStore.delete(blobKey(id, 'poster'));
+    blobStore.delete(blobKey(id, 'thumbnail'));
+    blobStore.delete(IDBKeyRange.bound(revisionKeyPrefix(id), `${revisionKeyPrefix(id)}\uffff`));
+  });
+};
+
+const listAlbums = async (owner: string): Promise<Album[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ALBUM_STORE, 'readonly');
+  const records = await requestToPromise<(Album & { owner: string })[]>(tx.objectStore(ALBUM_STORE).index('owner').getAll(owner));
+  return records.map(record => stripOwner<Album>(record)).sort((a, b) => a.order - b.order);
+};
+
+const deleteOwnedAlbums = async (owner: string) => {
+  const albums = await listAlbums(owner);
+  await runTransaction([ALBUM_STORE], 'readwrite', (tx) => {
+    albums.forEach(album => tx.objectStore(ALBUM_STORE).delete(album.id));
+  });
+};
+
+const listEvents = async (owner: string): Promise<MediaEvent[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(EVENT_STORE, 'readonly');
+  const records = await requestToPromise<(MediaEvent & { owner: string })[]>(tx.objectStore(EVENT_STORE).index('owner').getAll(owner));
+  return records.map(record => stripOwner<MediaEvent>(record));
+};
+
+const deleteOwnedEvents = (owner: string) =>
+  runTransaction([EVENT_STORE], 'readwrite', (tx) => {
+    const request = tx.objectStore(EVENT_STORE).index('owner').openKeyCursor(IDBKeyRange.only(owner));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      tx.objectStore(EVENT_STORE).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+  });
+
+// Accounts predate IndexedDB and are small, so they stay in localStorage as username -> password hash.
+const readUsers = (): Record<string, string> => {
+  const raw = window.localStorage.getItem(USERS_KEY);
+  return raw ? JSON.parse(raw) : {};
+};
+
+const writeUsers = (users: Record<string, string>) => {
+  try {
+    window.localStorage.setItem(USERS_KEY, JSON.stringify(users));
+  } catch (error) {
+    throw toStorageError(error);
+  }
+};
+
+// Accounts created before passwords were hashed hold the plaintext; they are upgraded on the next login.
+const checkPassword = async (username: string, password: string): Promise<boolean> => {
+  const stored = readUsers()[username];
+  if (!stored) return false;
+  if (isPasswordHash(stored)) return verifyPassword(password, stored);
+  if (stored !== password) return false;
+  writeUsers({ ...readUsers(), [username]: await hashPassword(password) });
+  return true;
+};
+
+/**
+ * The signing key is generated once and kept non-extractable in IndexedDB, so a session
+ * token cannot be forged from devtools by editing localStorage.
+ */
+const getSigningKey = async (): Promise<CryptoKey> => {
+  const db = await openDatabase();
+  const existing = await requestToPromise<CryptoKey | undefined>(
+    db.transaction(KEY_STORE, 'readonly').objectStore(KEY_STORE).get(SESSION_KEY_ID)
+  );
+  if (existing) return existing;
+  const key = await generateSigningKey();
+  await runTransaction([KEY_STORE], 'readwrite', (tx) => {
+    tx.objectStore(KEY_STORE).put(key, SESSION_KEY_ID);
+  });
+  return key;
+};
+
+export const browserStorage: StorageAdapter = {
+  listMedia,
+  getMediaContent,
+  getMediaUrl: async (owner, id, variant) => {
+    const blob = await getMediaContent(owner, id, variant);
+    return blob ? URL.createObjectURL(blob) : null;
+  },
+  putMedia: (owner, entries) =>
+    runTransaction([MEDIA_STORE, BLOB_STORE], 'readwrite', (tx) => writeEntries(tx, owner, entries)),
+  putVariant: (owner, id, variant, blob) =>
+    runTransaction([BLOB_STORE], 'readwrite', (tx) => {
+      tx.objectStore(BLOB_STORE).put(blob, blobKey(id, variant));
+    }),
+  putRevisionContent: (owner, id, hash, blob) =>
+    runTransaction([BLOB_STORE], 'readwrite', (tx) => {
+      tx.objectStore(BLOB_STORE).put(blob, `${revisionKeyPrefix(id)}${hash}`);
+    }),
+  getRevisionContent: async (owner, id, hash) => {
+    const db = await openDatabase();
+    const tx = db.transaction(BLOB_STORE, 'readonly');
+    const blob = await requestToPromise<Blob | undefined>(tx.objectStore(BLOB_STORE).get(`${revisionKeyPrefix(id)}${hash}`));
+    return blob ?? null;
+  },
+  updateMedia: (owner, item) =>
+    runTransaction([MEDIA_STORE], 'readwrite', (tx) => {
+      tx.objectStore(MEDIA_STORE).put({ ...item, owner });
+    }),
+  deleteMedia: (owner, ids) =>
+    runTransaction([MEDIA_STORE, BLOB_STORE], 'readwrite', (tx) => deleteEntries(tx, ids)),
+  replaceLibrary: async (owner, entries) => {
+    const existing = await listMedia(owner);
+    await runTransaction([MEDIA_STORE, BLOB_STORE], 'readwrite', (tx) => {
+      deleteEntries(tx, existing.map(item => item.id));
+      writeEntries(tx, owner, entries);
+    });
+  },
+  listAlbums,
+  putAlbums: (owner, albums) =>
+    runTransaction([ALBUM_STORE], 'readwrite', (tx) => {
+      albums.forEach(album => tx.objectStore(ALBUM_STORE).put({ ...album, owner }));
+    }),
+  deleteAlbum: (owner, id) =>
+    runTransaction([ALBUM_STORE], 'readwrite', (tx) => {
+      tx.objectStore(ALBUM_STORE).delete(id);
+    }),
+  logEvents: (owner, events) =>
+    runTransaction([EVENT_STORE], 'readwrite', (tx) => {
+      events.forEach(event => tx.objectStore(EVENT_STORE).add({ ...event, owner }));
+    }),
+  listEvents,
+  // The browser's own limit still applies on top of this one and surfaces as a StorageQuotaError.
+  getQuota: async () => DEFAULT_QUOTA,
+  getPublicUrl: () => null,
+  // Nothing in the browser can serve a link to someone else, so share links need the server.
+  listShareLinks: async () => [],
+  createShareLink: async () => {
+    throw new StorageRequestError('Links de compartilhamento exigem o servidor de armazenamento.');
+  },
+  revokeShareLink: async () => {
+    throw new StorageRequestError('Links de compartilhamento exigem o servidor de armazenamento.');
+  },
+  createUser: async (username, password) => {
+    if (readUsers()[username]) return false;
+    const passwordHash = await hashPassword(password);
+    writeUsers({ ...readUsers(), [username]: passwordHash });
+    return true;
+  },
+  login: async (username, password) => {
+    if (!(await checkPassword(username, password))) return null;
+    return createSessionToken(await getSigningKey(), username);
+  },
+  resumeSession: async (token) => {
+    const session = await readSessionToken(await getSigningKey(), token);
+    return session && readUsers()[session.username] ? session.username : null;
+  },
+  endSession: () => {},
+  changePassword: async (username, currentPassword, newPassword) => {
+    if (!(await checkPassword(username, currentPassword))) return null;
+    writeUsers({ ...readUsers(), [username]: await hashPassword(newPassword) });
+    return createSessionToken(await getSigningKey(), username);
+  },
+  deleteAccount: async (username, password) => {
+    if (!(await checkPassword(username, password))) return false;
+    const library = await listMedia(username);
+    await runTransaction([MEDIA_STORE, BLOB_STORE], 'readwrite', (tx) => deleteEntries(tx, library.map(item => item.id)));
+    await deleteOwnedAlbums(username);
+    await deleteOwnedEvents(username);
+    const { [username]: _removed, ...remaining } = readUsers();
+    writeUsers(remaining);
+    return true;
+  },
+};
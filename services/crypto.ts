@@ -0,0 +1,87 @@
+// WebCrypto helpers shared by the browser storage backend and the server (Node exposes the
+// same API as globalThis.crypto). Hashes are encoded as `pbkdf2$<iterations>$<salt>$<hash>`
+// so the cost can be raised without breaking old hashes.
+
+const ITERATIONS = 210_000;
+const KEY_BITS = 256;
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const MEDIA_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+const toBase64Url = (bytes: Uint8Array) => toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const fromBase64Url = (value: string) => fromBase64(value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '='));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number, bits: number) => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const derived = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, baseKey, bits);
+  return new Uint8Array(derived);
+};
+
+// Compares in constant time with respect to the contents.
+const bytesEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a[i] ^ b[i];
+  return difference === 0;
+};
+
+export const isPasswordHash = (value: string) => value.startsWith('pbkdf2$');
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(password, salt, ITERATIONS, KEY_BITS);
+  return ['pbkdf2', ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+};
+
+export const verifyPassword = async (password: string, encoded: string): Promise<boolean> => {
+  const [scheme, iterations, salt, expected] = encoded.split('$');
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !expected) return false;
+  const expectedBytes = fromBase64(expected);
+  const hash = await derive(password, fromBase64(salt), Number(iterations), expectedBytes.length * 8);
+  return bytesEqual(hash, expectedBytes);
+};
+
+export const generateSigningKey = (): Promise<CryptoKey> =>
+  crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+export const importSigningKey = (secret: Uint8Array): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+// `ver` is a value the issuer keeps per user and changes to revoke every token issued before.
+// `media` limits the token to reading that one item.
+type SessionPayload = { sub: string; exp: number; ver?: number; media?: string };
+
+export type Session = { username: string; version: number; mediaId?: string };
+
+const signPayload = async (key: CryptoKey, payload: SessionPayload) => {
+  const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(encodedPayload));
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+// Tokens are `<payload>.<signature>`, both base64url, with the payload a JSON `{ sub, exp, ver }`.
+export const createSessionToken = (key: CryptoKey, username: string, version = 0, ttlMs = SESSION_TTL_MS): Promise<string> =>
+  signPayload(key, { sub: username, exp: Date.now() + ttlMs, ver: version });
+
+// A token for the URL of one item, which can travel in a query string without exposing the session.
+export const createMediaToken = (key: CryptoKey, username: string, mediaId: string, version = 0, ttlMs = MEDIA_TOKEN_TTL_MS): Promise<string> =>
+  signPayload(key, { sub: username, exp: Date.now() + ttlMs, ver: version, media: mediaId });
+
+// Returns the session of a correctly signed, unexpired token, or null. Tokens from before
+// versions existed count as version 0.
+export const readSessionToken = async (key: CryptoKey, token: string): Promise<Session | null> => {
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return null;
+  try {
+    const valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(encodedSignature), encoder.encode(encodedPayload));
+    if (!valid) return null;
+    const payload: SessionPayload = JSON.parse(decoder.decode(fromBase64Url(encodedPayload)));
+    return payload.exp > Date.now() ? { username: payload.sub, version: payload.ver ?? 0, mediaId: payload.media } : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { MediaFile } from '../types';
+import { NEAR_DUPLICATE_DISTANCE, findDuplicates, groupDuplicates, hammingDistance, sha256Hex } from './duplicates';
+
+const record = (id: string, overrides: Partial<MediaFile> = {}): MediaFile => ({
+  id,
+  name: `${id}.jpg`,
+  type: 'image',
+  mimeType: 'image/jpeg',
+  size: 3,
+  category: 'Geral',
+  tags: [],
+  uploadDate: '2026-01-01T00:00:00.000Z',
+  views: 0,
+  ...overrides,
+});
+
+const BASE = '0123456789abcdef';
+// BASE with its last `bits` bits flipped.
+const flipped = (bits: number) => {
+  const low = parseInt(BASE.slice(8), 16) ^ (2 ** bits - 1);
+  return BASE.slice(0, 8) + (low >>> 0).toString(16).padStart(8, '0');
+};
+
+describe('hammingDistance', () => {
+  it('counts the differing bits in both halves of the hash', () => {
+    expect(hammingDistance(BASE, BASE)).toBe(0);
+    expect(hammingDistance(BASE, flipped(5))).toBe(5);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    expect(hammingDistance('8000000000000000', '0000000000000001')).toBe(2);
+  });
+});
+
+describe('sha256Hex', () => {
+  it('hashes the bytes of a blob', async () => {
+    expect(await sha256Hex(new Blob(['abc']))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('findDuplicates', () => {
+  const library = [
+    record('igual', { contentHash: 'h1', perceptualHash: BASE }),
+    record('parecida', { contentHash: 'h2', perceptualHash: flipped(NEAR_DUPLICATE_DISTANCE) }),
+    record('diferente', { contentHash: 'h3', perceptualHash: flipped(NEAR_DUPLICATE_DISTANCE + 1) }),
+    record('sem-hash'),
+  ];
+
+  it('separates identical content from similar pictures', () => {
+    const { exact, similar } = findDuplicates({ contentHash: 'h1', perceptualHash: BASE }, library);
+    expect(exact.map(item => item.id)).toEqual(['igual']);
+    expect(similar.map(item => item.id)).toEqual(['parecida']);
+  });
+
+  it('finds nothing for files without hashes', () => {
+    expect(findDuplicates({}, library)).toEqual({ exact: [], similar: [] });
+  });
+});
+
+describe('groupDuplicates', () => {
+  it('groups copies by content and, transitively, by picture', () => {
+    const groups = groupDuplicates([
+      record('a', { contentHash: 'x' }),
+      record('b', { contentHash: 'x' }),
+      record('c', { perceptualHash: BASE }),
+      record('d', { perceptualHash: flipped(4) }),
+      // Within reach of d but not of c: still in the same group.
+      record('e', { perceptualHash: flipped(8) }),
+      record('f', { contentHash: 'y', perceptualHash: 'fedcba9876543210' }),
+    ]);
+    expect(groups.map(group => group.map(item => item.id))).toEqual([['a', 'b'], ['c', 'd', 'e']]);
+  });
+});
@@ -0,0 +1,107 @@
+import { MediaFile } from '../types';
+
+// Perceptual hashes at most this many bits apart are treated as the same picture.
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+export const sha256Hex = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Difference hash: the image shrunk to 9x8 grey pixels, one bit per horizontal neighbour pair
+ * telling whether brightness goes up. Survives resizing, re-encoding and small edits.
+ * Returns 16 hex digits, or null when the browser cannot decode the image.
+ */
+export const perceptualHash = async (image: Blob): Promise<string | null> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+  } catch {
+    return null;
+  }
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = 9;
+    canvas.height = 8;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+    context.drawImage(bitmap, 0, 0, 9, 8);
+    const { data } = context.getImageData(0, 0, 9, 8);
+    const grey = (x: number, y: number) => {
+      const i = (y * 9 + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+    let hash = '';
+    for (let y = 0; y < 8; y++) {
+      let nibble = 0;
+      for (let x = 0; x < 8; x++) {
+        nibble = (nibble << 1) | (grey(x + 1, y) > grey(x, y) ? 1 : 0);
+        if (x % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+    return hash;
+  } finally {
+    bitmap.close();
+  }
+};
+
+const popCount = (value: number) => {
+  let bits = value - ((value >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (((bits + (bits >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+// A 64-bit hash as two 32-bit halves, since bitwise operators stop at 32 bits.
+const unpack = (hash: string) => [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+
+const distance = (a: number[], b: number[]) => popCount(a[0] ^ b[0]) + popCount(a[1] ^ b[1]);
+
+export const hammingDistance = (a: string, b: string) => distance(unpack(a), unpack(b));
+
+const isSimilar = (a: Pick<MediaFile, 'perceptualHash'>, b: Pick<MediaFile, 'perceptualHash'>) =>
+  Boolean(a.perceptualHash && b.perceptualHash && hammingDistance(a.perceptualHash, b.perceptualHash) <= NEAR_DUPLICATE_DISTANCE);
+
+export type DuplicateMatches = { exact: MediaFile[]; similar: MediaFile[] };
+
+/** Library items identical to, or looking like, a file about to be uploaded. */
+export const findDuplicates = (candidate: Pick<MediaFile, 'contentHash' | 'perceptualHash'>, library: MediaFile[]): DuplicateMatches => {
+  const exact = library.filter(item => candidate.contentHash && item.contentHash === candidate.contentHash);
+  const similar = library.filter(item => !exact.includes(item) && isSimilar(candidate, item));
+  return { exact, similar };
+};
+
+/**
+ * Groups the library into sets of copies: identical content, or pictures within
+ * NEAR_DUPLICATE_DISTANCE of each other (transitively). Items without copies are left out.
+ */
+export const groupDuplicates = (media: MediaFile[]): MediaFile[][] => {
+  const parent = media.map((_, index) => index);
+  const root = (index: number): number => parent[index] === index ? index : (parent[index] = root(parent[index]));
+  const join = (a: number, b: number) => { parent[root(a)] = root(b); };
+
+  const byHash = new Map<string, number>();
+  media.forEach((item, index) => {
+    if (!item.contentHash) return;
+    const first = byHash.get(item.contentHash);
+    if (first === undefined) byHash.set(item.contentHash, index);
+    else join(index, first);
+  });
+  // Every pair is compared, so the hashes are unpacked once up front.
+  const halves = media.map(item => item.perceptualHash ? unpack(item.perceptualHash) : null);
+  for (let i = 0; i < media.length; i++) {
+    const a = halves[i];
+    if (!a) continue;
+    for (let j = i + 1; j < media.length; j++) {
+      const b = halves[j];
+      if (b && distance(a, b) <= NEAR_DUPLICATE_DISTANCE) join(i, j);
+    }
+  }
+
+  const groups = new Map<number, MediaFile[]>();
+  media.forEach((item, index) => groups.set(root(index), [...(groups.get(root(index)) ?? []), item]));
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
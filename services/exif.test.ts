@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { parseExif, removeGps } from './exif';
+import { crc32 } from './zip';
+
+// A little-endian TIFF block with a camera make and a GPS directory pointing at 22°30'S 43°15'W.
+const tiffWithGps = () => {
+  const view = new DataView(new ArrayBuffer(140));
+  const entry = (offset: number, tag: number, type: number, count: number, value: number) => {
+    view.setUint16(offset, tag, true);
+    view.setUint16(offset + 2, type, true);
+    view.setUint32(offset + 4, count, true);
+    view.setUint32(offset + 8, value, true);
+  };
+  const ascii = (offset: number, text: string) => [...text].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, 2, true);
+  entry(10, 0x010f, 2, 4, 0);
+  ascii(18, 'Cam');
+  entry(22, 0x8825, 4, 1, 38);
+  view.setUint16(38, 4, true);
+  entry(40, 1, 2, 2, 0);
+  ascii(48, 'S');
+  entry(52, 2, 5, 3, 92);
+  entry(64, 3, 2, 2, 0);
+  ascii(72, 'W');
+  entry(76, 4, 5, 3, 116);
+  [22, 1, 30, 1, 0, 1, 43, 1, 15, 1, 0, 1].forEach((value, i) => view.setUint32(92 + i * 4, value, true));
+  return new Uint8Array(view.buffer);
+};
+
+const jpegWithGps = () => {
+  const tiff = tiffWithGps();
+  const header = [0xff, 0xd8, 0xff, 0xe1, ((tiff.length + 8) >> 8) & 0xff, (tiff.length + 8) & 0xff, 0x45, 0x78, 0x69, 0x66, 0, 0];
+  return new Uint8Array([...header, ...tiff, 0xff, 0xda, 0x00, 0x08, 1, 2, 3, 4, 5, 6, 0xff, 0xd9]);
+};
+
+const ascii = (text: string) => new Uint8Array([...text].map(char => char.charCodeAt(0)));
+
+const concat = (...parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => (bytes.set(part, offset), offset + part.length), 0);
+  return bytes;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = concat(new Uint8Array(4), ascii(type), data, new Uint8Array(4));
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const pngWithGps = () => concat(
+  new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  pngChunk('IHDR', new Uint8Array(13)),
+  pngChunk('eXIf', tiffWithGps()),
+  pngChunk('IEND', new Uint8Array()),
+);
+
+const webpWithGps = (prefix: Uint8Array) => {
+  const exif = concat(prefix, tiffWithGps());
+  const chunks = concat(ascii('VP8X'), new Uint8Array([10, 0, 0, 0]), new Uint8Array(10), ascii('EXIF'), new Uint8Array(4), exif);
+  new DataView(chunks.buffer).setUint32(22, exif.length, true);
+  const riff = concat(ascii('RIFF'), new Uint8Array(4), ascii('WEBP'), chunks);
+  new DataView(riff.buffer).setUint32(4, riff.length - 8, true);
+  return riff;
+};
+
+// An ISO BMFF file whose EXIF item sits in `mdat`, behind the offset HEIF puts first.
+const heifWithGps = () => concat(
+  new Uint8Array([0, 0, 0, 16]), ascii('ftypheic'), new Uint8Array(4),
+  new Uint8Array([0, 0, 0, 158]), ascii('mdat'), new Uint8Array(4), ascii('Exif'), new Uint8Array(2), tiffWithGps(),
+);
+
+describe('removeGps', () => {
+  it('erases the location of a JPEG and keeps the rest of its metadata', () => {
+    const jpeg = jpegWithGps();
+    expect(parseExif(jpeg.buffer)?.gps).toEqual({ latitude: -22.5, longitude: -43.25, altitude: undefined });
+    expect(removeGps(jpeg)).toBe(true);
+    const stripped = parseExif(jpeg.buffer);
+    expect(stripped?.gps).toBeUndefined();
+    expect(stripped?.make).toBe('Cam');
+    expect(jpeg.length).toBe(jpegWithGps().length);
+  });
+
+  it('reports files without a location', () => {
+    const jpeg = jpegWithGps();
+    removeGps(jpeg);
+    expect(removeGps(jpeg)).toBe(false);
+    expect(removeGps(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]))).toBe(false);
+  });
+
+  it.each([
+    ['PNG', pngWithGps()],
+    ['WebP', webpWithGps(new Uint8Array())],
+    ['WebP with an Exif prefix', webpWithGps(concat(ascii('Exif'), new Uint8Array(2)))],
+    ['HEIF', heifWithGps()],
+  ])('erases the location of a %s image', (_format, image) => {
+    expect(parseExif(image.buffer)?.gps?.latitude).toBe(-22.5);
+    expect(removeGps(image)).toBe(true);
+    expect(parseExif(image.buffer)?.gps).toBeUndefined();
+    expect(parseExif(image.buffer)?.make).toBe('Cam');
+  });
+
+  it('keeps the checksum of the PNG chunk valid', () => {
+    const png = pngWithGps();
+    removeGps(png);
+    const chunk = png.subarray(8 + 25, 8 + 25 + 12 + 140);
+    expect(new DataView(chunk.buffer, chunk.byteOffset).getUint32(8 + 140)).toBe(crc32(chunk.subarray(4, 8 + 140)));
+  });
+});
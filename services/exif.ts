@@ -0,0 +1,273 @@
+import { crc32 } from './zip';
+
+// Minimal EXIF reader/editor. It reads the EXIF block of JPEG, PNG, WebP and HEIF images, only
+// ever edits it in place and works on plain byte arrays, so the server can use it as well as
+// the browser.
+
+const JPEG_SOI = 0xffd8;
+const JPEG_SOS = 0xffda;
+const APP1 = 0xffe1;
+const EXIF_SIGNATURE = 0x45786966; // "Exif"
+// Offset of the TIFF header inside the segment: marker, length and "Exif\0\0".
+const TIFF_OFFSET = 10;
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  focalLength: 0x920a,
+  lensMake: 0xa433,
+  lensModel: 0xa434,
+};
+
+const GPS_TAGS = { latitudeRef: 1, latitude: 2, longitudeRef: 3, longitude: 4, altitudeRef: 5, altitude: 6 };
+
+// Bytes per component of each TIFF field type.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+export type ExifData = {
+  make?: string;
+  model?: string;
+  lensMake?: string;
+  lensModel?: string;
+  dateTimeOriginal?: string; // ISO 8601; without a zone when the camera did not record one
+  exposureTime?: number; // seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number; // millimetres
+  gps?: { latitude: number; longitude: number; altitude?: number };
+};
+
+/** Offset and length of the APP1 "Exif" segment (marker included), or null when there is none. */
+const findExifSegment = (bytes: Uint8Array): { offset: number; length: number } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 4 || view.getUint16(0) !== JPEG_SOI) return null;
+  let offset = 2;
+  while (offset + 8 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+    const length = view.getUint16(offset + 2);
+    if (marker === APP1 && view.getUint32(offset + 4) === EXIF_SIGNATURE) return { offset, length: 2 + length };
+    // Metadata segments all come before the start of scan.
+    if (marker === JPEG_SOS) return null;
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/** Returns a copy of the raw APP1 "Exif" segment (marker included) of a JPEG, or null when it has none. */
+export const readExifSegment = (buffer: ArrayBuffer): Uint8Array | null => {
+  const found = findExifSegment(new Uint8Array(buffer));
+  return found ? new Uint8Array(buffer.slice(found.offset, found.offset + found.length)) : null;
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const fourcc = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+// "Exif\0\0" followed by the byte order mark and magic number of a TIFF header.
+const isExifHeader = (bytes: Uint8Array, offset: number) =>
+  fourcc(bytes, offset) === 'Exif' && bytes[offset + 4] === 0 && bytes[offset + 5] === 0
+  && ['II*\0', 'MM\0*'].includes(fourcc(bytes, offset + 6));
+
+// The bytes holding the EXIF data of an image, with the TIFF header at `base`. PNG chunks end
+// with a CRC over `checksummed`, which has to be recomputed after an edit.
+type ExifBlock = { segment: Uint8Array; base: number; checksummed?: Uint8Array };
+
+const findExifBlock = (bytes: Uint8Array): ExifBlock | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const jpeg = findExifSegment(bytes);
+  if (jpeg) return { segment: bytes.subarray(jpeg.offset, jpeg.offset + jpeg.length), base: TIFF_OFFSET };
+
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    // Chunks: length, type, data and a CRC of type and data. eXIf holds a bare TIFF block.
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+      const length = view.getUint32(offset);
+      if (offset + 12 + length > bytes.length) return null;
+      if (fourcc(bytes, offset + 4) === 'eXIf') {
+        return { segment: bytes.subarray(offset + 8, offset + 8 + length), base: 0, checksummed: bytes.subarray(offset + 4, offset + 8 + length) };
+      }
+      offset += 12 + length;
+    }
+    return null;
+  }
+
+  if (fourcc(bytes, 0) === 'RIFF' && fourcc(bytes, 8) === 'WEBP') {
+    // Chunks: type, little-endian length, data padded to an even length. Some writers keep the
+    // "Exif\0\0" prefix of JPEG inside the EXIF chunk.
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset + 4, true);
+      if (offset + 8 + length > bytes.length) return null;
+      if (fourcc(bytes, offset) === 'EXIF') {
+        const segment = bytes.subarray(offset + 8, offset + 8 + length);
+        return { segment, base: isExifHeader(segment, 0) ? 6 : 0 };
+      }
+      offset += 8 + length + (length % 2);
+    }
+    return null;
+  }
+
+  if (fourcc(bytes, 4) === 'ftyp') {
+    // HEIF and AVIF keep EXIF as an item whose location is buried in the item tables; its data
+    // always starts with "Exif\0\0" and a TIFF header, so the file is searched for that instead.
+    for (let offset = 8; offset + 14 <= bytes.length; offset++) {
+      if (bytes[offset] === 0x45 && isExifHeader(bytes, offset)) return { segment: bytes.subarray(offset), base: 6 };
+    }
+  }
+  return null;
+};
+
+type IfdEntry = { tag: number; type: number; count: number; valueOffset: number };
+
+// Reads IFDs relative to the TIFF header at `base` in a segment, ignoring anything out of bounds.
+const createTiffReader = (segment: Uint8Array, base = TIFF_OFFSET) => {
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  if (view.byteLength < base + 8) return null;
+  const littleEndian = view.getUint16(base) === 0x4949;
+  const inBounds = (offset: number, length: number) => offset >= 0 && offset + length <= view.byteLength;
+
+  const entries = (ifdOffset: number): IfdEntry[] => {
+    const start = base + ifdOffset;
+    if (!inBounds(start, 2)) return [];
+    const count = view.getUint16(start, littleEndian);
+    const result: IfdEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      if (!inBounds(entry, 12)) break;
+      const type = view.getUint16(entry + 2, littleEndian);
+      const components = view.getUint32(entry + 4, littleEndian);
+      const size = (TYPE_SIZES[type] ?? 1) * components;
+      // Values of up to four bytes are stored inline, larger ones elsewhere.
+      const valueOffset = size <= 4 ? entry + 8 : base + view.getUint32(entry + 8, littleEndian);
+      if (!inBounds(valueOffset, size)) continue;
+      result.push({ tag: view.getUint16(entry, littleEndian), type, count: components, valueOffset });
+    }
+    return result;
+  };
+
+  const numbers = ({ type, count, valueOffset }: IfdEntry): number[] => Array.from({ length: count }, (_, i) => {
+    switch (type) {
+      case 3: return view.getUint16(valueOffset + i * 2, littleEndian);
+      case 4: return view.getUint32(valueOffset + i * 4, littleEndian);
+      case 9: return view.getInt32(valueOffset + i * 4, littleEndian);
+      case 5: {
+        const denominator = view.getUint32(valueOffset + i * 8 + 4, littleEndian);
+        return denominator ? view.getUint32(valueOffset + i * 8, littleEndian) / denominator : 0;
+      }
+      case 10: {
+        const denominator = view.getInt32(valueOffset + i * 8 + 4, littleEndian);
+        return denominator ? view.getInt32(valueOffset + i * 8, littleEndian) / denominator : 0;
+      }
+      default: return view.getUint8(valueOffset + i);
+    }
+  });
+
+  const text = ({ count, valueOffset }: IfdEntry) =>
+    String.fromCharCode(...segment.subarray(valueOffset, valueOffset + count)).replace(/\0+$/, '').trim();
+
+  const firstIfd = view.getUint32(base + 4, littleEndian);
+  return { view, base, littleEndian, entries, numbers, text, firstIfd };
+};
+
+const toIsoDate = (exifDate: string, offset?: string) => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/.exec(exifDate);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : ''}`;
+};
+
+const toDegrees = ([degrees = 0, minutes = 0, seconds = 0]: number[], ref: string, negativeRef: string) =>
+  (degrees + minutes / 60 + seconds / 3600) * (ref === negativeRef ? -1 : 1);
+
+/** Extracts the camera, exposure, capture date and location from the EXIF data of an image. */
+export const parseExif = (buffer: ArrayBuffer): ExifData | null => {
+  const block = findExifBlock(new Uint8Array(buffer));
+  const reader = block && createTiffReader(block.segment, block.base);
+  if (!reader) return null;
+  const { entries, numbers, text } = reader;
+
+  const ifd0 = entries(reader.firstIfd);
+  const find = (list: IfdEntry[], tag: number) => list.find(entry => entry.tag === tag);
+  const textOf = (list: IfdEntry[], tag: number) => {
+    const entry = find(list, tag);
+    return entry && entry.type === 2 ? text(entry) || undefined : undefined;
+  };
+  const numberOf = (list: IfdEntry[], tag: number) => {
+    const entry = find(list, tag);
+    return entry && entry.type !== 2 ? numbers(entry)[0] : undefined;
+  };
+
+  const exifPointer = numberOf(ifd0, TAGS.exifIfd);
+  const exifIfd = exifPointer !== undefined ? entries(exifPointer) : [];
+  const gpsPointer = numberOf(ifd0, TAGS.gpsIfd);
+  const gpsIfd = gpsPointer !== undefined ? entries(gpsPointer) : [];
+
+  const data: ExifData = {
+    make: textOf(ifd0, TAGS.make),
+    model: textOf(ifd0, TAGS.model),
+    lensMake: textOf(exifIfd, TAGS.lensMake),
+    lensModel: textOf(exifIfd, TAGS.lensModel),
+    exposureTime: numberOf(exifIfd, TAGS.exposureTime),
+    fNumber: numberOf(exifIfd, TAGS.fNumber),
+    iso: numberOf(exifIfd, TAGS.iso),
+    focalLength: numberOf(exifIfd, TAGS.focalLength),
+  };
+  const dateTimeOriginal = textOf(exifIfd, TAGS.dateTimeOriginal);
+  if (dateTimeOriginal) data.dateTimeOriginal = toIsoDate(dateTimeOriginal, textOf(exifIfd, TAGS.offsetTimeOriginal));
+
+  const latitude = find(gpsIfd, GPS_TAGS.latitude);
+  const longitude = find(gpsIfd, GPS_TAGS.longitude);
+  if (latitude && longitude) {
+    const altitude = numberOf(gpsIfd, GPS_TAGS.altitude);
+    data.gps = {
+      latitude: toDegrees(numbers(latitude), textOf(gpsIfd, GPS_TAGS.latitudeRef) ?? 'N', 'S'),
+      longitude: toDegrees(numbers(longitude), textOf(gpsIfd, GPS_TAGS.longitudeRef) ?? 'E', 'W'),
+      altitude: altitude !== undefined ? altitude * (numberOf(gpsIfd, GPS_TAGS.altitudeRef) === 1 ? -1 : 1) : undefined,
+    };
+  }
+  return data;
+};
+
+/** Sets the orientation tag of an EXIF segment to "upright", for images whose pixels were already rotated. */
+export const resetOrientation = (segment: Uint8Array) => {
+  const reader = createTiffReader(segment);
+  const entry = reader?.entries(reader.firstIfd).find(candidate => candidate.tag === TAGS.orientation);
+  if (reader && entry) reader.view.setUint16(entry.valueOffset, 1, reader.littleEndian);
+};
+
+/**
+ * Erases the location from an image in place: every GPS value is zeroed and the GPS directory
+ * emptied, leaving offsets (and so the rest of the metadata) intact. Returns whether
+ * anything was removed.
+ */
+export const removeGps = (bytes: Uint8Array): boolean => {
+  const block = findExifBlock(bytes);
+  const reader = block && createTiffReader(block.segment, block.base);
+  if (!reader) return false;
+  const { segment, checksummed } = block;
+  const pointer = reader.entries(reader.firstIfd).find(entry => entry.tag === TAGS.gpsIfd);
+  const gpsOffset = pointer && reader.numbers(pointer)[0];
+  if (gpsOffset === undefined) return false;
+  const gpsEntries = reader.entries(gpsOffset);
+  if (gpsEntries.length === 0) return false;
+  gpsEntries.forEach(entry => {
+    segment.fill(0, entry.valueOffset, entry.valueOffset + (TYPE_SIZES[entry.type] ?? 1) * entry.count);
+  });
+  const start = reader.base + gpsOffset;
+  const count = reader.view.getUint16(start, reader.littleEndian);
+  segment.fill(0, start + 2, Math.min(segment.length, start + 2 + count * 12));
+  reader.view.setUint16(start, 0, reader.littleEndian);
+  if (checksummed) {
+    new DataView(bytes.buffer, bytes.byteOffset).setUint32(checksummed.byteOffset - bytes.byteOffset + checksummed.length, crc32(checksummed));
+  }
+  return true;
+};
@@ -0,0 +1,74 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AiLanguage, AiProvider, AiUnavailableError, FIELD_DESCRIPTIONS, buildPrompt, parseAnalysis } from "./aiProvider";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+export const DEFAULT_GEMINI_EMBEDDING_MODEL = "gemini-embedding-001";
+// Shorter than the model's native size; plenty for ranking a personal library and cheaper to store.
+const EMBEDDING_DIMENSIONS = 768;
+
+const analysisSchema = (language: AiLanguage) => {
+  const descriptions = FIELD_DESCRIPTIONS[language];
+  return {
+    type: Type.OBJECT,
+    properties: {
+      tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: descriptions.tags },
+      caption: { type: Type.STRING, description: descriptions.caption },
+      altText: { type: Type.STRING, description: descriptions.altText },
+      text: { type: Type.STRING, description: descriptions.text },
+      colors: { type: Type.ARRAY, items: { type: Type.STRING }, description: descriptions.colors },
+    },
+    required: ["tags", "caption", "altText", "text", "colors"],
+    propertyOrdering: ["tags", "caption", "altText", "text", "colors"],
+  };
+};
+
+export const createGeminiProvider = ({ apiKey, model, embeddingModel, language }: { apiKey?: string; model: string; embeddingModel: string; language: AiLanguage }): AiProvider => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  const embeddingModelName = embeddingModel || DEFAULT_GEMINI_EMBEDDING_MODEL;
+
+  const client = () => {
+    if (!ai) {
+      throw new AiUnavailableError("IA desativada: a variável GEMINI_API_KEY não está definida.");
+    }
+    return ai;
+  };
+
+  return {
+    analyzeImage: async (base64Image, mimeType) => {
+      const ai = client();
+
+      const imagePart = {
+        inlineData: {
+          data: base64Image,
+          mimeType,
+        },
+      };
+
+      const response = await ai.models.generateContent({
+        model: model || DEFAULT_GEMINI_MODEL,
+        contents: { parts: [imagePart, { text: buildPrompt(language, false) }] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: analysisSchema(language),
+          thinkingConfig: { thinkingBudget: 0 } // faster response for tagging
+        }
+      });
+
+      return parseAnalysis(response.text);
+    },
+    embeddingModel: `gemini:${embeddingModelName}`,
+    embed: async (texts, purpose) => {
+      const response = await client().models.embedContent({
+        model: embeddingModelName,
+        contents: texts,
+        config: {
+          taskType: purpose === 'query' ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT",
+          outputDimensionality: EMBEDDING_DIMENSIONS,
+        },
+      });
+      const vectors = (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+      if (vectors.length !== texts.length) throw new Error("A IA não retornou todos os embeddings.");
+      return vectors;
+    },
+  };
+};
@@ -0,0 +1,210 @@
+import { Album, MediaFile, ShareLink } from '../types';
+import { DERIVED_MIME_TYPES, MediaEntry, StorageAdapter, StorageQuotaError, StorageRequestError, getFileExtension } from './storageAdapter';
+
+// Media tokens this close to expiring are replaced, so a video can keep loading for a while.
+const MEDIA_TOKEN_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Adapter for the self-hosted GuardMídia server (see `server/index.ts`). Content is
+ * streamed to and from the server, so media URLs point straight at it. Library requests
+ * carry the session token obtained from `login` or `resumeSession`.
+ */
+export const createHttpStorage = (baseUrl: string): StorageAdapter => {
+  const root = baseUrl.replace(/\/+$/, '');
+  let sessionToken: string | null = null;
+  // Tokens for the URLs of single items, reused while they have a while left to run.
+  let mediaTokens = new Map<string, { token: string; expiresAt: number }>();
+  const setSession = (token: string | null) => {
+    sessionToken = token;
+    mediaTokens = new Map();
+  };
+  const mediaPath = (owner: string, id?: string) =>
+    `/api/libraries/${encodeURIComponent(owner)}/media${id ? `/${encodeURIComponent(id)}` : ''}`;
+
+  const request = async (path: string, init?: RequestInit): Promise<Response> => {
+    let response: Response;
+    try {
+      const headers = new Headers(init?.headers);
+      if (sessionToken) headers.set('Authorization', `Bearer ${sessionToken}`);
+      response = await fetch(`${root}${path}`, { ...init, headers });
+    } catch (error) {
+      throw new StorageRequestError(`Servidor de armazenamento indisponível em ${root}.`);
+    }
+    if (response.status === 507) {
+      // Either the disk is full or the owner's quota would be exceeded; the body says which.
+      const body = await response.json().catch(() => ({}));
+      throw new StorageQuotaError(body.error || 'Espaço de armazenamento do servidor esgotado.');
+    }
+    if (!response.ok && ![401, 403, 404, 409].includes(response.status)) {
+      throw new StorageRequestError(`O servidor respondeu ${response.status} para ${path}.`, response.status);
+    }
+    return response;
+  };
+
+  const expectOk = async (response: Response) => {
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new StorageRequestError(body.error || `O servidor respondeu ${response.status}.`, response.status);
+    }
+    return response;
+  };
+
+  const sendJson = (path: string, method: string, body: unknown) =>
+    request(path, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  const putBlob = async (path: string, blob: Blob, mimeType: string) => {
+    await expectOk(await request(path, {
+      method: 'PUT',
+      headers: { 'Content-Type': mimeType || 'application/octet-stream' },
+      body: blob,
+    }));
+  };
+
+  const putMedia = async (owner: string, entries: MediaEntry[]) => {
+    for (const { item, blob, poster, thumbnail } of entries) {
+      // Content goes first so a stored record never points at missing bytes.
+      await putBlob(`${mediaPath(owner, item.id)}/content`, blob, item.mimeType);
+      if (poster) await putBlob(`${mediaPath(owner, item.id)}/poster`, poster, DERIVED_MIME_TYPES.poster);
+      if (thumbnail) await putBlob(`${mediaPath(owner, item.id)}/thumbnail`, thumbnail, DERIVED_MIME_TYPES.thumbnail);
+      await expectOk(await sendJson(mediaPath(owner, item.id), 'PUT', item));
+    }
+  };
+
+  const deleteMedia = async (owner: string, ids: string[]) => {
+    for (const id of ids) {
+      await request(mediaPath(owner, id), { method: 'DELETE' });
+    }
+  };
+
+  const withShareUrl = (link: Omit<ShareLink, 'url'>): ShareLink => ({
+    ...link,
+    url: `${root}/s/${encodeURIComponent(link.token)}`,
+  });
+
+  const listMedia = async (owner: string): Promise<MediaFile[]> => {
+    const response = await expectOk(await request(mediaPath(owner)));
+    return response.json();
+  };
+
+  return {
+    listMedia,
+    getMediaContent: async (owner, id, variant = 'content') => {
+      const response = await request(`${mediaPath(owner, id)}/${variant}`);
+      if (response.status === 404) return null;
+      return (await expectOk(response)).blob();
+    },
+    // <img> and <video> cannot send headers, so a short-lived token for the one item travels in
+    // the query string, never the session token.
+    getMediaUrl: async (owner, id, variant = 'content') => {
+      const key = `${owner}/${id}`;
+      let cached = mediaTokens.get(key);
+      if (!cached || cached.expiresAt - Date.now() < MEDIA_TOKEN_MARGIN_MS) {
+        const response = await request(`${mediaPath(owner, id)}/access-tokens`, { method: 'POST' });
+        if (response.status === 404) return null;
+        const { token, expiresAt } = await (await expectOk(response)).json();
+        cached = { token, expiresAt: Date.parse(expiresAt) };
+        mediaTokens.set(key, cached);
+      }
+      return `${root}${mediaPath(owner, id)}/${variant}?access_token=${encodeURIComponent(cached.token)}`;
+    },
+    putMedia,
+    putVariant: (owner, id, variant, blob) => putBlob(`${mediaPath(owner, id)}/${variant}`, blob, DERIVED_MIME_TYPES[variant]),
+    putRevisionContent: (owner, id, hash, blob) => putBlob(`${mediaPath(owner, id)}/revisions/${hash}`, blob, blob.type),
+    getRevisionContent: async (owner, id, hash) => {
+      const response = await request(`${mediaPath(owner, id)}/revisions/${hash}`);
+      if (response.status === 404) return null;
+      return (await expectOk(response)).blob();
+    },
+    updateMedia: async (owner, item) => {
+      await expectOk(await sendJson(mediaPath(owner, item.id), 'PUT', item));
+    },
+    deleteMedia,
+    // The server has no transactions, so nothing is deleted until every entry has been written.
+    replaceLibrary: async (owner, entries) => {
+      const existing = await listMedia(owner);
+      await putMedia(owner, entries);
+      const restoredIds = new Set(entries.map(entry => entry.item.id));
+      await deleteMedia(owner, existing.filter(item => !restoredIds.has(item.id)).map(item => item.id));
+    },
+    listAlbums: async (owner) => {
+      const response = await expectOk(await request(`/api/libraries/${encodeURIComponent(owner)}/albums`));
+      return response.json();
+    },
+    putAlbums: async (owner, albums) => {
+      for (const album of albums) {
+        await expectOk(await sendJson(`/api/libraries/${encodeURIComponent(owner)}/albums/${encodeURIComponent(album.id)}`, 'PUT', album));
+      }
+    },
+    deleteAlbum: async (owner, id) => {
+      await expectOk(await request(`/api/libraries/${encodeURIComponent(owner)}/albums/${encodeURIComponent(id)}`, { method: 'DELETE' }));
+    },
+    logEvents: async (owner, events) => {
+      await expectOk(await sendJson(`/api/libraries/${encodeURIComponent(owner)}/events`, 'POST', events));
+    },
+    listEvents: async (owner) => {
+      const response = await expectOk(await request(`/api/libraries/${encodeURIComponent(owner)}/events`));
+      return response.json();
+    },
+    getQuota: async (owner) => {
+      const response = await expectOk(await request(`/api/libraries/${encodeURIComponent(owner)}/quota`));
+      return (await response.json()).quota;
+    },
+    getPublicUrl: (item) =>
+      item.isPublic && item.publicId ? `${root}/m/${item.publicId}.${getFileExtension(item)}` : null,
+    listShareLinks: async (owner, mediaId) => {
+      const response = await expectOk(await request(`${mediaPath(owner, mediaId)}/shares`));
+      return (await response.json()).map(withShareUrl);
+    },
+    createShareLink: async (owner, mediaId, options) => {
+      const response = await expectOk(await sendJson(`${mediaPath(owner, mediaId)}/shares`, 'POST', options));
+      return withShareUrl(await response.json());
+    },
+    revokeShareLink: async (owner, token) => {
+      await expectOk(await request(`/api/libraries/${encodeURIComponent(owner)}/shares/${encodeURIComponent(token)}`, { method: 'DELETE' }));
+    },
+    createUser: async (username, password) => {
+      const response = await sendJson('/api/users', 'POST', { username, password });
+      if (response.status === 409) return false;
+      await expectOk(response);
+      return true;
+    },
+    login: async (username, password) => {
+      const response = await sendJson('/api/sessions', 'POST', { username, password });
+      if (response.status === 401) return null;
+      const { token } = await (await expectOk(response)).json();
+      setSession(token);
+      return token;
+    },
+    resumeSession: async (token) => {
+      setSession(token);
+      const response = await request('/api/sessions/current');
+      if (response.status === 401) {
+        setSession(null);
+        return null;
+      }
+      const { username } = await (await expectOk(response)).json();
+      return username;
+    },
+    endSession: () => {
+      setSession(null);
+    },
+    changePassword: async (username, currentPassword, newPassword) => {
+      const response = await sendJson(`/api/users/${encodeURIComponent(username)}/password`, 'PUT', { currentPassword, newPassword });
+      if (response.status === 403) return null;
+      const { token } = await (await expectOk(response)).json();
+      setSession(token);
+      return token;
+    },
+    deleteAccount: async (username, password) => {
+      const response = await sendJson(`/api/users/${encodeURIComponent(username)}`, 'DELETE', { password });
+      if (response.status === 403) return false;
+      await expectOk(response);
+      setSession(null);
+      return true;
+    },
+  };
+};
@@ -0,0 +1,113 @@
+export type CropRect = { x: number; y: number; width: number; height: number }; // fractions of the rotated image
+
+export type ImageAdjustments = {
+  brightness: number; // percent, 100 leaves the image unchanged
+  contrast: number;
+  saturation: number;
+};
+
+export type ImageEdit = ImageAdjustments & {
+  rotation: 0 | 90 | 180 | 270; // clockwise
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  crop: CropRect | null;
+  outputWidth: number | null; // null keeps the cropped size
+};
+
+export const IDENTITY_EDIT: ImageEdit = {
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  crop: null,
+  outputWidth: null,
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+};
+
+// Types the canvas can encode; anything else is saved as JPEG.
+const EDITABLE_OUTPUT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const orientedSize = (width: number, height: number, rotation: ImageEdit['rotation']) =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+/** Size of the saved image once rotation, crop and resize are applied. */
+export const editedSize = (width: number, height: number, edit: ImageEdit) => {
+  const oriented = orientedSize(width, height, edit.rotation);
+  const crop = edit.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const croppedWidth = Math.max(1, Math.round(oriented.width * crop.width));
+  const croppedHeight = Math.max(1, Math.round(oriented.height * crop.height));
+  if (!edit.outputWidth || edit.outputWidth === croppedWidth) return { width: croppedWidth, height: croppedHeight };
+  return { width: edit.outputWidth, height: Math.max(1, Math.round(croppedHeight * edit.outputWidth / croppedWidth)) };
+};
+
+/** Draws the image rotated and flipped; the canvas is resized to fit. Also used for the live preview. */
+export const drawOriented = (canvas: HTMLCanvasElement, image: CanvasImageSource & { width: number; height: number }, edit: ImageEdit, scale = 1) => {
+  const { width, height } = orientedSize(image.width * scale, image.height * scale, edit.rotation);
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas indisponível.');
+  context.save();
+  context.translate(canvas.width / 2, canvas.height / 2);
+  // Flips apply to the image as seen on screen, i.e. after rotating.
+  context.scale(edit.flipHorizontal ? -1 : 1, edit.flipVertical ? -1 : 1);
+  context.rotate((edit.rotation * Math.PI) / 180);
+  context.drawImage(image, (-image.width * scale) / 2, (-image.height * scale) / 2, image.width * scale, image.height * scale);
+  context.restore();
+};
+
+/** The CSS filter equivalent to the adjustments, for previewing them without touching pixels. */
+export const adjustmentFilter = ({ brightness, contrast, saturation }: ImageAdjustments) =>
+  `brightness(${brightness}%) contrast(${contrast}%) saturate(${saturation}%)`;
+
+// Same order and formulas as the CSS filters, so the saved image matches the preview.
+const applyAdjustments = (data: Uint8ClampedArray, { brightness, contrast, saturation }: ImageAdjustments) => {
+  const b = brightness / 100;
+  const c = contrast / 100;
+  const s = saturation / 100;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] * b;
+    let g = data[i + 1] * b;
+    let bl = data[i + 2] * b;
+    r = (r - 127.5) * c + 127.5;
+    g = (g - 127.5) * c + 127.5;
+    bl = (bl - 127.5) * c + 127.5;
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * bl;
+    data[i] = luma + (r - luma) * s;
+    data[i + 1] = luma + (g - luma) * s;
+    data[i + 2] = luma + (bl - luma) * s;
+  }
+};
+
+/** Renders the edit at full resolution and encodes it, in the original format when possible. */
+export const renderEdit = async (image: ImageBitmap, edit: ImageEdit, mimeType: string): Promise<{ blob: Blob; width: number; height: number }> => {
+  const oriented = document.createElement('canvas');
+  drawOriented(oriented, image, edit);
+
+  const crop = edit.crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const { width, height } = editedSize(image.width, image.height, edit);
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const context = output.getContext('2d');
+  if (!context) throw new Error('Canvas indisponível.');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(
+    oriented,
+    crop.x * oriented.width, crop.y * oriented.height, crop.width * oriented.width, crop.height * oriented.height,
+    0, 0, width, height,
+  );
+
+  if (edit.brightness !== 100 || edit.contrast !== 100 || edit.saturation !== 100) {
+    const pixels = context.getImageData(0, 0, width, height);
+    applyAdjustments(pixels.data, edit);
+    context.putImageData(pixels, 0, 0);
+  }
+
+  const type = EDITABLE_OUTPUT_TYPES.includes(mimeType) ? mimeType : 'image/jpeg';
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    output.toBlob(result => result ? resolve(result) : reject(new Error('Falha ao salvar a imagem editada.')), type, 0.92);
+  });
+  return { blob, width, height };
+};
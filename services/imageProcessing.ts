@@ -0,0 +1,97 @@
+import { readExifSegment, resetOrientation } from './exif';
+
+export type ImageOutputFormat = 'original' | 'image/jpeg' | 'image/webp' | 'image/avif';
+
+export type ImageProcessingOptions = {
+  enabled: boolean;
+  maxDimension: number; // 0 keeps the original dimensions
+  format: ImageOutputFormat;
+  quality: number; // 0..1, ignored by lossless formats
+  keepExif: boolean;
+};
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingOptions = {
+  enabled: true,
+  maxDimension: 2560,
+  format: 'image/webp',
+  quality: 0.85,
+  keepExif: false,
+};
+
+export type ProcessedImage = {
+  file: File;
+  width: number;
+  height: number;
+  // False when the result was no better than the original, which is then kept untouched.
+  changed: boolean;
+};
+
+// Canvas would flatten animations and rasterize vectors.
+const UNPROCESSABLE_TYPES = ['image/gif', 'image/svg+xml'];
+
+export const canProcessImage = ({ type }: { type: string }) => type.startsWith('image/') && !UNPROCESSABLE_TYPES.includes(type);
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/avif': 'avif', 'image/png': 'png' };
+
+export const renameForType = (name: string, mimeType: string) => {
+  const extension = EXTENSIONS[mimeType];
+  if (!extension) return name;
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${base}.${extension}`;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Falha ao recodificar a imagem.')), mimeType, quality);
+  });
+
+// Only JPEG output can carry the original metadata: the APP1 segment is copied over verbatim,
+// except for the orientation, which the canvas has already applied to the pixels.
+const withExifSegment = async (jpeg: Blob, segment: Uint8Array): Promise<Blob> => {
+  const bytes = new Uint8Array(await jpeg.arrayBuffer());
+  // The canvas output starts with SOI followed by its own APP0 (JFIF); EXIF goes right after SOI.
+  return new Blob([bytes.slice(0, 2), segment, bytes.slice(2)], { type: jpeg.type });
+};
+
+/**
+ * Downscales and re-encodes an image in the browser. The EXIF orientation is applied while
+ * decoding, so the output is always upright. When the result would be larger than the original
+ * without having been resized (and has no metadata to strip), the original file is returned instead.
+ */
+export const processImage = async (file: File, options: ImageProcessingOptions): Promise<ProcessedImage> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const { width, height } = bitmap;
+    const scale = options.maxDimension > 0 ? Math.min(1, options.maxDimension / Math.max(width, height)) : 1;
+    const targetWidth = Math.max(1, Math.round(width * scale));
+    const targetHeight = Math.max(1, Math.round(height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = targetWidth;
+    canvas.height = targetHeight;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas indisponível.');
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, targetWidth, targetHeight);
+
+    const requested = options.format === 'original' ? file.type : options.format;
+    let blob = await canvasToBlob(canvas, requested, options.quality);
+    // Browsers silently fall back to PNG for types they cannot encode (AVIF, mostly).
+    if (blob.type !== requested) blob = await canvasToBlob(canvas, 'image/jpeg', options.quality);
+
+    const exif = readExifSegment(await file.arrayBuffer());
+    if (options.keepExif && exif && blob.type === 'image/jpeg') {
+      resetOrientation(exif);
+      blob = await withExifSegment(blob, exif);
+    }
+
+    // Keeping the original would also keep metadata the user asked to strip.
+    if (scale === 1 && blob.size >= file.size && (options.keepExif || !exif)) {
+      return { file, width, height, changed: false };
+    }
+    const processed = new File([blob], renameForType(file.name, blob.type), { type: blob.type, lastModified: file.lastModified });
+    return { file: processed, width: targetWidth, height: targetHeight, changed: true };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchMediaFile, parseUrlList } from './imports';
+import { MAX_UPLOAD_SIZE } from './quota';
+
+// A response whose body records whether it was cancelled before being read.
+const respond = (headers: Record<string, string>, body = 'abc', status = 200) => {
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    start: controller => {
+      controller.enqueue(new TextEncoder().encode(body));
+      controller.close();
+    },
+    cancel: () => { cancelled = true; },
+  });
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(stream, { status, headers })));
+  return { wasCancelled: () => cancelled };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchMediaFile', () => {
+  it('names the file after the address and its type', async () => {
+    respond({ 'Content-Type': 'image/jpeg; charset=binary', 'Content-Length': '3' });
+    const file = await fetchMediaFile('https://example.com/fotos/praia');
+    expect(file.name).toBe('praia.jpg');
+    expect(file.type).toBe('image/jpeg');
+    expect(await file.text()).toBe('abc');
+  });
+
+  it('refuses other content types without reading the body', async () => {
+    const response = respond({ 'Content-Type': 'text/html' });
+    await expect(fetchMediaFile('https://example.com/')).rejects.toThrow('O endereço não aponta para uma imagem ou vídeo.');
+    expect(response.wasCancelled()).toBe(true);
+  });
+
+  it('refuses files announced as larger than the upload limit without reading the body', async () => {
+    const response = respond({ 'Content-Type': 'video/mp4', 'Content-Length': String(MAX_UPLOAD_SIZE + 1) });
+    await expect(fetchMediaFile('https://example.com/filme.mp4')).rejects.toThrow(/acima do limite/);
+    expect(response.wasCancelled()).toBe(true);
+  });
+
+  it('stops reading a body without a length once it passes the upload limit', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+      pull: controller => {
+        sent += chunk.byteLength;
+        controller.enqueue(chunk);
+        if (sent > 2 * MAX_UPLOAD_SIZE) controller.close();
+      },
+      cancel: () => { cancelled = true; },
+    }, { highWaterMark: 0 });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(stream, { headers: { 'Content-Type': 'video/mp4' } })));
+    await expect(fetchMediaFile('https://example.com/filme.mp4')).rejects.toThrow(/acima do limite/);
+    expect(cancelled).toBe(true);
+    expect(sent).toBeLessThanOrEqual(MAX_UPLOAD_SIZE + chunk.byteLength);
+  });
+
+  it('refuses error responses', async () => {
+    respond({ 'Content-Type': 'image/png' }, '', 404);
+    await expect(fetchMediaFile('https://example.com/x.png')).rejects.toThrow('O servidor respondeu com o erro 404.');
+  });
+});
+
+describe('parseUrlList', () => {
+  it('keeps each http address once', () => {
+    expect(parseUrlList('https://a.com/1.jpg  ftp://b.com/2.jpg\nhttps://a.com/1.jpg http://c.com/3.png'))
+      .toEqual(['https://a.com/1.jpg', 'http://c.com/3.png']);
+  });
+});
@@ -0,0 +1,137 @@
+// Ways into the upload list besides picking files by hand: folder trees, URLs and the clipboard.
+
+import { MAX_UPLOAD_SIZE } from './quota';
+
+const MB = 1024 * 1024;
+
+export type ImportedFile = {
+  file: File;
+  folder?: string; // path of the folder the file came from, used as its category
+};
+
+const isMedia = (file: File) => file.type.startsWith('image/') || file.type.startsWith('video/');
+
+// System files such as .DS_Store and Thumbs.db travel along with photo folders.
+const isHidden = (name: string) => name.startsWith('.') || name.toLowerCase() === 'thumbs.db';
+
+const folderOf = (parts: string[]) => parts.length > 0 ? parts.join('/') : undefined;
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const walk = async (entry: FileSystemEntry, folders: string[], found: ImportedFile[]) => {
+  if (isHidden(entry.name)) return;
+  if (entry.isFile) {
+    found.push({ file: await entryFile(entry as FileSystemFileEntry), folder: folderOf(folders) });
+    return;
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // Each call returns a slice of the directory (100 entries in Chrome); an empty one marks the end.
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) await walk(child, [...folders, entry.name], found);
+  }
+};
+
+/**
+ * The files of a drop, descending into dropped folders. Files inside folders keep the folder
+ * path; anything in them that is not an image or video is left out and counted in `ignored`.
+ */
+export const filesFromDrop = async (transfer: DataTransfer): Promise<{ files: ImportedFile[]; ignored: number }> => {
+  // Entries must be taken before the first await: the list is emptied once the drop event ends.
+  const entries = Array.from(transfer.items ?? [])
+    .map(item => item.kind === 'file' ? item.webkitGetAsEntry() : null)
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+  if (entries.length === 0 || entries.every(entry => entry.isFile)) {
+    return { files: Array.from(transfer.files).map(file => ({ file })), ignored: 0 };
+  }
+  const found: ImportedFile[] = [];
+  for (const entry of entries) await walk(entry, [], found);
+  const files = found.filter(({ file, folder }) => !folder || isMedia(file));
+  return { files, ignored: found.length - files.length };
+};
+
+/** The files picked with a folder input, with the folder path taken from `webkitRelativePath`. */
+export const filesFromFolderInput = (list: FileList): { files: ImportedFile[]; ignored: number } => {
+  const picked = Array.from(list).map(file => ({ file, parts: (file.webkitRelativePath || file.name).split('/') }));
+  const files = picked
+    .filter(({ file, parts }) => isMedia(file) && !parts.some(isHidden))
+    .map(({ file, parts }) => ({ file, folder: folderOf(parts.slice(0, -1)) }));
+  return { files, ignored: picked.length - files.length };
+};
+
+/** The distinct http(s) addresses in a pasted block of text, one per line or separated by spaces. */
+export const parseUrlList = (text: string) =>
+  [...new Set(text.split(/\s+/).filter(word => /^https?:\/\/\S+$/i.test(word)))];
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/svg+xml': 'svg', 'video/quicktime': 'mov' };
+
+const extensionFor = (mimeType: string) => EXTENSIONS[mimeType] ?? mimeType.split('/')[1]?.replace(/^x-/, '') ?? 'bin';
+
+const nameFromUrl = (url: string, mimeType: string) => {
+  let name = '';
+  try {
+    name = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+  } catch {
+    // Malformed escapes: fall back to a generic name.
+  }
+  name = name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_');
+  if (!name) name = mimeType.startsWith('video/') ? 'video' : 'imagem';
+  return name.includes('.') ? name : `${name}.${extensionFor(mimeType)}`;
+};
+
+const tooLarge = (bytes: number) =>
+  new Error(`O arquivo tem ${(bytes / MB).toFixed(1)} MB, acima do limite de ${(MAX_UPLOAD_SIZE / MB).toFixed(0)} MB.`);
+
+/**
+ * Downloads an image or video. Fails with a message meant for the user. The type and size are
+ * checked from the headers first, and the size again while reading, so pages and oversized files
+ * are never downloaded whole.
+ */
+export const fetchMediaFile = async (url: string): Promise<File> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    // The browser hides the reason, which is usually a site that does not allow cross-origin downloads.
+    throw new Error('Não foi possível acessar o endereço. O site pode não permitir downloads de outras páginas.');
+  }
+  const reject = (error: Error) => {
+    response.body?.cancel().catch(() => undefined);
+    return error;
+  };
+  if (!response.ok) throw reject(new Error(`O servidor respondeu com o erro ${response.status}.`));
+  const mimeType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+  if (!mimeType.startsWith('image/') && !mimeType.startsWith('video/')) {
+    throw reject(new Error('O endereço não aponta para uma imagem ou vídeo.'));
+  }
+  const declaredSize = Number(response.headers.get('content-length'));
+  if (declaredSize > MAX_UPLOAD_SIZE) throw reject(tooLarge(declaredSize));
+  // Servers may leave the length out, so the download itself is measured and stopped once too large.
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  const reader = response.body?.getReader();
+  for (let chunk = await reader?.read(); chunk && !chunk.done; chunk = await reader?.read()) {
+    received += chunk.value.byteLength;
+    if (received > MAX_UPLOAD_SIZE) {
+      reader?.cancel().catch(() => undefined);
+      throw tooLarge(received);
+    }
+    chunks.push(chunk.value);
+  }
+  return new File(chunks, nameFromUrl(response.url || url, mimeType), { type: mimeType });
+};
+
+/**
+ * The files in a paste event. Browsers name every pasted screenshot "image.png", so those get a
+ * name with the date and time instead.
+ */
+export const filesFromPaste = (data: DataTransfer | null): File[] => {
+  const files = Array.from(data?.files ?? []).filter(isMedia);
+  const stamp = new Date().toISOString().slice(0, 19).replace('T', ' ').replace(/:/g, '-');
+  return files.map((file, index) => /^image\.\w+$/.test(file.name)
+    ? new File([file], `Colado ${stamp}${files.length > 1 ? ` (${index + 1})` : ''}.${extensionFor(file.type)}`, { type: file.type, lastModified: file.lastModified })
+    : file);
+};
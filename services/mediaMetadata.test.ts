@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { extractVideoMetadata, removeVideoLocation } from './mediaMetadata';
+
+const encoder = new TextEncoder();
+
+// `type` is latin-1, so "©xyz" takes four bytes as in real files.
+const box = (type: string, ...parts: Uint8Array[]) => {
+  const size = 8 + parts.reduce((total, part) => total + part.length, 0);
+  const bytes = new Uint8Array(size);
+  new DataView(bytes.buffer).setUint32(0, size);
+  bytes.set([...type].map(char => char.charCodeAt(0)), 4);
+  parts.reduce((offset, part) => (bytes.set(part, offset), offset + part.length), 8);
+  return bytes;
+};
+
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+// A key entry: size, namespace and name, laid out like a box whose type is the namespace.
+const keyEntry = (name: string) => box('mdta', encoder.encode(name));
+
+const value = (number: number, text: string) => {
+  const bytes = box('data', new Uint8Array([0, 0, 0, 1, 0, 0, 0, 0]), encoder.encode(text));
+  const item = box('    ', bytes);
+  item.set(uint32(number), 4);
+  return item;
+};
+
+const LOCATION = '+22.5000-043.2500/';
+
+const videoWithLocation = () => {
+  // Version and flags, then the creation time in seconds since 1904.
+  const mvhd = new Uint8Array(100);
+  new DataView(mvhd.buffer).setUint32(4, 2082844800 + 1700000000);
+  return new Uint8Array([
+    ...box('ftyp', encoder.encode('qt  '), new Uint8Array(4)),
+    ...box('moov',
+      box('mvhd', mvhd),
+      box('udta', box('©xyz', new Uint8Array([0, LOCATION.length, 0x15, 0xc7]), encoder.encode(LOCATION))),
+      box('meta',
+        box('hdlr', new Uint8Array(25)),
+        box('keys', new Uint8Array(4), uint32(2), keyEntry('com.apple.quicktime.make'), keyEntry('com.apple.quicktime.location.ISO6709')),
+        box('ilst', value(1, 'Apple'), value(2, LOCATION)),
+      ),
+    ),
+  ]);
+};
+
+const text = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+describe('removeVideoLocation', () => {
+  it('erases the QuickTime and Apple metadata locations and keeps everything else', () => {
+    const video = videoWithLocation();
+    expect(text(video).split(LOCATION)).toHaveLength(3);
+    expect(removeVideoLocation(video)).toBe(true);
+    expect(text(video)).not.toContain(LOCATION);
+    expect(text(video)).toContain('Apple');
+    expect(text(video)).toContain('com.apple.quicktime.location.ISO6709');
+    expect(video.length).toBe(videoWithLocation().length);
+  });
+
+  it('leaves the container readable', async () => {
+    const video = videoWithLocation();
+    removeVideoLocation(video);
+    expect(await extractVideoMetadata(new Blob([video]))).toEqual({ capturedAt: '2023-11-14T22:13:20.000Z' });
+  });
+
+  it('erases 3GPP location boxes in MP4 user data', () => {
+    const video = new Uint8Array([...box('ftyp', encoder.encode('isom'), new Uint8Array(4)), ...box('moov', box('udta', box('loci', new Uint8Array(4), encoder.encode('Rio'))))]);
+    expect(removeVideoLocation(video)).toBe(true);
+    expect(text(video)).not.toContain('Rio');
+  });
+
+  it('reports files without a location', () => {
+    expect(removeVideoLocation(new Uint8Array([...box('ftyp', encoder.encode('isom'), new Uint8Array(4)), ...box('moov', box('mvhd', new Uint8Array(100)))]))).toBe(false);
+    expect(removeVideoLocation(new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0, 0, 0, 0]))).toBe(false);
+  });
+});
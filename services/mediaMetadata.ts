@@ -0,0 +1,182 @@
+import { MediaMetadata } from '../types';
+import { parseExif } from './exif';
+
+// Seconds between the QuickTime epoch (1904) and the Unix epoch.
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+// Track headers of WebM files sit near the start; no need to scan further.
+const WEBM_SCAN_BYTES = 256 * 1024;
+
+const MP4_CODECS: Record<string, string> = {
+  avc1: 'H.264', avc3: 'H.264', hvc1: 'HEVC', hev1: 'HEVC', av01: 'AV1', vp09: 'VP9', vp08: 'VP8',
+  mp4v: 'MPEG-4 Visual', mp4a: 'AAC', Opus: 'Opus', 'ac-3': 'AC-3', 'ec-3': 'E-AC-3', fLaC: 'FLAC',
+};
+
+const WEBM_CODECS: Record<string, string> = {
+  V_VP8: 'VP8', V_VP9: 'VP9', V_AV1: 'AV1', 'V_MPEG4/ISO/AVC': 'H.264',
+  A_OPUS: 'Opus', A_VORBIS: 'Vorbis', A_AAC: 'AAC',
+};
+
+// Boxes that only contain other boxes, on the way to the sample descriptions.
+const MP4_CONTAINERS = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl']);
+
+const joinNames = (brand?: string, name?: string) =>
+  brand && name && !name.toLowerCase().startsWith(brand.toLowerCase()) ? `${brand} ${name}` : name ?? brand;
+
+const withoutEmpty = (metadata: MediaMetadata): MediaMetadata | undefined => {
+  const entries = Object.entries(metadata).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0));
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+/** Camera, exposure, capture date and location from an image's EXIF data (JPEG, PNG, WebP or HEIF). */
+export const extractImageMetadata = async (image: Blob): Promise<MediaMetadata | undefined> => {
+  const exif = parseExif(await image.arrayBuffer());
+  if (!exif) return undefined;
+  return withoutEmpty({
+    camera: joinNames(exif.make, exif.model),
+    lens: joinNames(exif.lensMake, exif.lensModel),
+    capturedAt: exif.dateTimeOriginal,
+    exposureTime: exif.exposureTime,
+    fNumber: exif.fNumber,
+    iso: exif.iso,
+    focalLength: exif.focalLength,
+    location: exif.gps,
+  });
+};
+
+const readMp4 = (view: DataView) => {
+  const codecs: string[] = [];
+  let createdAt: string | undefined;
+  const fourcc = (offset: number) => String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + offset, 4));
+
+  const walk = (start: number, end: number) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset);
+      const type = fourcc(offset + 4);
+      let header = 8;
+      if (size === 1 && offset + 16 <= end) {
+        size = Number(view.getBigUint64(offset + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header || offset + size > end) return;
+      const body = offset + header;
+      if (MP4_CONTAINERS.has(type)) {
+        walk(body, offset + size);
+      } else if (type === 'mvhd' && body + 12 <= end) {
+        const version = view.getUint8(body);
+        const seconds = version === 1 ? Number(view.getBigUint64(body + 4)) : view.getUint32(body + 4);
+        if (seconds > QUICKTIME_EPOCH_OFFSET) createdAt = new Date((seconds - QUICKTIME_EPOCH_OFFSET) * 1000).toISOString();
+      } else if (type === 'stsd' && body + 16 <= end) {
+        // Version and flags, entry count, then the first sample entry's size and format.
+        const format = fourcc(body + 12);
+        codecs.push(MP4_CODECS[format] ?? format.trim());
+      }
+      offset += size;
+    }
+  };
+  walk(0, view.byteLength);
+  return { codecs, createdAt };
+};
+
+const readWebmCodecs = (bytes: Uint8Array) => {
+  const header = new TextDecoder('latin1').decode(bytes.subarray(0, WEBM_SCAN_BYTES));
+  return Object.entries(WEBM_CODECS).filter(([id]) => header.includes(id)).map(([, name]) => name);
+};
+
+/**
+ * Duration comes from the browser (see `extractKeyframes`); the codecs and creation time are
+ * read from the MP4/QuickTime or WebM container, when it is one of those.
+ */
+export const extractVideoMetadata = async (video: Blob, duration?: number): Promise<MediaMetadata | undefined> => {
+  const buffer = await video.arrayBuffer();
+  const view = new DataView(buffer);
+  let codecs: string[] = [];
+  let capturedAt: string | undefined;
+  if (view.byteLength >= 4 && view.getUint32(0) === 0x1a45dfa3) {
+    codecs = readWebmCodecs(new Uint8Array(buffer));
+  } else if (view.byteLength >= 8) {
+    ({ codecs, createdAt: capturedAt } = readMp4(view));
+  }
+  return withoutEmpty({ duration: duration || undefined, codecs: Array.from(new Set(codecs)), capturedAt });
+};
+
+// Boxes on the way to the places MP4 and QuickTime files keep a recording location in.
+const LOCATION_CONTAINERS = new Set(['moov', 'trak', 'udta', 'meta']);
+// Text boxes with ISO 6709 coordinates: QuickTime's user data and 3GPP's location box.
+const LOCATION_BOXES = new Set(['\u00a9xyz', 'loci']);
+// Apple's metadata keys for the location, its accuracy and related data.
+const LOCATION_KEY_PREFIX = 'com.apple.quicktime.location';
+
+/**
+ * Erases the recording location from an MP4 or QuickTime file in place: the coordinates are
+ * zeroed while every box keeps its size, so nothing else in the file moves. Returns whether
+ * anything was removed.
+ */
+export const removeVideoLocation = (bytes: Uint8Array): boolean => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fourcc = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  let removed = false;
+
+  const boxes = (start: number, end: number) => {
+    const found: { type: string; number: number; body: number; end: number }[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset);
+      let header = 8;
+      if (size === 1 && offset + 16 <= end) {
+        size = Number(view.getBigUint64(offset + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header || offset + size > end) break;
+      found.push({ type: fourcc(offset + 4), number: view.getUint32(offset + 4), body: offset + header, end: offset + size });
+      offset += size;
+    }
+    return found;
+  };
+
+  // Metadata keys are numbered from 1 in the order of the `keys` box; `ilst` names its values by number.
+  const locationKeys = (body: number, end: number) => {
+    const numbers = new Set<number>();
+    const count = body + 8 <= end ? view.getUint32(body + 4) : 0;
+    let offset = body + 8;
+    for (let number = 1; number <= count && offset + 8 <= end; number++) {
+      const size = view.getUint32(offset);
+      if (size < 8 || offset + size > end) break;
+      const name = String.fromCharCode(...bytes.subarray(offset + 8, offset + size));
+      if (name.startsWith(LOCATION_KEY_PREFIX)) numbers.add(number);
+      offset += size;
+    }
+    return numbers;
+  };
+
+  const erase = (start: number, end: number) => {
+    bytes.fill(0, start, end);
+    removed = true;
+  };
+
+  const walk = (start: number, end: number) => {
+    const children = boxes(start, end);
+    const keys = children.find(box => box.type === 'keys');
+    const locations = keys ? locationKeys(keys.body, keys.end) : new Set<number>();
+    for (const box of children) {
+      if (LOCATION_BOXES.has(box.type)) {
+        erase(box.body, box.end);
+      } else if (box.type === 'ilst') {
+        // Only the payload of the `data` box goes (after its type and locale), so the value stays well formed.
+        boxes(box.body, box.end)
+          .filter(value => locations.has(value.number))
+          .flatMap(value => boxes(value.body, value.end).filter(child => child.type === 'data'))
+          .forEach(data => erase(data.body + 8, data.end));
+      } else if (LOCATION_CONTAINERS.has(box.type)) {
+        // `meta` is a full box (version and flags first) in MP4 files, a plain one in QuickTime.
+        walk(box.type === 'meta' && box.body + 4 <= box.end && view.getUint32(box.body) === 0 ? box.body + 4 : box.body, box.end);
+      }
+    }
+  };
+  walk(0, bytes.length);
+  return removed;
+};
@@ -0,0 +1,49 @@
+import { AiLanguage, AiProvider } from './aiProvider';
+
+const VOCABULARY: Record<AiLanguage, string[]> = {
+  'pt-BR': ['paisagem', 'retrato', 'cidade', 'natureza', 'animal', 'comida', 'praia', 'montanha', 'noite', 'documento', 'arte', 'pessoas'],
+  en: ['landscape', 'portrait', 'city', 'nature', 'animal', 'food', 'beach', 'mountain', 'night', 'document', 'art', 'people'],
+};
+
+const EMBEDDING_DIMENSIONS = 64;
+
+// FNV-1a, enough to spread different inputs over the vocabulary.
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic stand-in for a real model: the same image always yields the same analysis,
+ * without any network access. Meant for tests and for trying the app offline.
+ */
+export const createMockAiProvider = ({ language }: { language: AiLanguage }): AiProvider => ({
+  analyzeImage: async (base64Image) => {
+    const hash = hashString(base64Image);
+    const words = VOCABULARY[language];
+    const tags = Array.from(new Set([0, 1, 2, 3, 4].map(index => words[(hash >>> (index * 4)) % words.length])));
+    const color = `#${(hash & 0xffffff).toString(16).padStart(6, '0')}`;
+    return {
+      tags,
+      analysis: {
+        caption: language === 'en' ? `Test image about ${tags[0]}.` : `Imagem de teste sobre ${tags[0]}.`,
+        altText: tags.join(', '),
+        text: '',
+        colors: [color],
+      },
+    };
+  },
+  // Hashed bag of words: texts sharing words end up close, which is enough to exercise ranking.
+  embeddingModel: 'mock',
+  embed: async (texts) => texts.map(text => {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    text.toLocaleLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).forEach(word => {
+      vector[hashString(word) % EMBEDDING_DIMENSIONS] += 1;
+    });
+    return vector;
+  }),
+});
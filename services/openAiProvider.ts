@@ -0,0 +1,59 @@
+import { AiLanguage, AiProvider, AiUnavailableError, buildPrompt, parseAnalysis } from './aiProvider';
+
+export const DEFAULT_OPENAI_ENDPOINT = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = 'nomic-embed-text';
+
+/**
+ * Talks to any server implementing the OpenAI chat completions (with image input) and
+ * embeddings APIs, such as Ollama or llama.cpp running models locally.
+ */
+export const createOpenAiProvider = ({ endpoint, apiKey, model, embeddingModel, language }: { endpoint: string; apiKey: string; model: string; embeddingModel: string; language: AiLanguage }): AiProvider => {
+  const root = (endpoint || DEFAULT_OPENAI_ENDPOINT).replace(/\/+$/, '');
+  const embeddingModelName = embeddingModel || DEFAULT_OPENAI_EMBEDDING_MODEL;
+
+  const post = async (path: string, body: unknown) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+    } catch {
+      throw new Error(`Servidor de IA indisponível em ${root}.`);
+    }
+    // Wrong credentials or an unknown model will not fix themselves on retry.
+    if (response.status === 401 || response.status === 403 || response.status === 404) {
+      throw new AiUnavailableError(`O servidor de IA respondeu ${response.status}.`);
+    }
+    if (!response.ok) {
+      throw new Error(`O servidor de IA respondeu ${response.status}.`);
+    }
+    return response.json();
+  };
+
+  return {
+    analyzeImage: async (base64Image, mimeType) => {
+      if (!model) {
+        throw new AiUnavailableError('Informe o modelo a usar no servidor compatível com OpenAI.');
+      }
+      const body = await post('/chat/completions', {
+        model,
+        response_format: { type: 'json_object' },
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: buildPrompt(language, true) },
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Image}` } },
+          ],
+        }],
+      });
+      return parseAnalysis(body.choices?.[0]?.message?.content);
+    },
+    embeddingModel: `openai:${root}:${embeddingModelName}`,
+    embed: async (texts) => {
+      const body = await post('/embeddings', { model: embeddingModelName, input: texts });
+      const data: { index: number; embedding: number[] }[] = body.data ?? [];
+      if (data.length !== texts.length) throw new Error('O servidor de IA não retornou todos os embeddings.');
+      return [...data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    },
+  };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { MediaFile, MediaSnapshot } from '../types';
+import { archivedSize, largestItems, libraryUsage, quotaFromMb, quotaLevel } from './quota';
+
+const snapshot = (contentHash: string, size: number) => ({ contentHash, size }) as MediaSnapshot;
+
+const item = (id: string, size: number, hashes: [string, number][] = []) => ({
+  id,
+  size,
+  contentHash: hashes.length ? hashes[hashes.length - 1][0] : undefined,
+  revisions: hashes.map(([hash, bytes], index) => ({ id: `${id}-${index}`, date: '', author: 'ana', changes: [], snapshot: snapshot(hash, bytes) })),
+}) as unknown as MediaFile;
+
+describe('quotaFromMb', () => {
+  it('treats zero as no quota', () => {
+    expect(quotaFromMb(0)).toBeNull();
+    expect(quotaFromMb(1.5)).toBe(1.5 * 1024 * 1024);
+  });
+});
+
+describe('quotaLevel', () => {
+  it('turns yellow at 80% and red at 95%', () => {
+    expect(quotaLevel(79, 100)).toBe('ok');
+    expect(quotaLevel(80, 100)).toBe('warning');
+    expect(quotaLevel(95, 100)).toBe('critical');
+    expect(quotaLevel(1e12, null)).toBe('ok');
+  });
+});
+
+describe('archivedSize', () => {
+  it('counts each earlier content once and leaves the current one out', () => {
+    const edited = item('a', 30, [['h1', 10], ['h2', 20], ['h1', 10], ['h3', 30]]);
+    expect(archivedSize(edited)).toBe(30);
+    expect(archivedSize(item('b', 5))).toBe(0);
+  });
+});
+
+describe('libraryUsage and largestItems', () => {
+  const media = [item('a', 30, [['h1', 10], ['h2', 30]]), item('b', 35), item('c', 5)];
+
+  it('adds the content and archived versions of every item', () => {
+    expect(libraryUsage(media)).toBe(80);
+  });
+
+  it('ranks items by the bytes they take', () => {
+    expect(largestItems(media, 2).map(({ item: { id }, bytes }) => [id, bytes])).toEqual([['a', 40], ['b', 35]]);
+  });
+});
@@ -0,0 +1,55 @@
+import { MediaFile } from '../types';
+
+const MB = 1024 * 1024;
+
+// Sizes in MB from the environment (.env.local for the app, the shell for the server); a quota of
+// 0 means no quota at all.
+const configuredMb = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const MAX_UPLOAD_SIZE = configuredMb(process.env.MAX_UPLOAD_MB, 5) * MB;
+
+export const quotaFromMb = (mb: number): number | null => mb > 0 ? Math.round(mb * MB) : null;
+
+export const DEFAULT_QUOTA = quotaFromMb(configuredMb(process.env.STORAGE_QUOTA_MB, 1024));
+
+// Share of the quota from which the usage meter turns yellow, then red.
+export const QUOTA_WARNING_RATIO = 0.8;
+export const QUOTA_CRITICAL_RATIO = 0.95;
+
+export type QuotaLevel = 'ok' | 'warning' | 'critical';
+
+export const quotaLevel = (used: number, quota: number | null): QuotaLevel => {
+  if (!quota) return 'ok';
+  if (used >= quota * QUOTA_CRITICAL_RATIO) return 'critical';
+  return used >= quota * QUOTA_WARNING_RATIO ? 'warning' : 'ok';
+};
+
+/** Bytes taken by earlier contents an item keeps for its version history. */
+export const archivedSize = (item: MediaFile) => {
+  const seen = new Set([item.contentHash]);
+  let total = 0;
+  item.revisions?.forEach(({ snapshot }) => {
+    if (!snapshot.contentHash || seen.has(snapshot.contentHash)) return;
+    seen.add(snapshot.contentHash);
+    total += snapshot.size ?? 0;
+  });
+  return total;
+};
+
+/**
+ * Bytes counted against the quota: the content of every item, those in the trash included,
+ * plus the earlier contents kept by version history. Posters and thumbnails are left out here;
+ * the storage server measures what it stores, so it counts them too.
+ */
+export const libraryUsage = (items: MediaFile[]) =>
+  items.reduce((total, item) => total + item.size + archivedSize(item), 0);
+
+/** Largest items first, counting their archived versions. */
+export const largestItems = (items: MediaFile[], limit: number) =>
+  items
+    .map(item => ({ item, bytes: item.size + archivedSize(item) }))
+    .sort((a, b) => b.bytes - a.bytes)
+    .slice(0, limit);
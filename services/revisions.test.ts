@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { MediaFile } from '../types';
+import { changedFields, contentChanged, recordRevision, snapshotOf } from './revisions';
+
+const original: MediaFile = {
+  id: 'a',
+  name: 'praia.jpg',
+  type: 'image',
+  mimeType: 'image/jpeg',
+  size: 100,
+  category: 'Férias',
+  tags: [{ name: 'praia', source: 'ai' }],
+  uploadDate: '2026-01-01T00:00:00.000Z',
+  views: 3,
+  contentHash: 'h1',
+};
+
+describe('changedFields', () => {
+  it('lists the versioned fields that differ', () => {
+    const after = { ...original, name: 'litoral.jpg', tags: [], views: 9 };
+    expect(changedFields(snapshotOf(original), snapshotOf(after))).toEqual(['name', 'tags']);
+  });
+
+  it('treats an unset flag as false', () => {
+    expect(changedFields(snapshotOf(original), snapshotOf({ ...original, isPublic: false }))).toEqual([]);
+    expect(changedFields(snapshotOf(original), snapshotOf({ ...original, shareLocation: true }))).toEqual(['shareLocation']);
+  });
+});
+
+describe('contentChanged', () => {
+  it('needs both hashes to tell', () => {
+    expect(contentChanged(snapshotOf(original), snapshotOf({ ...original, contentHash: 'h2' }))).toBe(true);
+    expect(contentChanged(snapshotOf(original), snapshotOf({ ...original, contentHash: undefined }))).toBe(false);
+  });
+});
+
+describe('recordRevision', () => {
+  it('returns the item untouched when nothing changed', () => {
+    const after = { ...original, views: 10 };
+    expect(recordRevision(original, after, { owner: 'ana', author: 'ana', changes: [] })).toBe(after);
+  });
+
+  it('starts the history with the state at upload', () => {
+    const after = { ...original, name: 'litoral.jpg' };
+    const recorded = recordRevision(original, after, { owner: 'ana', author: 'IA', changes: ['name'] });
+    expect(recorded.revisions).toHaveLength(2);
+    expect(recorded.revisions![0]).toMatchObject({ id: 'a:initial', date: original.uploadDate, author: 'ana', changes: [] });
+    expect(recorded.revisions![0].snapshot.name).toBe('praia.jpg');
+    expect(recorded.revisions![1]).toMatchObject({ author: 'IA', changes: ['name'], snapshot: { name: 'litoral.jpg' } });
+  });
+
+  it('appends to an existing history and records reverts', () => {
+    const first = recordRevision(original, { ...original, name: 'b.jpg' }, { owner: 'ana', author: 'ana', changes: ['name'] });
+    const second = recordRevision(first, { ...first, name: 'praia.jpg' }, { owner: 'ana', author: 'ana', changes: ['name'], revertOf: 'a:initial' });
+    expect(second.revisions).toHaveLength(3);
+    expect(second.revisions![2].revertOf).toBe('a:initial');
+  });
+});
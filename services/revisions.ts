@@ -0,0 +1,65 @@
+import { MediaChange, MediaFile, MediaRevision, MediaSnapshot } from '../types';
+
+// Author recorded for changes made by the background tagging queue.
+export const AI_AUTHOR = 'IA';
+
+// Views, AI bookkeeping and derived data change constantly and are not versioned.
+const VERSIONED_FIELDS = ['name', 'category', 'tags', 'isPublic', 'shareLocation'] as const;
+
+export const snapshotOf = (item: MediaFile): MediaSnapshot => ({
+  name: item.name,
+  category: item.category,
+  tags: item.tags,
+  isPublic: item.isPublic,
+  shareLocation: item.shareLocation,
+  size: item.size,
+  mimeType: item.mimeType,
+  width: item.width,
+  height: item.height,
+  contentHash: item.contentHash,
+});
+
+// Flags are compared as booleans so an unset flag and `false` count as the same state.
+const sameValue = (field: typeof VERSIONED_FIELDS[number], a: MediaSnapshot, b: MediaSnapshot) =>
+  field === 'isPublic' || field === 'shareLocation'
+    ? Boolean(a[field]) === Boolean(b[field])
+    : JSON.stringify(a[field]) === JSON.stringify(b[field]);
+
+/** Versioned fields that differ between two states of an item, content excluded. */
+export const changedFields = (before: MediaSnapshot, after: MediaSnapshot): MediaChange[] =>
+  VERSIONED_FIELDS.filter(field => !sameValue(field, before, after));
+
+export const contentChanged = (before: MediaSnapshot, after: MediaSnapshot) =>
+  Boolean(before.contentHash && after.contentHash && before.contentHash !== after.contentHash);
+
+export type RevisionInfo = {
+  owner: string;
+  author: string;
+  changes: MediaChange[];
+  revertOf?: string;
+};
+
+/**
+ * Appends a revision describing `after` to the history of `before`. Items from before version
+ * history existed start it with their state at that moment, credited to the owner and dated at
+ * upload. Returns `after` untouched when nothing versioned changed.
+ */
+export const recordRevision = (before: MediaFile, after: MediaFile, { owner, author, changes, revertOf }: RevisionInfo): MediaFile => {
+  if (changes.length === 0) return after;
+  const history = before.revisions?.length ? before.revisions : [{
+    id: `${before.id}:initial`,
+    date: before.uploadDate,
+    author: owner,
+    changes: [],
+    snapshot: snapshotOf(before),
+  }];
+  const revision: MediaRevision = {
+    id: `${Date.now()}-${Math.random()}`,
+    date: new Date().toISOString(),
+    author,
+    changes,
+    snapshot: snapshotOf(after),
+    ...(revertOf ? { revertOf } : {}),
+  };
+  return { ...after, revisions: [...history, revision] };
+};
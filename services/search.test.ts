@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { MediaFile } from '../types';
+import { parseQuery, sortMedia } from './search';
+
+const item = (overrides: Partial<MediaFile>): MediaFile => ({
+  id: overrides.name ?? 'item',
+  name: 'item.jpg',
+  type: 'image',
+  mimeType: 'image/jpeg',
+  size: 1024,
+  category: 'Geral',
+  tags: [],
+  uploadDate: '2026-03-14T12:00:00.000Z',
+  views: 0,
+  ...overrides,
+});
+
+const beach = item({ name: 'praia.jpg', category: 'Férias', tags: [{ name: 'Praia', source: 'ai' }], size: 3 * 1024 ** 2, views: 12, uploadDate: '2026-02-10T12:00:00.000Z' });
+const draft = item({ name: 'rascunho.mp4', type: 'video', mimeType: 'video/mp4', tags: [{ name: 'rascunho', source: 'manual' }], size: 500 * 1024, views: 2, uploadDate: '2025-11-02T12:00:00.000Z' });
+const sunset = item({ name: 'pôr do sol.jpg', size: 2 * 1024 ** 2, views: 40, uploadDate: '2026-06-30T12:00:00.000Z', metadata: { camera: 'Canon EOS R6', capturedAt: '2020-08-01T18:00:00' } });
+const library = [beach, draft, sunset];
+
+const matching = (query: string) => {
+  const { filters } = parseQuery(query);
+  return library.filter(candidate => filters.every(filter => filter(candidate))).map(candidate => candidate.name);
+};
+
+describe('parseQuery', () => {
+  it('keeps plain words as free text', () => {
+    expect(parseQuery('gato preto')).toEqual({ filters: [], text: 'gato preto' });
+  });
+
+  it('matches tags case-insensitively and negates with a leading dash', () => {
+    expect(matching('tag:praia')).toEqual(['praia.jpg']);
+    expect(matching('-tag:rascunho')).toEqual(['praia.jpg', 'pôr do sol.jpg']);
+  });
+
+  it('accepts Portuguese and English keys for the type', () => {
+    expect(matching('type:video')).toEqual(['rascunho.mp4']);
+    expect(matching('tipo:imagem')).toEqual(['praia.jpg', 'pôr do sol.jpg']);
+  });
+
+  it('compares sizes with units and ranges', () => {
+    expect(matching('size:>2mb')).toEqual(['praia.jpg']);
+    expect(matching('size:>=2mb')).toEqual(['praia.jpg', 'pôr do sol.jpg']);
+    expect(matching('tamanho:..1mb')).toEqual(['rascunho.mp4']);
+  });
+
+  it('compares view counts', () => {
+    expect(matching('views:>10')).toEqual(['praia.jpg', 'pôr do sol.jpg']);
+    expect(matching('views:2..12')).toEqual(['praia.jpg', 'rascunho.mp4']);
+  });
+
+  it('treats dates as whole periods', () => {
+    expect(matching('date:2026')).toEqual(['praia.jpg', 'pôr do sol.jpg']);
+    expect(matching('date:2026-01..2026-03')).toEqual(['praia.jpg']);
+    expect(matching('data:<2026')).toEqual(['rascunho.mp4']);
+  });
+
+  it('leaves items without a capture date out of taken: filters', () => {
+    expect(matching('taken:2020')).toEqual(['pôr do sol.jpg']);
+    expect(matching('-taken:2020')).toEqual(['praia.jpg', 'rascunho.mp4']);
+  });
+
+  it('searches quoted values as one term', () => {
+    expect(matching('name:"pôr do sol"')).toEqual(['pôr do sol.jpg']);
+    expect(parseQuery('"pôr do sol" tag:praia').text).toBe('pôr do sol');
+  });
+
+  it('excludes free text with a leading dash', () => {
+    expect(matching('-canon')).toEqual(['praia.jpg', 'rascunho.mp4']);
+  });
+
+  it('searches unknown keys and malformed values literally', () => {
+    expect(parseQuery('foo:bar size:enorme')).toEqual({ filters: [], text: 'foo:bar size:enorme' });
+  });
+});
+
+describe('sortMedia', () => {
+  it('sorts by a field in either direction', () => {
+    expect(sortMedia(library, { field: 'size', direction: 'asc' }).map(candidate => candidate.name))
+      .toEqual(['rascunho.mp4', 'pôr do sol.jpg', 'praia.jpg']);
+    expect(sortMedia(library, { field: 'views', direction: 'desc' }).map(candidate => candidate.name))
+      .toEqual(['pôr do sol.jpg', 'praia.jpg', 'rascunho.mp4']);
+  });
+
+  it('keeps the search order for relevance', () => {
+    expect(sortMedia(library, { field: 'relevance', direction: 'desc' })).toBe(library);
+  });
+});
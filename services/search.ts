@@ -0,0 +1,197 @@
+import { MediaFile } from '../types';
+
+// Below this cosine similarity an item is not considered related to the query.
+const MIN_SIMILARITY = 0.5;
+
+export const mediaMatchesText = (item: MediaFile, lowerCaseSearch: string) =>
+  [item.name, item.category, ...item.tags.map(tag => tag.name),
+    item.analysis?.caption, item.analysis?.altText, item.analysis?.text,
+    item.metadata?.camera, item.metadata?.lens, ...(item.metadata?.codecs ?? [])]
+    .some(value => value?.toLowerCase().includes(lowerCaseSearch));
+
+// The text an item is embedded from: everything a user might describe it by.
+export const embeddingText = (item: MediaFile) =>
+  [item.name, item.category, item.tags.map(tag => tag.name).join(', '), item.analysis?.caption, item.analysis?.text]
+    .filter(Boolean)
+    .join('\n');
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Orders items by similarity to the query vector. Literal matches always stay in the results
+ * and rank first, so adding semantic search never hides what the substring filter found.
+ */
+export const rankBySimilarity = (media: MediaFile[], search: string, queryVector: number[], model: string): MediaFile[] => {
+  const lowerCaseSearch = search.toLowerCase();
+  return media
+    .map(item => {
+      const similarity = item.embedding?.model === model ? cosineSimilarity(queryVector, item.embedding.vector) : 0;
+      return { item, score: similarity + (mediaMatchesText(item, lowerCaseSearch) ? 1 : 0) };
+    })
+    .filter(({ score }) => score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .map(({ item }) => item);
+};
+
+// QUERY LANGUAGE
+// `tag:praia type:video size:>2mb date:2026-01..2026-06 views:>10 -tag:rascunho "pôr do sol"`:
+// `key:value` terms become filters, a leading `-` negates a term, and whatever is left is
+// free text for the (semantic or substring) text search.
+
+export type ParsedQuery = {
+  filters: ((item: MediaFile) => boolean)[];
+  text: string;
+};
+
+type Comparison = { op: '>' | '>=' | '<' | '<=' | '='; value: number } | { op: '..'; from: number; to: number };
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+const parseSize = (value: string): number | null => {
+  const match = /^(\d+(?:[.,]\d+)?)\s*(b|kb|mb|gb)?$/i.exec(value);
+  return match ? Number(match[1].replace(',', '.')) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()] : null;
+};
+
+// A date term covers a whole period: `2026` is the year, `2026-03` the month, `2026-03-14` the day.
+const parseDatePeriod = (value: string): { start: number; end: number } | null => {
+  const match = /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/.exec(value);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), match[2] ? Number(match[2]) - 1 : null, match[3] ? Number(match[3]) : null];
+  const start = new Date(year, month ?? 0, day ?? 1);
+  const end = day !== null ? new Date(year, month!, day + 1) : month !== null ? new Date(year, month + 1, 1) : new Date(year + 1, 0, 1);
+  return { start: start.getTime(), end: end.getTime() };
+};
+
+const parseComparison = (value: string, parse: (raw: string) => number | null): Comparison | null => {
+  const range = value.split('..');
+  if (range.length === 2) {
+    const from = range[0] ? parse(range[0]) : -Infinity;
+    const to = range[1] ? parse(range[1]) : Infinity;
+    return from === null || to === null ? null : { op: '..', from, to };
+  }
+  const match = /^(>=|<=|>|<|=)?(.+)$/.exec(value);
+  const parsed = match && parse(match[2]);
+  return match && parsed !== null ? { op: (match[1] ?? '=') as '=', value: parsed } : null;
+};
+
+const compare = (actual: number, comparison: Comparison) => {
+  switch (comparison.op) {
+    case '..': return actual >= comparison.from && actual <= comparison.to;
+    case '>': return actual > comparison.value;
+    case '>=': return actual >= comparison.value;
+    case '<': return actual < comparison.value;
+    case '<=': return actual <= comparison.value;
+    default: return actual === comparison.value;
+  }
+};
+
+const dateFilter = (value: string, dateOf: (item: MediaFile) => string | undefined): ((item: MediaFile) => boolean) | null => {
+  const [from, to] = value.includes('..') ? value.split('..') : [value, value];
+  const fromPeriod = from ? parseDatePeriod(from.replace(/^[<>]=?/, '')) : { start: -Infinity, end: -Infinity };
+  const toPeriod = to ? parseDatePeriod(to.replace(/^[<>]=?/, '')) : { start: Infinity, end: Infinity };
+  if (!fromPeriod || !toPeriod) return null;
+  // Items without the date never match, so `-taken:2020` keeps them.
+  const time = (item: MediaFile) => {
+    const date = dateOf(item);
+    return date ? new Date(date).getTime() : NaN;
+  };
+  if (value.startsWith('>=')) return item => time(item) >= fromPeriod.start;
+  if (value.startsWith('>')) return item => time(item) >= fromPeriod.end;
+  if (value.startsWith('<=')) return item => time(item) < fromPeriod.end;
+  if (value.startsWith('<')) return item => time(item) < fromPeriod.start;
+  return item => time(item) >= fromPeriod.start && time(item) < toPeriod.end;
+};
+
+const includesText = (value: string | undefined, search: string) => Boolean(value?.toLocaleLowerCase().includes(search));
+
+const buildFilter = (key: string, value: string): ((item: MediaFile) => boolean) | null => {
+  const lowerValue = value.toLocaleLowerCase();
+  switch (key) {
+    case 'tag':
+      return item => item.tags.some(tag => tag.name.toLocaleLowerCase() === lowerValue);
+    case 'type':
+    case 'tipo': {
+      const type = ({ imagem: 'image', image: 'image', video: 'video', vídeo: 'video' } as Record<string, MediaFile['type']>)[lowerValue];
+      return type ? item => item.type === type : null;
+    }
+    case 'name':
+    case 'nome':
+      return item => includesText(item.name, lowerValue);
+    case 'category':
+    case 'categoria':
+      return item => includesText(item.category, lowerValue);
+    case 'size':
+    case 'tamanho': {
+      const comparison = parseComparison(value, parseSize);
+      return comparison ? item => compare(item.size, comparison) : null;
+    }
+    case 'views': {
+      const comparison = parseComparison(value, raw => /^\d+$/.test(raw) ? Number(raw) : null);
+      return comparison ? item => compare(item.views, comparison) : null;
+    }
+    case 'date':
+    case 'data':
+      return dateFilter(value, item => item.uploadDate);
+    case 'taken':
+    case 'capturada':
+      return dateFilter(value, item => item.metadata?.capturedAt);
+    case 'camera':
+    case 'câmera':
+      return item => includesText(item.metadata?.camera, lowerValue) || includesText(item.metadata?.lens, lowerValue);
+    default:
+      return null;
+  }
+};
+
+export const parseQuery = (query: string): ParsedQuery => {
+  const filters: ParsedQuery['filters'] = [];
+  const text: string[] = [];
+  const termPattern = /(-?)(?:([\p{L}]+):)?(?:"([^"]*)"|(\S+))/gu;
+  for (const match of query.matchAll(termPattern)) {
+    const [raw, negation, key, quoted, bare] = match;
+    const value = quoted ?? bare;
+    const filter = key ? buildFilter(key.toLocaleLowerCase(), value) : null;
+    if (filter) {
+      filters.push(negation ? item => !filter(item) : filter);
+    } else if (negation && !key && value) {
+      filters.push(item => !mediaMatchesText(item, value.toLowerCase()));
+    } else {
+      // Unknown keys and malformed values are searched for literally rather than dropped.
+      text.push(quoted !== undefined && !key ? quoted : raw);
+    }
+  }
+  return { filters, text: text.join(' ').trim() };
+};
+
+export type SortField = 'relevance' | 'date' | 'name' | 'size' | 'views' | 'dimensions';
+
+export type SortOrder = { field: SortField; direction: 'asc' | 'desc' };
+
+const sortKey: Record<Exclude<SortField, 'relevance'>, (item: MediaFile) => number | string> = {
+  date: item => item.uploadDate,
+  name: item => item.name.toLocaleLowerCase(),
+  size: item => item.size,
+  views: item => item.views,
+  dimensions: item => (item.width ?? 0) * (item.height ?? 0),
+};
+
+// 'relevance' keeps the order the search produced (newest first when there is no text).
+export const sortMedia = (media: MediaFile[], { field, direction }: SortOrder): MediaFile[] => {
+  if (field === 'relevance') return direction === 'asc' ? [...media].reverse() : media;
+  const key = sortKey[field];
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...media].sort((a, b) => {
+    const [x, y] = [key(a), key(b)];
+    return (x < y ? -1 : x > y ? 1 : 0) * sign;
+  });
+};
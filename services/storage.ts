@@ -0,0 +1,33 @@
+import { browserStorage } from './browserStorage';
+import { createHttpStorage } from './httpStorage';
+import { LegacyMediaFile, StorageAdapter, splitLegacyMedia } from './storageAdapter';
+
+export type StorageBackend = 'browser' | 'server';
+
+/**
+ * Moves a library saved by older versions under `media_<owner>` in localStorage into the
+ * configured adapter. The localStorage entry is only removed once the adapter has accepted
+ * everything, so a failed migration is retried on the next load.
+ */
+export const migrateLegacyLibrary = async (adapter: StorageAdapter, owner: string): Promise<number> => {
+  const key = `media_${owner}`;
+  const raw = window.localStorage.getItem(key);
+  if (!raw) return 0;
+
+  const legacyItems: LegacyMediaFile[] = JSON.parse(raw);
+  const entries = await Promise.all(legacyItems.filter(item => item.dataUrl).map(splitLegacyMedia));
+  await adapter.putMedia(owner, entries);
+  window.localStorage.removeItem(key);
+  return entries.length;
+};
+
+export const storageBackend: StorageBackend = process.env.STORAGE_BACKEND === 'server' ? 'server' : 'browser';
+
+const createStorageAdapter = (): StorageAdapter => {
+  if (storageBackend === 'server') {
+    return createHttpStorage(process.env.STORAGE_SERVER_URL || 'http://localhost:8787');
+  }
+  return browserStorage;
+};
+
+export const storage = createStorageAdapter();
@@ -0,0 +1,119 @@
+import { Album, MediaEvent, MediaFile, ShareLink, ShareLinkOptions } from '../types';
+
+// Besides its content, an item can have derived images stored under the same id.
+export type MediaVariant = 'content' | 'poster' | 'thumbnail';
+
+export type DerivedVariant = Exclude<MediaVariant, 'content'>;
+
+export type MediaEntry = { item: MediaFile; blob: Blob; poster?: Blob; thumbnail?: Blob };
+
+export const POSTER_MIME_TYPE = 'image/jpeg';
+export const THUMBNAIL_MIME_TYPE = 'image/jpeg';
+
+export const DERIVED_MIME_TYPES: Record<DerivedVariant, string> = {
+  poster: POSTER_MIME_TYPE,
+  thumbnail: THUMBNAIL_MIME_TYPE,
+};
+
+/**
+ * Persistence used by the providers. Every method is scoped to the owner's library so
+ * adapters are free to store all users side by side.
+ */
+export interface StorageAdapter {
+  listMedia: (owner: string) => Promise<MediaFile[]>;
+  getMediaContent: (owner: string, id: string, variant?: MediaVariant) => Promise<Blob | null>;
+  // Browser adapters hand out object URLs (revoked by the caller), remote ones plain URLs.
+  getMediaUrl: (owner: string, id: string, variant?: MediaVariant) => Promise<string | null>;
+  putMedia: (owner: string, entries: MediaEntry[]) => Promise<void>;
+  putVariant: (owner: string, id: string, variant: DerivedVariant, blob: Blob) => Promise<void>;
+  // Earlier contents of an item, kept for its version history under their SHA-256 and
+  // deleted together with the item.
+  putRevisionContent: (owner: string, id: string, hash: string, blob: Blob) => Promise<void>;
+  getRevisionContent: (owner: string, id: string, hash: string) => Promise<Blob | null>;
+  updateMedia: (owner: string, item: MediaFile) => Promise<void>;
+  deleteMedia: (owner: string, ids: string[]) => Promise<void>;
+  // Leaves the library as it was, apart from entries already written, when any write fails.
+  replaceLibrary: (owner: string, entries: MediaEntry[]) => Promise<void>;
+  listAlbums: (owner: string) => Promise<Album[]>;
+  putAlbums: (owner: string, albums: Album[]) => Promise<void>;
+  deleteAlbum: (owner: string, id: string) => Promise<void>;
+  // Public link for items marked public, or null when the backend cannot serve them.
+  getPublicUrl: (item: MediaFile) => string | null;
+  listShareLinks: (owner: string, mediaId: string) => Promise<ShareLink[]>;
+  createShareLink: (owner: string, mediaId: string, options: ShareLinkOptions) => Promise<ShareLink>;
+  revokeShareLink: (owner: string, token: string) => Promise<void>;
+  // Analytics log. The app records views and downloads; hits on share and public links are
+  // recorded by the server as they happen.
+  logEvents: (owner: string, events: MediaEvent[]) => Promise<void>;
+  listEvents: (owner: string) => Promise<MediaEvent[]>;
+  // Bytes the owner may use as counted by `libraryUsage`, or null for no limit.
+  getQuota: (owner: string) => Promise<number | null>;
+  createUser: (username: string, password: string) => Promise<boolean>;
+  // Returns a signed session token, or null for wrong credentials.
+  login: (username: string, password: string) => Promise<string | null>;
+  // Returns the username a still-valid token was issued to, or null.
+  resumeSession: (token: string) => Promise<string | null>;
+  endSession: () => void;
+  // Returns a session token to use from now on, as the change may end earlier sessions; null for a wrong password.
+  changePassword: (username: string, currentPassword: string, newPassword: string) => Promise<string | null>;
+  // Removes the account together with its whole library.
+  deleteAccount: (username: string, password: string) => Promise<boolean>;
+}
+
+export class StorageQuotaError extends Error {
+  constructor(message = 'Espaço de armazenamento esgotado.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+export class StorageRequestError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'StorageRequestError';
+  }
+}
+
+// Shape of the records kept in localStorage and in JSON backups, with the content inlined.
+export type LegacyMediaFile = MediaFile & { dataUrl: string; posterDataUrl?: string };
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Password rules enforced on registration and password changes; returns null when acceptable.
+export const getPasswordProblem = (password: string): string | null => {
+  if (password.length < MIN_PASSWORD_LENGTH) return `A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`;
+  if (!/[A-Za-zÀ-ÿ]/.test(password) || !/\d/.test(password)) return 'A senha deve conter letras e números.';
+  return null;
+};
+
+export const getFileExtension = (item: Pick<MediaFile, 'name' | 'mimeType'>): string => {
+  const fromName = /\.([a-z0-9]+)$/i.exec(item.name)?.[1];
+  if (fromName) return fromName.toLowerCase();
+  const fromMime = item.mimeType.split('/')[1]?.split(/[+;]/)[0];
+  return fromMime === 'jpeg' ? 'jpg' : fromMime || 'bin';
+};
+
+const PUBLIC_ID_ALPHABET = 'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const createPublicId = (length = 8): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(length)), byte => PUBLIC_ID_ALPHABET[byte % PUBLIC_ID_ALPHABET.length]).join('');
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Thumbnails are not part of backups; they are cheap to regenerate after a restore.
+export const splitLegacyMedia = async ({ dataUrl, posterDataUrl, ...item }: LegacyMediaFile): Promise<MediaEntry> => ({
+  item: { ...item, hasPoster: Boolean(posterDataUrl), hasThumbnail: false },
+  blob: await dataUrlToBlob(dataUrl),
+  poster: posterDataUrl ? await dataUrlToBlob(posterDataUrl) : undefined,
+});
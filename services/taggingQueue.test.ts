@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TaggingQueueOptions, createTaggingQueue } from './taggingQueue';
+
+// Runs that finish only when the test says so.
+const controlledRuns = () => {
+  const runs = new Map<string, { resolve: () => void; reject: (error: unknown) => void }[]>();
+  const run = vi.fn((id: string) => new Promise<void>((resolve, reject) => {
+    runs.set(id, [...(runs.get(id) ?? []), { resolve, reject }]);
+  }));
+  const latest = (id: string) => runs.get(id)!.at(-1)!;
+  return { run, latest };
+};
+
+const queueWith = (overrides: Partial<Pick<TaggingQueueOptions, 'concurrency' | 'run' | 'shouldRetry'>>) => {
+  const options = {
+    concurrency: 2,
+    maxAttempts: 3,
+    retryDelayMs: 100,
+    run: vi.fn(async () => {}),
+    shouldRetry: () => true,
+    onFailure: vi.fn(),
+    onActiveChange: vi.fn(),
+    ...overrides,
+  };
+  return { queue: createTaggingQueue(options), options };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createTaggingQueue', () => {
+  it('runs no more items at once than its concurrency', async () => {
+    const { run, latest } = controlledRuns();
+    const { queue, options } = queueWith({ run });
+    queue.enqueue(['a', 'b', 'c']);
+    expect(run.mock.calls.map(([id]) => id)).toEqual(['a', 'b']);
+    expect(options.onActiveChange).toHaveBeenLastCalledWith(['a', 'b']);
+
+    latest('a').resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run.mock.calls.map(([id]) => id)).toEqual(['a', 'b', 'c']);
+    expect(options.onActiveChange).toHaveBeenLastCalledWith(['b', 'c']);
+  });
+
+  it('ignores ids that are already waiting or running', async () => {
+    const { run, latest } = controlledRuns();
+    const { queue } = queueWith({ run, concurrency: 1 });
+    queue.enqueue(['a', 'b', 'a']);
+    queue.enqueue(['a', 'b']);
+    latest('a').resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    latest('b').resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run.mock.calls.map(([id]) => id)).toEqual(['a', 'b']);
+
+    // Once done, an id can be queued again.
+    queue.enqueue(['a']);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries with a doubling delay and reports the last failure', async () => {
+    const error = new Error('limite de requisições');
+    const run = vi.fn(async () => { throw error; });
+    const { queue, options } = queueWith({ run });
+    queue.enqueue(['a']);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(run).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(options.onFailure).toHaveBeenCalledOnce();
+    expect(options.onFailure).toHaveBeenCalledWith('a', error);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up at once on errors that should not be retried', async () => {
+    const run = vi.fn(async () => { throw new Error('sem chave'); });
+    const { queue, options } = queueWith({ run, shouldRetry: () => false });
+    queue.enqueue(['a']);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(run).toHaveBeenCalledOnce();
+    expect(options.onFailure).toHaveBeenCalledOnce();
+  });
+
+  it('reports nothing and schedules nothing after dispose', async () => {
+    const { run, latest } = controlledRuns();
+    const { queue, options } = queueWith({ run, concurrency: 1 });
+    queue.enqueue(['a', 'b']);
+    const activeChanges = options.onActiveChange.mock.calls.length;
+    queue.dispose();
+    latest('a').reject(new Error('falhou'));
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(run).toHaveBeenCalledOnce();
+    expect(options.onFailure).not.toHaveBeenCalled();
+    expect(options.onActiveChange).toHaveBeenCalledTimes(activeChanges);
+  });
+
+  it('cancels retries that were waiting when disposed', async () => {
+    const run = vi.fn(async () => { throw new Error('falhou'); });
+    const { queue, options } = queueWith({ run });
+    queue.enqueue(['a']);
+    await vi.advanceTimersByTimeAsync(0);
+    queue.dispose();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(run).toHaveBeenCalledOnce();
+    expect(options.onFailure).not.toHaveBeenCalled();
+  });
+});
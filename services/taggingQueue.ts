@@ -0,0 +1,88 @@
+export type TaggingQueueOptions = {
+  // How many items are analyzed at the same time.
+  concurrency: number;
+  maxAttempts: number;
+  // Delay before the first retry; doubled after each further failure.
+  retryDelayMs: number;
+  run: (id: string) => Promise<void>;
+  shouldRetry: (error: unknown) => boolean;
+  onFailure: (id: string, error: unknown) => void;
+  // Called with the ids being analyzed right now whenever that set changes.
+  onActiveChange: (activeIds: string[]) => void;
+};
+
+export type TaggingQueue = {
+  enqueue: (ids: string[]) => void;
+  // Stops scheduling work; runs already in flight finish but their failures are not reported.
+  dispose: () => void;
+};
+
+/**
+ * In-memory scheduler for background AI tagging. It keeps no state of its own across page
+ * loads: callers persist which items still need tagging and enqueue them again on start.
+ */
+export const createTaggingQueue = (options: TaggingQueueOptions): TaggingQueue => {
+  const waiting: string[] = [];
+  const pending = new Set<string>(); // waiting, running or backing off
+  const running = new Set<string>();
+  const attempts = new Map<string, number>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let disposed = false;
+
+  const settle = (id: string) => {
+    pending.delete(id);
+    attempts.delete(id);
+  };
+
+  const start = (id: string) => {
+    running.add(id);
+    options.onActiveChange(Array.from(running));
+    const attempt = (attempts.get(id) ?? 0) + 1;
+    attempts.set(id, attempt);
+    options.run(id).then(
+      () => settle(id),
+      (error) => {
+        if (disposed) return;
+        if (attempt < options.maxAttempts && options.shouldRetry(error)) {
+          const timer = setTimeout(() => {
+            timers.delete(timer);
+            waiting.push(id);
+            pump();
+          }, options.retryDelayMs * 2 ** (attempt - 1));
+          timers.add(timer);
+          return;
+        }
+        settle(id);
+        options.onFailure(id, error);
+      }
+    ).finally(() => {
+      running.delete(id);
+      if (disposed) return;
+      options.onActiveChange(Array.from(running));
+      pump();
+    });
+  };
+
+  const pump = () => {
+    while (!disposed && running.size < options.concurrency && waiting.length > 0) {
+      start(waiting.shift()!);
+    }
+  };
+
+  return {
+    enqueue: (ids) => {
+      ids.forEach(id => {
+        if (pending.has(id)) return;
+        pending.add(id);
+        waiting.push(id);
+      });
+      pump();
+    },
+    dispose: () => {
+      disposed = true;
+      waiting.length = 0;
+      timers.forEach(clearTimeout);
+      timers.clear();
+    },
+  };
+};
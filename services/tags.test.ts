@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { MediaFile, MediaTag } from '../types';
+import { addTag, collectTagStats, normalizeMediaTags, normalizeTags, removeTag, renameTag, replaceAiTags } from './tags';
+
+const ai = (name: string): MediaTag => ({ name, source: 'ai' });
+const manual = (name: string): MediaTag => ({ name, source: 'manual' });
+
+describe('normalizeTags', () => {
+  it('turns plain strings from old records into AI tags', () => {
+    expect(normalizeTags(['praia', manual('férias')])).toEqual([ai('praia'), manual('férias')]);
+    expect(normalizeTags(undefined)).toEqual([]);
+  });
+});
+
+describe('normalizeMediaTags', () => {
+  it('replaces placeholder tags with a failed status', () => {
+    const item = { tags: ['IA Desativada', 'praia'] } as unknown as MediaFile;
+    expect(normalizeMediaTags(item)).toEqual({ tags: [ai('praia')], aiStatus: 'failed' });
+  });
+
+  it('keeps a placeholder name the user added by hand', () => {
+    const item = { tags: [manual('erro de IA')], aiStatus: 'done' } as MediaFile;
+    expect(normalizeMediaTags(item)).toEqual(item);
+  });
+});
+
+describe('addTag', () => {
+  it('ignores blank names and duplicates in another case', () => {
+    expect(addTag([ai('Praia')], '  ')).toEqual([ai('Praia')]);
+    expect(addTag([ai('Praia')], 'praia', 'ai')).toEqual([ai('Praia')]);
+  });
+
+  it('confirms an AI tag when the user adds it', () => {
+    expect(addTag([ai('Praia')], 'praia')).toEqual([manual('Praia')]);
+  });
+
+  it('trims and appends new names', () => {
+    expect(addTag([ai('Praia')], ' sol ')).toEqual([ai('Praia'), manual('sol')]);
+  });
+});
+
+describe('removeTag and renameTag', () => {
+  it('removes regardless of case', () => {
+    expect(removeTag([ai('Praia'), manual('sol')], 'PRAIA')).toEqual([manual('sol')]);
+  });
+
+  it('renames into a manual tag and merges with an existing one', () => {
+    expect(renameTag([ai('praia')], 'Praia', 'litoral')).toEqual([manual('litoral')]);
+    expect(renameTag([ai('praia'), ai('Litoral')], 'praia', 'litoral')).toEqual([manual('Litoral')]);
+    expect(renameTag([ai('praia')], 'sol', 'lua')).toEqual([ai('praia')]);
+  });
+});
+
+describe('replaceAiTags', () => {
+  it('keeps manual tags and swaps the AI ones', () => {
+    expect(replaceAiTags([ai('velha'), manual('família')], ['Família', 'praia']))
+      .toEqual([manual('família'), ai('praia')]);
+  });
+});
+
+describe('collectTagStats', () => {
+  it('counts tags across items by source, most used first', () => {
+    const media = [
+      { tags: [ai('praia'), manual('sol')] },
+      { tags: [manual('Praia')] },
+      { tags: [ai('areia')] },
+    ] as MediaFile[];
+    expect(collectTagStats(media)).toEqual([
+      { name: 'praia', count: 2, aiCount: 1, manualCount: 1 },
+      { name: 'areia', count: 1, aiCount: 1, manualCount: 0 },
+      { name: 'sol', count: 1, aiCount: 0, manualCount: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { MediaFile, MediaTag } from '../types';
+
+const sameTag = (a: string, b: string) => a.toLocaleLowerCase() === b.toLocaleLowerCase();
+
+// Records saved before tags had a source hold plain strings, all of which came from the AI.
+export const normalizeTags = (tags: (MediaTag | string)[] | undefined): MediaTag[] =>
+  (tags ?? []).map(tag => typeof tag === 'string' ? { name: tag, source: 'ai' } : tag);
+
+// Placeholders stored as AI tags by versions that tagged during the upload itself.
+const PLACEHOLDER_TAGS = ['IA Desativada', 'falha na marcação', 'erro de IA'];
+
+// Brings records saved by older versions up to date; placeholder tags become a failed status.
+export const normalizeMediaTags = (item: MediaFile): MediaFile => {
+  const tags = normalizeTags(item.tags);
+  const realTags = tags.filter(tag => tag.source === 'manual' || !PLACEHOLDER_TAGS.some(placeholder => sameTag(placeholder, tag.name)));
+  if (realTags.length === tags.length) return { ...item, tags };
+  return { ...item, tags: realTags, aiStatus: item.aiStatus ?? 'failed' };
+};
+
+export const tagNames = (item: Pick<MediaFile, 'tags'>): string[] => item.tags.map(tag => tag.name);
+
+export const hasTag = (tags: MediaTag[], name: string) => tags.some(tag => sameTag(tag.name, name));
+
+export const addTag = (tags: MediaTag[], name: string, source: MediaTag['source'] = 'manual'): MediaTag[] => {
+  const trimmed = name.trim();
+  if (!trimmed) return tags;
+  // A manual tag takes over an AI tag with the same name, confirming it.
+  if (hasTag(tags, trimmed)) {
+    return source === 'manual' ? tags.map(tag => sameTag(tag.name, trimmed) ? { ...tag, source } : tag) : tags;
+  }
+  return [...tags, { name: trimmed, source }];
+};
+
+export const removeTag = (tags: MediaTag[], name: string): MediaTag[] => tags.filter(tag => !sameTag(tag.name, name));
+
+// Renamed tags count as manual: the user has curated them.
+export const renameTag = (tags: MediaTag[], from: string, to: string): MediaTag[] =>
+  hasTag(tags, from) ? addTag(removeTag(tags, from), to, 'manual') : tags;
+
+// Replaces the AI tags with a fresh set while keeping everything the user added by hand.
+export const replaceAiTags = (tags: MediaTag[], aiTags: string[]): MediaTag[] =>
+  aiTags.reduce((result, name) => addTag(result, name, 'ai'), tags.filter(tag => tag.source === 'manual'));
+
+export type TagStats = { name: string; count: number; aiCount: number; manualCount: number };
+
+export const collectTagStats = (media: MediaFile[]): TagStats[] => {
+  const stats = new Map<string, TagStats>();
+  media.forEach(item => item.tags.forEach(tag => {
+    const key = tag.name.toLocaleLowerCase();
+    const entry = stats.get(key) ?? { name: tag.name, count: 0, aiCount: 0, manualCount: 0 };
+    entry.count++;
+    if (tag.source === 'ai') entry.aiCount++;
+    else entry.manualCount++;
+    stats.set(key, entry);
+  }));
+  return Array.from(stats.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,30 @@
+import { THUMBNAIL_MIME_TYPE } from './storageAdapter';
+
+// Large enough for the widest grid column on a high-density screen.
+const THUMBNAIL_EDGE = 400;
+
+/**
+ * Renders a small JPEG of an image (for videos, of their poster). Returns null when the
+ * browser cannot decode the source, in which case the grid falls back to the original.
+ */
+export const createThumbnail = async (source: Blob): Promise<Blob | null> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  } catch {
+    return null;
+  }
+  try {
+    const scale = Math.min(1, THUMBNAIL_EDGE / Math.max(bitmap.width, bitmap.height, 1));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, THUMBNAIL_MIME_TYPE, 0.8));
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,79 @@
+import { POSTER_MIME_TYPE } from './storageAdapter';
+
+// Fractions of the duration at which frames are captured; the first one becomes the poster.
+const KEYFRAME_OFFSETS = [0.1, 0.5, 0.9];
+// Frames are only used for tagging and as posters, so there is no point keeping them large.
+const MAX_FRAME_EDGE = 640;
+
+// The browser cannot decode this video; retrying will not help.
+export class KeyframeExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyframeExtractionError';
+  }
+}
+
+export type VideoKeyframes = {
+  frames: Blob[];
+  width: number;
+  height: number;
+  duration: number;
+};
+
+const waitForEvent = (video: HTMLVideoElement, event: 'loadeddata' | 'seeked') =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new KeyframeExtractionError('O navegador não conseguiu decodificar o vídeo.')); };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new KeyframeExtractionError('Falha ao capturar o quadro do vídeo.')), POSTER_MIME_TYPE, 0.85);
+  });
+
+/**
+ * Samples a few frames of a video by seeking a detached <video> element and drawing it
+ * onto a canvas. Rejects when the browser cannot decode the format.
+ */
+export const extractKeyframes = async (video: Blob, offsets = KEYFRAME_OFFSETS): Promise<VideoKeyframes> => {
+  const url = URL.createObjectURL(video);
+  const element = document.createElement('video');
+  element.muted = true;
+  element.playsInline = true;
+  element.preload = 'auto';
+  try {
+    const loaded = waitForEvent(element, 'loadeddata');
+    element.src = url;
+    await loaded;
+
+    const { videoWidth: width, videoHeight: height } = element;
+    // Some recordings report an infinite duration until played through; sample the start then.
+    const duration = Number.isFinite(element.duration) ? element.duration : 0;
+    const scale = Math.min(1, MAX_FRAME_EDGE / Math.max(width, height, 1));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) throw new KeyframeExtractionError('Canvas indisponível.');
+
+    const frames: Blob[] = [];
+    for (const offset of duration > 0 ? offsets : [0]) {
+      const seeked = waitForEvent(element, 'seeked');
+      element.currentTime = duration * offset;
+      await seeked;
+      context.drawImage(element, 0, 0, canvas.width, canvas.height);
+      frames.push(await canvasToBlob(canvas));
+    }
+    return { frames, width, height, duration };
+  } finally {
+    element.removeAttribute('src');
+    element.load();
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,53 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, readZip, uniqueEntryNames } from './zip';
+
+describe('crc32', () => {
+  it('matches the reference value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('uniqueEntryNames', () => {
+  it('numbers repeated names before the extension', () => {
+    expect(uniqueEntryNames(['a.jpg', 'a.jpg', 'b', 'a.jpg', 'b'])).toEqual(['a.jpg', 'a (2).jpg', 'b', 'a (3).jpg', 'b (2)']);
+  });
+});
+
+describe('createZip and readZip', () => {
+  it('round-trips names, contents and dates', async () => {
+    const lastModified = new Date(2026, 2, 14, 9, 30, 42);
+    const zip = await createZip([
+      { name: 'fotos/praia.jpg', data: new Blob([new Uint8Array([1, 2, 3])]), lastModified },
+      { name: 'ação.txt', data: new Blob(['olá']), lastModified },
+    ]);
+    const entries = await readZip(zip);
+    expect(entries.map(entry => entry.name)).toEqual(['fotos/praia.jpg', 'ação.txt']);
+    expect([...new Uint8Array(await entries[0].data.arrayBuffer())]).toEqual([1, 2, 3]);
+    expect(await entries[1].data.text()).toBe('olá');
+    expect(entries[0].lastModified).toEqual(lastModified);
+  });
+
+  it('reads deflated entries written by other tools', async () => {
+    const stored = new Uint8Array(await (await createZip([{ name: 'a.txt', data: new Blob(['texto texto texto']) }])).arrayBuffer());
+    // Rewrite the single entry as deflated, as zip utilities do for text.
+    const deflated = deflateRawSync(Buffer.from('texto texto texto'));
+    const nameLength = 5;
+    const local = stored.slice(0, 30 + nameLength);
+    const central = stored.slice(30 + nameLength + 17, stored.length - 22);
+    const end = stored.slice(stored.length - 22);
+    const localView = new DataView(local.buffer);
+    localView.setUint16(8, 8, true);
+    localView.setUint32(18, deflated.length, true);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint16(10, 8, true);
+    centralView.setUint32(20, deflated.length, true);
+    new DataView(end.buffer).setUint32(16, local.length + deflated.length, true);
+    const entries = await readZip(new Blob([local, deflated, central, end]));
+    expect(await entries[0].data.text()).toBe('texto texto texto');
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(readZip(new Blob(['não é um zip']))).rejects.toThrow('O arquivo não é um ZIP válido.');
+  });
+});
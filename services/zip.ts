@@ -0,0 +1,145 @@
+// Minimal ZIP writer. Entries are stored uncompressed: media formats are already
+// compressed, so deflating them would cost time for next to no gain.
+
+export type ZipEntry = { name: string; data: Blob; lastModified?: Date };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// Gives repeated names a " (2)", " (3)"... suffix before the extension so no entry is overwritten.
+export const uniqueEntryNames = (names: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return names.map(name => {
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    if (count === 1) return name;
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? `${name.slice(0, dot)} (${count})${name.slice(dot)}` : `${name} (${count})`;
+  });
+};
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const nameBytes = encoder.encode(entry.name);
+    const data = new Uint8Array(await entry.data.arrayBuffer());
+    const crc = crc32(data);
+    const { time, date } = toDosDateTime(entry.lastModified ?? new Date());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, nameBytes, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    centralDirectory.push(new Uint8Array(central.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const centralSize = centralDirectory.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+};
+
+const fromDosDateTime = (time: number, date: number) =>
+  new Date(1980 + (date >> 9), ((date >> 5) & 0x0f) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2);
+
+const inflateRaw = (data: Blob) => new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+
+/**
+ * Reads an archive through its central directory, so sizes are known even when the writer
+ * used data descriptors. Handles stored and deflated entries; ZIP64 archives are rejected.
+ * Stored entries are slices of the archive and are not copied into memory.
+ */
+export const readZip = async (zip: Blob): Promise<ZipEntry[]> => {
+  // The end record is the last 22 bytes, followed by a comment of up to 64 KB.
+  const tailStart = Math.max(0, zip.size - 22 - 0xffff);
+  const tail = new DataView(await zip.slice(tailStart).arrayBuffer());
+  let end = -1;
+  for (let i = tail.byteLength - 22; i >= 0 && end < 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) end = i;
+  }
+  if (end < 0) throw new Error('O arquivo não é um ZIP válido.');
+  const count = tail.getUint16(end + 10, true);
+  const centralSize = tail.getUint32(end + 12, true);
+  const centralOffset = tail.getUint32(end + 16, true);
+  if (count === 0xffff || centralOffset === 0xffffffff) throw new Error('Arquivos ZIP64 não são suportados.');
+
+  const central = new DataView(await zip.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > central.byteLength || central.getUint32(position, true) !== 0x02014b50) {
+      throw new Error('O diretório do ZIP está corrompido.');
+    }
+    const method = central.getUint16(position + 10, true);
+    const time = central.getUint16(position + 12, true);
+    const date = central.getUint16(position + 14, true);
+    const compressedSize = central.getUint32(position + 20, true);
+    const nameLength = central.getUint16(position + 28, true);
+    const localOffset = central.getUint32(position + 42, true);
+    const name = decoder.decode(new Uint8Array(central.buffer, central.byteOffset + position + 46, nameLength));
+    position += 46 + nameLength + central.getUint16(position + 30, true) + central.getUint16(position + 32, true);
+    if (name.endsWith('/')) continue;
+    if (method !== 0 && method !== 8) throw new Error(`Compressão não suportada em ${name}.`);
+
+    // The local header repeats the name and may carry a different extra field.
+    const local = new DataView(await zip.slice(localOffset, localOffset + 30).arrayBuffer());
+    if (local.byteLength < 30 || local.getUint32(0, true) !== 0x04034b50) throw new Error(`Entrada corrompida no ZIP: ${name}.`);
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    const data = zip.slice(dataStart, dataStart + compressedSize);
+    entries.push({ name, data: method === 8 ? await inflateRaw(data) : data, lastModified: fromDosDateTime(time, date) });
+  }
+  return entries;
+};
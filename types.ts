@@ -4,28 +4,129 @@ export interface User {
   password?: string; // Only used for registration, not stored
 }
 
+export interface MediaTag {
+  name: string;
+  source: 'ai' | 'manual';
+}
+
+// Structured description produced by the AI analysis.
+export interface MediaAnalysis {
+  caption: string;
+  altText: string;
+  text: string; // text read from the image, empty when there is none
+  colors: string[]; // dominant colors as #rrggbb
+}
+
+// Vector used by semantic search; only comparable with vectors from the same model.
+export interface MediaEmbedding {
+  model: string; // provider and model that produced the vector, e.g. "gemini:gemini-embedding-001"
+  vector: number[];
+}
+
+// Technical metadata read from the file on upload.
+export interface MediaMetadata {
+  camera?: string;
+  lens?: string;
+  capturedAt?: string; // ISO 8601, from EXIF or the video container
+  exposureTime?: number; // seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number; // millimetres
+  location?: { latitude: number; longitude: number; altitude?: number };
+  duration?: number; // seconds, videos only
+  codecs?: string[]; // e.g. ["H.264", "AAC"], as declared by the container
+}
+
 export interface MediaFile {
-  id: string;
+  id: string; // also the key of the content blob in IndexedDB
   name: string;
   type: 'image' | 'video';
   mimeType: string;
   size: number;
-  dataUrl: string; // base64
   category: string;
-  tags: string[];
+  tags: MediaTag[];
   uploadDate: string;
   views: number;
   width?: number;
   height?: number;
+  isPublic?: boolean;
+  publicId?: string; // short slug used in the public /m/<publicId>.<ext> URL
+  hasPoster?: boolean; // videos: a JPEG of the first keyframe is stored next to the content
+  hasThumbnail?: boolean; // a small JPEG used by the grid, so the original is only loaded when opened
+  analysis?: MediaAnalysis;
+  aiStatus?: 'queued' | 'done' | 'failed'; // background AI tagging; queued items resume after a reload
+  embedding?: MediaEmbedding;
+  metadata?: MediaMetadata;
+  contentHash?: string; // SHA-256 of the stored content, for spotting exact duplicates
+  perceptualHash?: string; // difference hash of the picture (or video poster), for near-duplicates
+  shareLocation?: boolean; // keep GPS data in shared and public copies; stripped by default
+  revisions?: MediaRevision[]; // version history, oldest first; the last entry is the current state
+  deletedAt?: string; // set while the item is in the trash; purged once the retention period is over
+}
+
+// What a revision changed: a user-editable field, or the content itself (e.g. an image edit).
+export type MediaChange = 'name' | 'category' | 'tags' | 'isPublic' | 'shareLocation' | 'content';
+
+// The state of an item as of one revision. Earlier contents are archived under their hash.
+export type MediaSnapshot = Pick<MediaFile, 'name' | 'category' | 'tags' | 'isPublic' | 'shareLocation' | 'size' | 'mimeType' | 'width' | 'height' | 'contentHash'>;
+
+export interface MediaRevision {
+  id: string;
+  date: string;
+  author: string; // username, or "IA" for changes made by the tagging queue
+  changes: MediaChange[]; // empty for the state the history started from
+  snapshot: MediaSnapshot;
+  revertOf?: string; // id of the revision this one restored
+}
+
+// How an item was reached: opened or downloaded by its owner in the app, or fetched by
+// someone else through a share link or the public link.
+export type MediaEventType = 'view' | 'download' | 'share' | 'public';
+
+// One entry of the analytics log.
+export interface MediaEvent {
+  mediaId: string;
+  type: MediaEventType;
+  date: string;
+  referrer?: string; // host of the page a share or public link was opened from, when it sent one
+}
+
+export interface Album {
+  id: string;
+  name: string;
+  description: string;
+  coverMediaId?: string;
+  order: number; // position among the owner's albums
+  createdAt: string;
+  mediaIds: string[]; // members, in display order; a media item may belong to many albums
 }
 
 export interface ToastMessage {
   id: string;
   message: string;
   type: 'success' | 'error' | 'info';
+  action?: { label: string; onClick: () => void };
 }
 
 export enum ViewMode {
   GRID = 'grid',
   LIST = 'list',
 }
+
+export interface ShareLink {
+  token: string;
+  mediaId: string;
+  url: string;
+  createdAt: string;
+  expiresAt?: string;
+  maxViews?: number;
+  views: number;
+  hasPassword: boolean;
+  revoked: boolean;
+}
+
+export type ShareLinkOptions = {
+  expiresAt?: string;
+  maxViews?: number;
+  password?: string;
+};
@@ -6,7 +6,12 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND),
+        'process.env.STORAGE_SERVER_URL': JSON.stringify(env.STORAGE_SERVER_URL),
+        'process.env.STORAGE_QUOTA_MB': JSON.stringify(env.STORAGE_QUOTA_MB),
+        'process.env.MAX_UPLOAD_MB': JSON.stringify(env.MAX_UPLOAD_MB),
+        'process.env.APP_VERSION': JSON.stringify(process.env.npm_package_version)
       },
       resolve: {
         alias: {